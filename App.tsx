@@ -2,27 +2,38 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import HomeScreen from './components/HomeScreen';
 import VocabTrainer from './components/VocabTrainer';
 import Storybook from './components/Storybook';
+import StoryLibrary from './components/StoryLibrary';
 import SettingsModal from './components/SettingsModal';
+import ProfileSelector from './components/ProfileSelector';
+import StorytellerRestNotice from './components/StorytellerRestNotice';
 import SettingsIcon from './components/icons/SettingsIcon';
 import { GameScreen, Language, StoryTone, AIVoice, Word } from './types';
-
-// This is our new single point of contact with our secure backend.
-const API_ENDPOINT = '/.netlify/functions/generate-speech';
+import WordReview from './components/WordReview';
+import VocabQuiz from './components/VocabQuiz';
+import { useProfiles } from './hooks/useProfiles';
+import { useNarration } from './hooks/useNarration';
+import { recordExposure } from './services/wordProgress';
 
 const App: React.FC = () => {
   const [currentScreen, setCurrentScreen] = useState<GameScreen>(GameScreen.HOME);
   const [selectedWords, setSelectedWords] = useState<Word[]>([]);
   
+  // Profile State: settings belong to whichever child is playing
+  const { profiles, activeProfile, loadError, retryLoad, settings, selectProfile, addProfile, removeProfile, updateSettings, addLearnedWords } = useProfiles();
+  const [isProfileSelectorOpen, setIsProfileSelectorOpen] = useState(false);
+  const { language, storyTone, storyLength, aiVoice, isImageGenerationEnabled, isScenePrefetchEnabled } = settings;
+  const setLanguage = (value: Language) => updateSettings({ language: value });
+  const setStoryTone = (value: StoryTone) => updateSettings({ storyTone: value });
+  const setStoryLength = (value: number) => updateSettings({ storyLength: value });
+  const setAiVoice = (value: AIVoice) => updateSettings({ aiVoice: value });
+  const setIsImageGenerationEnabled = (value: boolean) => updateSettings({ isImageGenerationEnabled: value });
+  const setIsScenePrefetchEnabled = (value: boolean) => updateSettings({ isScenePrefetchEnabled: value });
+
   // Settings State
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [language, setLanguage] = useState<Language>(Language.TH);
-  const [storyTone, setStoryTone] = useState<StoryTone>(StoryTone.ADVENTURE);
-  const [aiVoice, setAiVoice] = useState<AIVoice>(AIVoice.AURORA);
-  const [isImageGenerationEnabled, setIsImageGenerationEnabled] = useState(true);
 
-  // Audio State
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Narration, with the word being read for read-along
+  const { speak, speakFrom, stopSpeech, isSpeaking, readAlong } = useNarration(aiVoice, language);
   
   // Sound Effects
   const menuSoundRef = useRef<HTMLAudioElement | null>(null);
@@ -42,55 +53,43 @@ const App: React.FC = () => {
     menuSoundRef.current?.play().catch(e => console.error("Error playing menu sound:", e));
   };
   
-  const speak = useCallback(async (text: string) => {
-    if (isSpeaking || !text) return;
-    setIsSpeaking(true);
-    try {
-      const response = await fetch(API_ENDPOINT, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          task: 'generateGeminiSpeech',
-          payload: { text, voice: aiVoice, language }
-        }),
-      });
-      if (!response.ok) throw new Error('Failed to generate speech');
-      const { audioContent, mimeType } = await response.json();
-      
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current.src = '';
-      }
-      
-      audioRef.current = new Audio(`data:${mimeType};base64,${audioContent}`);
-      await audioRef.current.play();
-
-      audioRef.current.onended = () => {
-        setIsSpeaking(false);
-      };
-      
-    } catch (error) {
-      console.error('Speech generation failed:', error);
-      setIsSpeaking(false);
-    }
-  }, [aiVoice, language, isSpeaking]);
+  // Words due for review are practised before choosing words for a new story
+  const handleStart = () => {
+    playMenuSound();
+    setCurrentScreen(activeProfile ? GameScreen.REVIEW : GameScreen.VOCAB);
+  };
 
-  const stopSpeech = useCallback(() => {
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.currentTime = 0;
-    }
-    setIsSpeaking(false);
+  const handleReviewComplete = useCallback(() => {
+    setCurrentScreen(GameScreen.VOCAB);
   }, []);
+  
+  const handleOpenProfiles = () => {
+    playMenuSound();
+    setIsProfileSelectorOpen(true);
+  };
 
-  const handleStart = () => {
+  const handleOpenLibrary = () => {
     playMenuSound();
-    setCurrentScreen(GameScreen.VOCAB);
+    setCurrentScreen(GameScreen.LIBRARY);
   };
-  
+
+  const handleOpenQuiz = () => {
+    playMenuSound();
+    setCurrentScreen(GameScreen.QUIZ);
+  };
+
+  const handleBackToHome = () => {
+    playMenuSound();
+    setCurrentScreen(GameScreen.HOME);
+  };
+
   const handleVocabComplete = (words: Word[]) => {
     playMenuSound();
     setSelectedWords(words);
+    addLearnedWords(words);
+    if (activeProfile) {
+      recordExposure(activeProfile.id, words).catch(error => console.error("Failed to record word exposure:", error));
+    }
     setCurrentScreen(GameScreen.STORY);
   };
 
@@ -101,30 +100,74 @@ const App: React.FC = () => {
   };
   
   const renderScreen = () => {
+    if (loadError) {
+      const isThai = language === Language.TH;
+      return (
+        <div className="w-full h-full flex flex-col items-center justify-center gap-4 p-6 text-center text-white" role="alert">
+          <p className="text-xl font-semibold">
+            {isThai ? 'เปิดโปรไฟล์ที่บันทึกไว้ไม่ได้ ลองปิดแท็บอื่นของแอปนี้แล้วลองอีกครั้งนะ' : "Couldn't open your saved profiles. Close any other tabs with this app, then try again."}
+          </p>
+          <button onClick={retryLoad} className="px-6 py-2 font-bold text-white bg-purple-600 hover:bg-purple-700 rounded-full shadow">
+            {isThai ? 'ลองอีกครั้ง' : 'Try again'}
+          </button>
+        </div>
+      );
+    }
     switch (currentScreen) {
       case GameScreen.HOME:
-        return <HomeScreen onStart={handleStart} />;
+        return <HomeScreen onStart={handleStart} onOpenLibrary={handleOpenLibrary} onOpenQuiz={handleOpenQuiz} activeProfile={activeProfile} onOpenProfiles={handleOpenProfiles} />;
+      case GameScreen.REVIEW:
+        return activeProfile
+          ? <WordReview profileId={activeProfile.id} language={language} speak={speak} onComplete={handleReviewComplete} />
+          : <VocabTrainer onComplete={handleVocabComplete} language={language} speak={speak} isSpeaking={isSpeaking} />;
       case GameScreen.VOCAB:
-        return <VocabTrainer onComplete={handleVocabComplete} language={language} />;
+        return <VocabTrainer profileId={activeProfile?.id} ageBand={activeProfile?.ageBand} onComplete={handleVocabComplete} language={language} speak={speak} isSpeaking={isSpeaking} />;
       case GameScreen.STORY:
         return <Storybook 
+          profileId={activeProfile?.id}
           words={selectedWords} 
           onComplete={handleStoryComplete} 
           language={language}
           storyTone={storyTone}
+          storyLength={storyLength}
+          aiVoice={aiVoice}
           isImageGenerationEnabled={isImageGenerationEnabled}
+          isScenePrefetchEnabled={isScenePrefetchEnabled}
+          speak={speak}
+          speakFrom={speakFrom}
+          stopSpeech={stopSpeech}
+          isSpeaking={isSpeaking}
+          readAlong={readAlong}
+        />;
+      case GameScreen.QUIZ:
+        return <VocabQuiz
+          key={activeProfile?.id}
+          profile={activeProfile}
+          language={language}
           speak={speak}
+          onBack={handleBackToHome}
+        />;
+      case GameScreen.LIBRARY:
+        return <StoryLibrary
+          key={activeProfile?.id}
+          profileId={activeProfile?.id}
+          onBack={handleBackToHome}
+          language={language}
+          speak={speak}
+          speakFrom={speakFrom}
           stopSpeech={stopSpeech}
           isSpeaking={isSpeaking}
+          readAlong={readAlong}
         />;
       default:
-        return <HomeScreen onStart={handleStart} />;
+        return <HomeScreen onStart={handleStart} onOpenLibrary={handleOpenLibrary} onOpenQuiz={handleOpenQuiz} activeProfile={activeProfile} onOpenProfiles={handleOpenProfiles} />;
     }
   };
 
   return (
     <div className="w-screen h-screen bg-gray-900 font-sans">
       {renderScreen()}
+      <StorytellerRestNotice language={language} />
       <button
         onClick={() => {
           playMenuSound();
@@ -142,10 +185,25 @@ const App: React.FC = () => {
         setLanguage={setLanguage}
         storyTone={storyTone}
         setStoryTone={setStoryTone}
+        storyLength={storyLength}
+        setStoryLength={setStoryLength}
         aiVoice={aiVoice}
         setAiVoice={setAiVoice}
         isImageGenerationEnabled={isImageGenerationEnabled}
         setIsImageGenerationEnabled={setIsImageGenerationEnabled}
+        isScenePrefetchEnabled={isScenePrefetchEnabled}
+        setIsScenePrefetchEnabled={setIsScenePrefetchEnabled}
+        profileId={activeProfile?.id}
+        playMenuSound={playMenuSound}
+      />
+      <ProfileSelector
+        isOpen={isProfileSelectorOpen}
+        onClose={() => setIsProfileSelectorOpen(false)}
+        profiles={profiles}
+        activeProfileId={activeProfile?.id ?? null}
+        onSelect={selectProfile}
+        onAdd={addProfile}
+        onRemove={removeProfile}
         playMenuSound={playMenuSound}
       />
     </div>
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { AIVoice, Language, StoryTone, WordCategory } from './types';
+import { FieldError, MAX_EXCLUDED_WORDS, MAX_WORD_LENGTH, ProtocolValidationError, parseTaskRequest, parseTaskResponse } from './apiProtocol';
+
+const fieldErrors = (parse: () => unknown): FieldError[] => {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof ProtocolValidationError) return error.errors;
+    throw error;
+  }
+  throw new Error('Expected a ProtocolValidationError');
+};
+
+const scene = (payload: Record<string, unknown>) => ({
+  task: 'generateFullStoryScene',
+  payload: { sceneType: 'next', language: Language.EN, storyTone: StoryTone.FUNNY, words: ['cat'], storySoFar: 'Once.', userChoice: 'Run', ...payload },
+});
+
+describe('parseTaskRequest', () => {
+  it('rejects a missing or unknown task', () => {
+    expect(fieldErrors(() => parseTaskRequest(null))).toEqual([{ field: 'task', message: 'unknown task: undefined' }]);
+    expect(fieldErrors(() => parseTaskRequest({ task: 'toString', payload: {} }))).toEqual([{ field: 'task', message: 'unknown task: toString' }]);
+  });
+
+  it('lists every invalid field, not just the first', () => {
+    const errors = fieldErrors(() => parseTaskRequest({ task: 'generateGeminiSpeech', payload: { text: '  ', voice: 'robot', language: 'fr' } }));
+    expect(errors.map(e => e.field)).toEqual(['text', 'voice', 'language']);
+  });
+
+  it('rejects words that are too long or not made of letters', () => {
+    const longWord = 'a'.repeat(MAX_WORD_LENGTH + 1);
+    expect(fieldErrors(() => parseTaskRequest({ task: 'generateImage', payload: { word: longWord } }))[0].field).toBe('word');
+    expect(fieldErrors(() => parseTaskRequest({ task: 'generateImage', payload: { word: 'cat<script>' } }))[0].message).toBe('must contain only letters');
+    expect(fieldErrors(() => parseTaskRequest({ task: 'generateImage', payload: { word: '-cat' } }))[0].field).toBe('word');
+  });
+
+  it('rejects too many excluded words and points at a bad one by index', () => {
+    const tooMany = Array.from({ length: MAX_EXCLUDED_WORDS + 1 }, () => 'cat');
+    expect(fieldErrors(() => parseTaskRequest({ task: 'generateVocabularyList', payload: { category: WordCategory.ANIMALS_NATURE, exclude: tooMany } }))[0].field).toBe('exclude');
+    expect(fieldErrors(() => parseTaskRequest({ task: 'generateVocabularyList', payload: { category: WordCategory.ANIMALS_NATURE, exclude: ['cat', '42'] } }))[0].field).toBe('exclude[1]');
+  });
+
+  it('requires the story so far and the choice after the opening scene', () => {
+    const errors = fieldErrors(() => parseTaskRequest(scene({ storySoFar: undefined, userChoice: undefined })));
+    expect(errors.map(e => e.field)).toEqual(['storySoFar', 'userChoice']);
+  });
+
+  it('requires a token with a character sheet, and a scene number within the arc', () => {
+    const bible = { characters: [{ name: 'Pip', species: 'bunny', colors: 'white', clothing: 'nothing' }], setting: 'a meadow', artStyle: 'watercolour' };
+    expect(fieldErrors(() => parseTaskRequest(scene({ bible }))).map(e => e.field)).toEqual(['bibleToken']);
+    const arc = { stage: 'climax', sceneNumber: 5, sceneCount: 4 };
+    expect(fieldErrors(() => parseTaskRequest(scene({ arc }))).map(e => e.field)).toEqual(['arc.sceneNumber']);
+  });
+
+  it('rejects a token that the function could not have issued', () => {
+    const errors = fieldErrors(() => parseTaskRequest({ task: 'generateSceneImage', payload: { sceneText: 'A cat.', imageToken: 'abc def' } }));
+    expect(errors).toEqual([{ field: 'imageToken', message: 'must be a token returned by the function' }]);
+  });
+
+  it('cleans text it accepts', () => {
+    const request = parseTaskRequest({ task: 'generateGeminiSpeech', payload: { text: ' A  """cat"""\n', voice: AIVoice.AURORA, language: Language.EN } });
+    expect(request.payload).toEqual({ text: 'A "cat"', voice: AIVoice.AURORA, language: Language.EN });
+  });
+});
+
+describe('parseTaskResponse', () => {
+  it('rejects a scene with too many choices or a picture that is not a data or https URL', () => {
+    expect(fieldErrors(() => parseTaskResponse('generateFullStoryScene', { text: 'Hi', choices: ['a', 'b', 'c'] }))[0].field).toBe('choices');
+    expect(fieldErrors(() => parseTaskResponse('generateImage', { imageUrl: 'http://example.com/cat.png' }))[0].field).toBe('imageUrl');
+  });
+});
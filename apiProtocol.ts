@@ -0,0 +1,454 @@
+import { Language, StoryTone, WordCategory, AIVoice, AgeBand, Word, StoryBible, StoryCharacter, ModerationCategory, ModerationAction, ModerationEvent } from './types';
+import { MAX_WORDS_PER_ROUND } from './constants';
+
+// --- SHARED API PROTOCOL ---
+// The single source of truth for the task/payload contract between the
+// browser (`callApi`) and the Netlify function. Both ends import the types
+// and the runtime validators from here, so neither side trusts the other.
+
+export const API_ENDPOINT = '/.netlify/functions/generate-speech';
+
+/** Identifies one browser session to the function's rate limits. */
+export const SESSION_HEADER = 'X-Imagitale-Session';
+
+// --- ERRORS ---
+// Every failed request answers with an ApiErrorResponse, so the browser can
+// tell a bad request from a busy model and decide whether to try again.
+
+export type ApiErrorCode =
+  | 'validation'           // the request broke the protocol
+  | 'quota'                // a rate limit, the daily budget or the model's own quota was reached
+  | 'upstreamTimeout'      // the model took too long
+  | 'safetyBlock'          // the model refused the prompt or its own output, or the request's text didn't pass the safety check
+  | 'upstreamUnavailable'  // the model couldn't be reached or is overloaded
+  | 'internal';            // anything else
+
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  validation: 400,
+  quota: 429,
+  upstreamTimeout: 504,
+  safetyBlock: 422,
+  upstreamUnavailable: 503,
+  internal: 500,
+};
+
+/** Errors that may well succeed if the same request is simply sent again. */
+export const RETRYABLE_ERROR_CODES: readonly ApiErrorCode[] = ['upstreamTimeout', 'upstreamUnavailable'];
+
+export interface ApiErrorResponse {
+  code: ApiErrorCode;
+  message: string;
+  /** Set for 'quota'; the same wait is also in the Retry-After header. */
+  retryAfterSeconds?: number;
+  /** Set for 'validation'. */
+  errors?: FieldError[];
+}
+
+// --- PAYLOAD LIMITS ---
+export const MAX_WORD_LENGTH = 40;
+export const MAX_SPEECH_TEXT_LENGTH = 1500;
+export const MAX_STORY_LENGTH = 8000;
+export const MAX_CHOICE_LENGTH = 200;
+export const MAX_SCENE_TEXT_LENGTH = 2000;
+export const MAX_EXCLUDED_WORDS = 100;
+export const MIN_STORY_SCENES = 3;
+export const MAX_STORY_SCENES = 8;
+export const MAX_ARC_GOAL_LENGTH = 300;
+export const MAX_BIBLE_CHARACTERS = 4;
+export const MAX_BIBLE_FIELD_LENGTH = 120;
+export const MAX_MODERATION_EXCERPT_LENGTH = 200;
+export const MAX_TOKEN_LENGTH = 100;
+
+export type SceneType = 'initial' | 'next' | 'final';
+export const SCENE_TYPES: readonly SceneType[] = ['initial', 'next', 'final'];
+
+export const MODERATION_CATEGORIES: readonly ModerationCategory[] = ['violence', 'weapons', 'adult', 'substances', 'selfHarm', 'profanity', 'frightening', 'unsafe'];
+export const MODERATION_ACTIONS: readonly ModerationAction[] = ['redirected', 'regenerated', 'replaced'];
+
+export type ArcStage = 'setup' | 'problem' | 'risingAction' | 'climax' | 'resolution';
+export const ARC_STAGES: readonly ArcStage[] = ['setup', 'problem', 'risingAction', 'climax', 'resolution'];
+
+/**
+ * The arc stage of each scene in a story of `sceneCount` scenes. The first
+ * and last scenes are always the setup and resolution; longer stories stretch
+ * the rising action, and a three-scene story folds the climax into the problem.
+ */
+export const arcStagesFor = (sceneCount: number): ArcStage[] =>
+  Array.from({ length: sceneCount }, (_, index) => {
+    if (index === 0) return 'setup';
+    if (index === sceneCount - 1) return 'resolution';
+    if (index === 1) return 'problem';
+    if (index === sceneCount - 2) return 'climax';
+    return 'risingAction';
+  });
+
+// --- REQUEST PAYLOADS ---
+
+export interface SpeechRequest {
+  text: string;
+  voice: AIVoice;
+  language: Language;
+}
+
+/** The age band assumed when none is given, by the function and by new profiles alike. */
+export const DEFAULT_AGE_BAND = AgeBand.PRESCHOOL;
+
+export interface VocabularyListRequest {
+  category: WordCategory;
+  /** Tunes the difficulty of the words; defaults to DEFAULT_AGE_BAND. */
+  ageBand?: AgeBand;
+  /** English words the child already has, which the server must not return again. */
+  exclude?: string[];
+}
+
+export interface VocabImageRequest {
+  word: string;
+}
+
+/** One scene's place in the story's arc. */
+export interface ArcBeat {
+  stage: ArcStage;
+  /** What the plan has happen in this scene. Absent when no plan could be made. */
+  goal?: string;
+}
+
+/** Where a scene sits in the planned story, e.g. scene 4 of 5, the climax. */
+export interface SceneArcPosition extends ArcBeat {
+  sceneNumber: number;
+  sceneCount: number;
+}
+
+export interface StoryArcRequest {
+  storyTone: StoryTone;
+  words: string[];
+  sceneCount: number;
+}
+
+export interface StorySceneRequest {
+  sceneType: SceneType;
+  language: Language;
+  storyTone: StoryTone;
+  words: string[];
+  /** Required for the 'next' and 'final' scenes. */
+  storySoFar?: string;
+  /** Required for the 'next' and 'final' scenes. */
+  userChoice?: string;
+  arc?: SceneArcPosition;
+  /** The sheet returned with the opening scene; sent with every later scene. */
+  bible?: StoryBible;
+  /** The opening scene's `bibleToken`; required with `bible`. */
+  bibleToken?: string;
+}
+
+/** Only a scene the function wrote can be illustrated, with the token it was returned with. */
+export interface SceneImageRequest {
+  sceneText: string;
+  bible?: StoryBible;
+  imageToken: string;
+}
+
+export interface StoryTitleRequest {
+  storyText: string;
+  language: Language;
+}
+
+// --- RESPONSES ---
+
+export interface SpeechResponse {
+  audioContent: string;
+  mimeType: string;
+}
+
+export interface ImageResponse {
+  imageUrl: string;
+}
+
+/** One beat per scene, in order. */
+export interface StoryArcResponse {
+  beats: ArcBeat[];
+}
+
+/** A scene's words; its picture is requested separately with generateSceneImage. */
+export interface SceneContentResponse {
+  text: string;
+  choices: string[];
+  /** Only on the opening scene, and only when the model produced a usable sheet. */
+  bible?: StoryBible;
+  /** The function's signature for `bible`, to send back with it. */
+  bibleToken?: string;
+  /**
+   * The function's signature for this scene's text and the sheet its picture
+   * follows (the one sent with the request, or the new one), for generateSceneImage.
+   * Absent when `redirected`.
+   */
+  imageToken?: string;
+  /**
+   * Set when the child's idea didn't pass the safety check. No scene was
+   * written; `text` is a gentle nudge to think of something else.
+   */
+  redirected?: boolean;
+  /** Anything the safety check stopped while answering, for the parents' log. */
+  moderation?: ModerationEvent[];
+}
+
+export interface StoryTitleResponse {
+  title: string;
+  moderation?: ModerationEvent[];
+}
+
+/** Maps every task name to its request payload and response body. */
+export interface TaskMap {
+  generateGeminiSpeech: { request: SpeechRequest; response: SpeechResponse };
+  generateVocabularyList: { request: VocabularyListRequest; response: Word[] };
+  generateImage: { request: VocabImageRequest; response: ImageResponse };
+  generateStoryArc: { request: StoryArcRequest; response: StoryArcResponse };
+  generateFullStoryScene: { request: StorySceneRequest; response: SceneContentResponse };
+  generateSceneImage: { request: SceneImageRequest; response: ImageResponse };
+  generateStoryTitle: { request: StoryTitleRequest; response: StoryTitleResponse };
+}
+
+export type TaskName = keyof TaskMap;
+export type TaskPayload<K extends TaskName> = TaskMap[K]['request'];
+export type TaskResponse<K extends TaskName> = TaskMap[K]['response'];
+
+/** A discriminated union of every valid request body. */
+export type TaskRequest = { [K in TaskName]: { task: K; payload: TaskPayload<K> } }[TaskName];
+
+// --- RUNTIME VALIDATION ---
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export class ProtocolValidationError extends Error {
+  constructor(public errors: FieldError[]) {
+    super(errors.map(e => `${e.field || 'body'}: ${e.message}`).join('; '));
+    this.name = 'ProtocolValidationError';
+  }
+}
+
+/** Validates (and may normalize) a value, recording problems in `errors`. */
+type Validator<T> = (value: unknown, field: string, errors: FieldError[]) => T;
+
+const fail = <T>(errors: FieldError[], field: string, message: string): T => {
+  errors.push({ field, message });
+  return undefined as T;
+};
+
+const childField = (parent: string, key: string | number): string =>
+  typeof key === 'number' ? `${parent}[${key}]` : parent ? `${parent}.${key}` : key;
+
+// Letters (any script, including Thai vowel and tone marks), spaces, hyphens and apostrophes.
+export const WORD_PATTERN = /^[\p{L}\p{M}][\p{L}\p{M} '\-]*$/u;
+
+interface StringRules {
+  maxLength: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+  /** Collapse whitespace and strip the `"""` delimiter used to quote user text inside prompts. */
+  clean?: boolean;
+}
+
+/** Text as a `clean` string field receives it. */
+export const cleanText = (text: string): string => text.replace(/"""/g, '"').replace(/\s+/g, ' ').trim();
+
+const string = ({ maxLength, pattern, patternMessage, clean = false }: StringRules): Validator<string> => (value, field, errors) => {
+  if (typeof value !== 'string') return fail(errors, field, 'must be a string');
+  const result = clean ? cleanText(value) : value;
+  if (!result) return fail(errors, field, 'must not be empty');
+  if (result.length > maxLength) return fail(errors, field, `must be at most ${maxLength} characters`);
+  if (pattern && !pattern.test(result)) return fail(errors, field, patternMessage ?? 'has an invalid format');
+  return result;
+};
+
+const word = string({ maxLength: MAX_WORD_LENGTH, pattern: WORD_PATTERN, patternMessage: 'must contain only letters', clean: true });
+
+const enumOf = <T extends string>(allowed: readonly T[]): Validator<T> => (value, field, errors) =>
+  typeof value === 'string' && allowed.includes(value as T)
+    ? value as T
+    : fail(errors, field, `must be one of: ${allowed.join(', ')}`);
+
+const array = <T>(item: Validator<T>, minItems: number, maxItems: number): Validator<T[]> => (value, field, errors) => {
+  if (!Array.isArray(value)) return fail(errors, field, 'must be an array');
+  if (value.length < minItems || value.length > maxItems) {
+    return fail(errors, field, `must contain between ${minItems} and ${maxItems} items`);
+  }
+  return value.map((entry, index) => item(entry, childField(field, index), errors));
+};
+
+const integer = (min: number, max: number): Validator<number> => (value, field, errors) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+    ? value
+    : fail(errors, field, `must be a whole number from ${min} to ${max}`);
+
+const boolean: Validator<boolean> = (value, field, errors) =>
+  typeof value === 'boolean' ? value : fail(errors, field, 'must be true or false');
+
+const optional = <T>(validator: Validator<T>): Validator<T | undefined> => (value, field, errors) =>
+  value === undefined || value === null ? undefined : validator(value, field, errors);
+
+const object = <T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> => (value, field, errors) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(errors, field, 'must be an object');
+  const source = value as Record<string, unknown>;
+  const result = {} as T;
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const parsed = shape[key](source[key], childField(field, key), errors);
+    if (parsed !== undefined) result[key] = parsed;
+  }
+  return result;
+};
+
+const bibleField = string({ maxLength: MAX_BIBLE_FIELD_LENGTH, clean: true });
+
+const token = string({ maxLength: MAX_TOKEN_LENGTH, pattern: /^[\w-]+$/, patternMessage: 'must be a token returned by the function' });
+
+const storyBible = object<StoryBible>({
+  characters: array(object<StoryCharacter>({
+    name: bibleField,
+    species: bibleField,
+    colors: bibleField,
+    clothing: bibleField,
+  }), 1, MAX_BIBLE_CHARACTERS),
+  setting: bibleField,
+  artStyle: bibleField,
+});
+
+const storySceneRequestFields = object<StorySceneRequest>({
+  sceneType: enumOf(SCENE_TYPES),
+  language: enumOf(Object.values(Language)),
+  storyTone: enumOf(Object.values(StoryTone)),
+  words: array(word, 1, MAX_WORDS_PER_ROUND),
+  storySoFar: optional(string({ maxLength: MAX_STORY_LENGTH, clean: true })),
+  userChoice: optional(string({ maxLength: MAX_CHOICE_LENGTH, clean: true })),
+  arc: optional(object<SceneArcPosition>({
+    stage: enumOf(ARC_STAGES),
+    goal: optional(string({ maxLength: MAX_ARC_GOAL_LENGTH, clean: true })),
+    sceneNumber: integer(1, MAX_STORY_SCENES),
+    sceneCount: integer(MIN_STORY_SCENES, MAX_STORY_SCENES),
+  })),
+  bible: optional(storyBible),
+  bibleToken: optional(token),
+});
+
+const storySceneRequest: Validator<StorySceneRequest> = (value, field, errors) => {
+  const request = storySceneRequestFields(value, field, errors);
+  if (!request) return request;
+  if (request.sceneType !== 'initial' && !request.storySoFar) {
+    fail(errors, childField(field, 'storySoFar'), `is required for the ${request.sceneType} scene`);
+  }
+  if (request.sceneType !== 'initial' && !request.userChoice) {
+    fail(errors, childField(field, 'userChoice'), `is required for the ${request.sceneType} scene`);
+  }
+  if (request.bible && !request.bibleToken) {
+    fail(errors, childField(field, 'bibleToken'), 'is required with bible');
+  }
+  if (request.arc && request.arc.sceneNumber > request.arc.sceneCount) {
+    fail(errors, childField(childField(field, 'arc'), 'sceneNumber'), 'must not be greater than sceneCount');
+  }
+  return request;
+};
+
+const requestValidators: { [K in TaskName]: Validator<TaskPayload<K>> } = {
+  generateGeminiSpeech: object<SpeechRequest>({
+    text: string({ maxLength: MAX_SPEECH_TEXT_LENGTH, clean: true }),
+    voice: enumOf(Object.values(AIVoice)),
+    language: enumOf(Object.values(Language)),
+  }),
+  generateVocabularyList: object<VocabularyListRequest>({
+    category: enumOf(Object.values(WordCategory)),
+    ageBand: optional(enumOf(Object.values(AgeBand))),
+    exclude: optional(array(word, 0, MAX_EXCLUDED_WORDS)),
+  }),
+  generateImage: object<VocabImageRequest>({
+    word,
+  }),
+  generateStoryArc: object<StoryArcRequest>({
+    storyTone: enumOf(Object.values(StoryTone)),
+    words: array(word, 1, MAX_WORDS_PER_ROUND),
+    sceneCount: integer(MIN_STORY_SCENES, MAX_STORY_SCENES),
+  }),
+  generateFullStoryScene: storySceneRequest,
+  generateSceneImage: object<SceneImageRequest>({
+    sceneText: string({ maxLength: MAX_SCENE_TEXT_LENGTH, clean: true }),
+    bible: optional(storyBible),
+    imageToken: token,
+  }),
+  generateStoryTitle: object<StoryTitleRequest>({
+    storyText: string({ maxLength: MAX_STORY_LENGTH, clean: true }),
+    language: enumOf(Object.values(Language)),
+  }),
+};
+
+// Responses come from our own server, so the checks are about shape rather
+// than abuse: a malformed scene must never reach the Storybook.
+const moderation = optional(array(object<ModerationEvent>({
+  direction: enumOf(['input', 'output'] as const),
+  category: enumOf(MODERATION_CATEGORIES),
+  action: enumOf(MODERATION_ACTIONS),
+  excerpt: string({ maxLength: MAX_MODERATION_EXCERPT_LENGTH }),
+}), 0, 10));
+
+const imageUrl = string({ maxLength: 20_000_000, pattern: /^(data:image\/[\w.+-]+;base64,|https:\/\/)/, patternMessage: 'must be a data: or https: URL' });
+
+const responseValidators: { [K in TaskName]: Validator<TaskResponse<K>> } = {
+  generateGeminiSpeech: object<SpeechResponse>({
+    audioContent: string({ maxLength: 50_000_000 }),
+    mimeType: string({ maxLength: 100, pattern: /^audio\//, patternMessage: 'must be an audio MIME type' }),
+  }),
+  generateVocabularyList: array(object<Word>({
+    thai: string({ maxLength: MAX_WORD_LENGTH }),
+    english: string({ maxLength: MAX_WORD_LENGTH }),
+  }), 0, 50),
+  generateImage: object<ImageResponse>({
+    imageUrl,
+  }),
+  generateStoryArc: object<StoryArcResponse>({
+    beats: array(object<ArcBeat>({
+      stage: enumOf(ARC_STAGES),
+      goal: optional(string({ maxLength: MAX_ARC_GOAL_LENGTH })),
+    }), MIN_STORY_SCENES, MAX_STORY_SCENES),
+  }),
+  generateFullStoryScene: object<SceneContentResponse>({
+    text: string({ maxLength: MAX_SCENE_TEXT_LENGTH }),
+    choices: array(string({ maxLength: MAX_CHOICE_LENGTH }), 0, 2),
+    bible: optional(storyBible),
+    bibleToken: optional(token),
+    imageToken: optional(token),
+    redirected: optional(boolean),
+    moderation,
+  }),
+  generateSceneImage: object<ImageResponse>({
+    imageUrl,
+  }),
+  generateStoryTitle: object<StoryTitleResponse>({
+    title: string({ maxLength: 200 }),
+    moderation,
+  }),
+};
+
+const run = <T>(validator: Validator<T>, value: unknown): T => {
+  const errors: FieldError[] = [];
+  const result = validator(value, '', errors);
+  if (errors.length > 0) throw new ProtocolValidationError(errors);
+  return result;
+};
+
+export const isTaskName = (task: unknown): task is TaskName =>
+  typeof task === 'string' && Object.prototype.hasOwnProperty.call(requestValidators, task);
+
+/**
+ * Parses an incoming request body into a typed task request.
+ * Throws ProtocolValidationError listing every invalid field.
+ */
+export const parseTaskRequest = (body: unknown): TaskRequest => {
+  const { task, payload } = (typeof body === 'object' && body !== null ? body : {}) as { task?: unknown; payload?: unknown };
+  if (!isTaskName(task)) {
+    throw new ProtocolValidationError([{ field: 'task', message: `unknown task: ${String(task)}` }]);
+  }
+  return { task, payload: run(requestValidators[task] as Validator<TaskPayload<typeof task>>, payload) } as TaskRequest;
+};
+
+/** Validates a response body for the given task. Throws ProtocolValidationError if malformed. */
+export const parseTaskResponse = <K extends TaskName>(task: K, body: unknown): TaskResponse<K> =>
+  run(responseValidators[task] as Validator<TaskResponse<K>>, body);
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { AIVoice, Language } from '../types';
+import { BOOK_LAYOUTS, BookLayoutId, BookStory } from '../services/bookExport';
+import { buildStoryHtml } from '../services/htmlExport';
+import { buildStoryPdf } from '../services/pdfExport';
+import { buildStoryEpub } from '../services/epubExport';
+import { buildAudiobook } from '../services/audiobookExport';
+import { downloadBlob, storyFileName } from '../services/download';
+import DownloadIcon from './icons/DownloadIcon';
+
+type BookFormat = 'html' | 'pdf' | 'epub' | 'audiobook';
+
+interface BookDownloadsProps {
+  story: BookStory;
+  language: Language;
+  /** The narration voice for the EPUB's read-aloud audio and the audiobook. */
+  aiVoice: AIVoice;
+  disabled?: boolean;
+}
+
+const FORMAT_LABELS: Record<BookFormat, Record<Language, string>> = {
+  html: { [Language.TH]: 'หน้าเว็บ (HTML)', [Language.EN]: 'Web page (HTML)' },
+  pdf: { [Language.TH]: 'PDF สำหรับพิมพ์', [Language.EN]: 'PDF to print' },
+  epub: { [Language.TH]: 'e-book มีเสียงอ่าน (EPUB)', [Language.EN]: 'Read-aloud e-book (EPUB)' },
+  audiobook: { [Language.TH]: 'หนังสือเสียง (WAV)', [Language.EN]: 'Audiobook (WAV)' },
+};
+
+const FILE_EXTENSIONS: Record<BookFormat, string> = { html: 'html', pdf: 'pdf', epub: 'epub', audiobook: 'wav' };
+
+// Saves a finished story as a file: a self-contained web page or a PDF in
+// the chosen page format, a read-aloud EPUB, or an audiobook.
+const BookDownloads: React.FC<BookDownloadsProps> = ({ story, language, aiVoice, disabled = false }) => {
+  const [layoutId, setLayoutId] = useState<BookLayoutId>('a4Landscape');
+  const [busyFormat, setBusyFormat] = useState<BookFormat | null>(null);
+  const [failedFormat, setFailedFormat] = useState<BookFormat | null>(null);
+  const [withIntroMusic, setWithIntroMusic] = useState(true);
+  const isThai = language === Language.TH;
+
+  const handleDownload = async (format: BookFormat) => {
+    if (busyFormat) return;
+    setBusyFormat(format);
+    setFailedFormat(null);
+    try {
+      const layout = BOOK_LAYOUTS[layoutId];
+      const file = format === 'html' ? await buildStoryHtml(story, layout)
+        : format === 'pdf' ? await buildStoryPdf(story, layout)
+        : format === 'epub' ? await buildStoryEpub(story, aiVoice)
+        : await buildAudiobook(story, aiVoice, { withIntroMusic });
+      downloadBlob(file, storyFileName(story.title, FILE_EXTENSIONS[format]));
+    } catch (error) {
+      console.error(`Failed to make the ${format} book:`, error);
+      setFailedFormat(format);
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-col items-center gap-3 p-4 bg-purple-50 rounded-xl">
+      <p className="font-bold text-purple-800">{isThai ? 'บันทึกนิทานเป็นหนังสือ' : 'Save the story as a book'}</p>
+      <div className="flex flex-wrap justify-center gap-2" role="radiogroup" aria-label={isThai ? 'ขนาดหน้า' : 'Page format'}>
+        {Object.values(BOOK_LAYOUTS).map(layout => (
+          <button
+            key={layout.id}
+            role="radio"
+            aria-checked={layoutId === layout.id}
+            onClick={() => setLayoutId(layout.id)}
+            disabled={disabled || busyFormat !== null}
+            className={`px-3 py-1 text-sm font-semibold rounded-full border-2 disabled:opacity-50 ${layoutId === layout.id ? 'bg-purple-600 border-purple-600 text-white' : 'bg-white border-purple-200 text-purple-700 hover:border-purple-400'}`}
+          >
+            {layout.label[language]}
+          </button>
+        ))}
+      </div>
+      {BOOK_LAYOUTS[layoutId].bookletSheet && (
+        <p className="text-sm text-purple-800 text-center max-w-md">
+          {isThai
+            ? 'ไฟล์ PDF วางสองหน้าบนกระดาษ A4 แนวนอนตามลำดับสำหรับพับ พิมพ์สองหน้าแบบพลิกด้านสั้น แล้วพับครึ่งและเย็บตรงกลาง'
+            : 'The PDF puts two pages on each landscape A4 sheet in folding order. Print double-sided, flipping on the short edge, then fold in half and staple.'}
+        </p>
+      )}
+      <div className="flex flex-wrap justify-center gap-2">
+        {(Object.keys(FORMAT_LABELS) as BookFormat[]).map(format => (
+          <button
+            key={format}
+            onClick={() => handleDownload(format)}
+            disabled={disabled || busyFormat !== null}
+            className="flex items-center gap-2 px-4 py-2 text-white font-bold rounded-xl shadow bg-gradient-to-br from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 disabled:opacity-50"
+          >
+            <DownloadIcon />
+            <span>{busyFormat === format ? (isThai ? 'กำลังทำหนังสือ...' : 'Making the book...') : FORMAT_LABELS[format][language]}</span>
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-sm font-semibold text-purple-800">
+        <input
+          type="checkbox"
+          checked={withIntroMusic}
+          onChange={event => setWithIntroMusic(event.target.checked)}
+          disabled={disabled || busyFormat !== null}
+          className="w-4 h-4 accent-purple-600"
+        />
+        {isThai ? 'เปิดหนังสือเสียงด้วยเพลงสั้นๆ' : 'Start the audiobook with a little tune'}
+      </label>
+      {failedFormat && (
+        <p className="text-sm font-semibold text-red-600" role="alert">
+          {isThai ? 'ทำหนังสือไม่สำเร็จ ลองอีกครั้งนะ' : "Couldn't make the book. Please try again."}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BookDownloads;
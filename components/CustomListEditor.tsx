@@ -0,0 +1,288 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { CustomWord, CustomWordList } from '../types';
+import { MAX_CUSTOM_LIST_WORDS, MAX_LIST_NAME_LENGTH } from '../constants';
+import {
+  createListId, saveCustomList, deleteCustomList, validateCustomList, cleanCustomWords,
+  importWordList, exportWordListCsv, exportWordListJson,
+} from '../services/customWordLists';
+import { downloadBlob } from '../services/download';
+import CloseIcon from './icons/CloseIcon';
+import TrashIcon from './icons/TrashIcon';
+import DownloadIcon from './icons/DownloadIcon';
+
+interface CustomListEditorProps {
+  /** The list to edit, or null to create a new one. */
+  list: CustomWordList | null;
+  onClose: () => void;
+  onSaved: (list: CustomWordList) => void;
+  onDeleted: (id: string) => void;
+}
+
+// Teacher pictures are stored on the device, so keep them small.
+const MAX_IMAGE_SIZE = 256;
+
+const EMPTY_WORD: CustomWord = { thai: '', english: '' };
+
+const resizeImage = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/jpeg', 0.85));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not read image "${file.name}"`));
+    };
+    image.src = url;
+  });
+
+const CustomListEditor: React.FC<CustomListEditorProps> = ({ list, onClose, onSaved, onDeleted }) => {
+  const [name, setName] = useState(list?.name ?? '');
+  const [words, setWords] = useState<CustomWord[]>(list?.words.length ? list.words : [EMPTY_WORD]);
+  const [hasTriedSaving, setHasTriedSaving] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const issues = useMemo(() => validateCustomList(name, words), [name, words]);
+  const listIssues = issues.filter(issue => issue.index === null);
+  const issuesForRow = (index: number) => issues.filter(issue => issue.index === index);
+
+  const updateWord = (index: number, changes: Partial<CustomWord>) => {
+    setWords(prev => prev.map((word, i) => i === index ? { ...word, ...changes } : word));
+  };
+
+  const removeWord = (index: number) => {
+    setWords(prev => prev.length > 1 ? prev.filter((_, i) => i !== index) : [EMPTY_WORD]);
+  };
+
+  const handleImageChange = async (index: number, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      updateWord(index, { imageUrl: await resizeImage(file) });
+    } catch (error) {
+      console.error("Failed to load custom word image:", error);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError(null);
+    try {
+      const imported = importWordList(file.name, await file.text());
+      if (imported.words.length === 0) {
+        setImportError(`ไม่พบคำศัพท์ในไฟล์ "${file.name}"`);
+        return;
+      }
+      if (!name.trim()) setName(imported.name);
+      setWords(prev => [...cleanCustomWords(prev), ...imported.words]);
+    } catch (error) {
+      console.error("Failed to import word list:", error);
+      setImportError(`อ่านไฟล์ "${file.name}" ไม่ได้ กรุณาใช้ไฟล์ CSV หรือ JSON`);
+    }
+  };
+
+  const buildList = (): CustomWordList => {
+    const now = Date.now();
+    return {
+      id: list?.id ?? createListId(),
+      name: name.trim(),
+      words: cleanCustomWords(words),
+      createdAt: list?.createdAt ?? now,
+      updatedAt: now,
+    };
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const current = buildList();
+    const fileName = current.name || 'word-list';
+    if (format === 'csv') {
+      // The BOM lets spreadsheet apps open the Thai text correctly
+      downloadBlob(new Blob([`\uFEFF${exportWordListCsv(current)}`], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+    } else {
+      downloadBlob(new Blob([exportWordListJson(current)], { type: 'application/json' }), `${fileName}.json`);
+    }
+  };
+
+  const handleSave = async () => {
+    const cleaned = cleanCustomWords(words);
+    setWords(cleaned.length > 0 ? cleaned : [EMPTY_WORD]);
+    setHasTriedSaving(true);
+    if (validateCustomList(name, cleaned).length > 0) return;
+    const saved = buildList();
+    try {
+      await saveCustomList(saved);
+      onSaved(saved);
+    } catch (error) {
+      console.error("Failed to save word list:", error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!list) return;
+    try {
+      await deleteCustomList(list.id);
+      onDeleted(list.id);
+    } catch (error) {
+      console.error("Failed to delete word list:", error);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="custom-list-title"
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl p-6 relative max-h-full overflow-y-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-800" aria-label="Close word list">
+          <CloseIcon />
+        </button>
+
+        <h2 id="custom-list-title" className="text-2xl font-bold text-gray-800 mb-6">
+          {list ? 'แก้ไขรายการคำของครู' : 'สร้างรายการคำของครู'}
+        </h2>
+
+        {isConfirmingDelete ? (
+          <div className="text-center">
+            <p className="text-lg font-semibold text-gray-800">ลบรายการคำ "{list?.name}" ใช่ไหม?</p>
+            <div className="flex gap-3 mt-6">
+              <button onClick={() => setIsConfirmingDelete(false)} className="flex-1 p-3 rounded-lg bg-gray-100 hover:bg-gray-200 font-semibold">
+                ยกเลิก
+              </button>
+              <button onClick={handleDelete} className="flex-1 p-3 rounded-lg bg-red-500 hover:bg-red-600 text-white font-semibold">
+                ลบ
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <fieldset>
+              <legend className="text-lg font-semibold text-gray-700 mb-2">ชื่อรายการ</legend>
+              <input
+                type="text"
+                value={name}
+                maxLength={MAX_LIST_NAME_LENGTH}
+                onChange={e => setName(e.target.value)}
+                placeholder="เช่น คำศัพท์สัปดาห์นี้"
+                className="w-full p-3 bg-gray-100 border-2 border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </fieldset>
+
+            <fieldset>
+              <legend className="text-lg font-semibold text-gray-700 mb-2">
+                คำศัพท์ ({cleanCustomWords(words).length}/{MAX_CUSTOM_LIST_WORDS})
+              </legend>
+              <div className="space-y-2">
+                {words.map((word, index) => {
+                  // Duplicates show straight away; everything else waits for the first save
+                  const rowIssues = issuesForRow(index).filter(issue => hasTriedSaving || issue.isDuplicate);
+                  return (
+                    <div key={index}>
+                      <div className={`flex items-center gap-2 p-2 rounded-lg border-2 ${rowIssues.length > 0 ? 'border-red-300 bg-red-50' : 'border-transparent'}`}>
+                        <span className="w-6 text-sm text-gray-400 text-right">{index + 1}</span>
+                        <input
+                          type="text"
+                          value={word.thai}
+                          onChange={e => updateWord(index, { thai: e.target.value })}
+                          placeholder="ภาษาไทย"
+                          aria-label={`คำที่ ${index + 1} ภาษาไทย`}
+                          className="flex-1 min-w-0 p-2 bg-gray-100 border-2 border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+                        <input
+                          type="text"
+                          value={word.english}
+                          onChange={e => updateWord(index, { english: e.target.value })}
+                          placeholder="English"
+                          aria-label={`คำที่ ${index + 1} ภาษาอังกฤษ`}
+                          className="flex-1 min-w-0 p-2 bg-gray-100 border-2 border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+                        {word.imageUrl ? (
+                          <button onClick={() => updateWord(index, { imageUrl: undefined })} className="relative w-10 h-10 rounded-lg overflow-hidden" aria-label="ลบรูปภาพ" title="ลบรูปภาพ">
+                            <img src={word.imageUrl} alt="" className="w-full h-full object-cover" />
+                          </button>
+                        ) : (
+                          <label className="w-10 h-10 flex items-center justify-center rounded-lg bg-gray-100 hover:bg-gray-200 text-xl cursor-pointer" title="เพิ่มรูปภาพ">
+                            🖼️
+                            <input type="file" accept="image/*" className="hidden" onChange={e => handleImageChange(index, e)} />
+                          </label>
+                        )}
+                        <button onClick={() => removeWord(index)} className="p-2 text-gray-400 hover:text-red-600" aria-label={`ลบคำที่ ${index + 1}`}>
+                          <TrashIcon />
+                        </button>
+                      </div>
+                      {rowIssues.map(issue => (
+                        <p key={issue.message} className="ml-10 text-sm text-red-600">{issue.message}</p>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+              <button
+                onClick={() => setWords(prev => [...prev, EMPTY_WORD])}
+                disabled={words.length >= MAX_CUSTOM_LIST_WORDS}
+                className="mt-3 w-full p-3 rounded-lg border-2 border-dashed border-purple-300 text-purple-700 font-semibold hover:bg-purple-50 disabled:opacity-50"
+              >
+                + เพิ่มคำ
+              </button>
+            </fieldset>
+
+            <fieldset>
+              <legend className="text-lg font-semibold text-gray-700 mb-2">นำเข้า / ส่งออก</legend>
+              <div className="flex flex-wrap gap-2">
+                <button onClick={() => importInputRef.current?.click()} className="flex-1 p-3 rounded-lg bg-gray-100 hover:bg-gray-200 font-semibold">
+                  นำเข้า CSV / JSON
+                </button>
+                <input ref={importInputRef} type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleImport} />
+                <button onClick={() => handleExport('csv')} className="flex items-center justify-center gap-2 flex-1 p-3 rounded-lg bg-gray-100 hover:bg-gray-200 font-semibold">
+                  <DownloadIcon /> CSV
+                </button>
+                <button onClick={() => handleExport('json')} className="flex items-center justify-center gap-2 flex-1 p-3 rounded-lg bg-gray-100 hover:bg-gray-200 font-semibold">
+                  <DownloadIcon /> JSON
+                </button>
+              </div>
+              <p className="mt-2 text-sm text-gray-500">ไฟล์ CSV ใช้คอลัมน์ thai, english และ imageUrl (ไม่บังคับ)</p>
+              {importError && <p className="mt-2 text-sm text-red-600">{importError}</p>}
+            </fieldset>
+
+            {hasTriedSaving && listIssues.map(issue => (
+              <p key={issue.message} className="text-red-600 font-semibold">{issue.message}</p>
+            ))}
+
+            <div className="flex gap-3">
+              {list && (
+                <button onClick={() => setIsConfirmingDelete(true)} className="p-3 rounded-lg bg-red-50 hover:bg-red-100 text-red-600 font-semibold">
+                  ลบรายการ
+                </button>
+              )}
+              <button onClick={onClose} className="flex-1 p-3 rounded-lg bg-gray-100 hover:bg-gray-200 font-semibold">
+                ยกเลิก
+              </button>
+              <button onClick={handleSave} className="flex-1 p-3 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold">
+                บันทึก
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CustomListEditor;
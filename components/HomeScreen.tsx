@@ -1,7 +1,9 @@
 
 import React, { useState, useEffect } from 'react';
-import { StoryTone } from '../types';
+import { StoryTone, ChildProfile } from '../types';
 import { STORY_TONE_THAI } from '../constants';
+import LibraryIcon from './icons/LibraryIcon';
+import BadgeIcon from './icons/BadgeIcon';
 
 // --- SVG Logo Component ---
 const ImagiTaleLogo: React.FC = () => (
@@ -58,6 +60,10 @@ const ImagiTaleLogo: React.FC = () => (
 
 interface HomeScreenProps {
   onStart: () => void;
+  onOpenLibrary: () => void;
+  onOpenQuiz: () => void;
+  activeProfile: ChildProfile | null;
+  onOpenProfiles: () => void;
 }
 
 //--- Parallax Logic ---
@@ -358,7 +364,7 @@ const toneBackgroundMap: Record<StoryTone, React.FC<ParallaxProps>[]> = {
 };
 
 
-const HomeScreen: React.FC<HomeScreenProps> = ({ onStart }) => {
+const HomeScreen: React.FC<HomeScreenProps> = ({ onStart, onOpenLibrary, onOpenQuiz, activeProfile, onOpenProfiles }) => {
   const subtitleStrokeColor = '#86198f'; // Rich Magenta
   const parallaxOffset = useParallax(40); // Adjust strength for desired effect
   const [theme, setTheme] = useState<{ tone: StoryTone; BackgroundComponent: React.FC<ParallaxProps> } | null>(null);
@@ -376,6 +382,17 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onStart }) => {
     <div className="w-full h-full relative overflow-hidden flex flex-col items-center justify-center text-center p-8 gap-8 sm:gap-10">
       {theme && <theme.BackgroundComponent parallaxOffset={parallaxOffset} />}
 
+      {activeProfile && (
+        <button
+          onClick={onOpenProfiles}
+          className="fixed top-4 left-4 z-40 flex items-center gap-2 pl-2 pr-4 py-2 bg-white/80 backdrop-blur-sm rounded-full shadow-lg text-purple-700 font-bold hover:bg-white hover:scale-105 transition-all"
+          aria-label="Switch profile"
+        >
+          <span className="text-2xl">{activeProfile.avatar}</span>
+          <span>{activeProfile.name}</span>
+        </button>
+      )}
+
       <header className="relative z-10 w-full animate-[bounce-in_1s_ease-out]">
         <div className="w-full max-w-lg mx-auto px-4">
           <ImagiTaleLogo />
@@ -390,7 +407,7 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onStart }) => {
         </p>
       </header>
       
-      <footer className="relative z-10 w-full animate-[bounce-in_1s_ease-out_0.1s]">
+      <footer className="relative z-10 w-full flex flex-col items-center gap-4 animate-[bounce-in_1s_ease-out_0.1s]">
         <button
           onClick={onStart}
           className="px-12 py-5 font-['Lilita_One'] text-yellow-200 text-3xl sm:text-4xl rounded-2xl shadow-2xl transform transition-all duration-200 ease-in-out 
@@ -404,6 +421,22 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onStart }) => {
         >
           เริ่มต้น
         </button>
+        <div className="flex flex-wrap items-center justify-center gap-4">
+          <button
+            onClick={onOpenLibrary}
+            className="flex items-center gap-2 px-6 py-3 bg-white/80 backdrop-blur-sm rounded-full shadow-lg text-purple-700 font-bold text-lg hover:bg-white hover:scale-105 transition-all"
+          >
+            <LibraryIcon />
+            ห้องสมุดนิทาน
+          </button>
+          <button
+            onClick={onOpenQuiz}
+            className="flex items-center gap-2 px-6 py-3 bg-white/80 backdrop-blur-sm rounded-full shadow-lg text-purple-700 font-bold text-lg hover:bg-white hover:scale-105 transition-all"
+          >
+            <div className="h-8 w-8 flex items-center justify-center"><BadgeIcon /></div>
+            เกมทายคำ
+          </button>
+        </div>
       </footer>
     </div>
   );
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { ModerationAction, ModerationCategory, ModerationLogEntry } from '../types';
+import { getModerationLog } from '../services/moderationLog';
+
+interface ModerationLogProps {
+  profileId: string;
+}
+
+const CATEGORY_THAI: Record<ModerationCategory, string> = {
+  violence: 'ความรุนแรง',
+  weapons: 'อาวุธ',
+  adult: 'เนื้อหาผู้ใหญ่',
+  substances: 'เหล้า บุหรี่ หรือยาเสพติด',
+  selfHarm: 'การทำร้ายตัวเอง',
+  profanity: 'คำหยาบ',
+  frightening: 'เรื่องน่ากลัว',
+  unsafe: 'ไม่เหมาะกับเด็ก',
+};
+
+const ACTION_THAI: Record<ModerationAction, string> = {
+  redirected: 'ชวนเด็กคิดเรื่องอื่นแทน',
+  regenerated: 'แต่งฉากใหม่',
+  replaced: 'ใช้เนื้อหาสำรองแทน',
+};
+
+const MAX_SHOWN_ENTRIES = 20;
+
+// For parents: what the safety checks stopped for this child, newest first.
+const ModerationLog: React.FC<ModerationLogProps> = ({ profileId }) => {
+  const [entries, setEntries] = useState<ModerationLogEntry[] | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    getModerationLog(profileId)
+      .then(log => { if (isCurrent) setEntries(log); })
+      .catch(error => {
+        console.error("Failed to load the moderation log:", error);
+        if (isCurrent) setEntries([]);
+      });
+    return () => { isCurrent = false; };
+  }, [profileId]);
+
+  return (
+    <fieldset>
+      <legend className="text-lg font-semibold text-gray-700 mb-2">บันทึกความปลอดภัย (สำหรับผู้ปกครอง)</legend>
+      {entries === null ? (
+        <p className="text-sm text-gray-500">กำลังโหลด...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500 bg-gray-100 p-3 rounded-lg">ยังไม่มีเนื้อหาที่ถูกกรองออก</p>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto flex flex-col gap-2">
+          {entries.slice(0, MAX_SHOWN_ENTRIES).map(entry => (
+            <li key={entry.id} className="bg-gray-100 p-3 rounded-lg text-sm">
+              <p className="font-semibold text-gray-700">
+                {entry.direction === 'input' ? 'ไอเดียของเด็ก' : 'เนื้อหาที่ AI แต่ง'} · {CATEGORY_THAI[entry.category]}
+              </p>
+              <p className="text-gray-600 break-words">“{entry.excerpt}”</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {ACTION_THAI[entry.action]} · {new Date(entry.createdAt).toLocaleString('th-TH')}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </fieldset>
+  );
+};
+
+export default ModerationLog;
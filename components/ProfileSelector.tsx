@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { ChildProfile, AgeBand } from '../types';
+import { AGE_BAND_THAI, PROFILE_AVATARS } from '../constants';
+import { DEFAULT_AGE_BAND } from '../apiProtocol';
+import { NewProfile } from '../hooks/useProfiles';
+import CloseIcon from './icons/CloseIcon';
+import TrashIcon from './icons/TrashIcon';
+
+interface ProfileSelectorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profiles: ChildProfile[];
+  activeProfileId: string | null;
+  onSelect: (id: string) => void;
+  onAdd: (profile: NewProfile) => void;
+  onRemove: (id: string) => void;
+  playMenuSound: () => void;
+}
+
+const MAX_NAME_LENGTH = 20;
+
+const ProfileSelector: React.FC<ProfileSelectorProps> = ({
+  isOpen,
+  onClose,
+  profiles,
+  activeProfileId,
+  onSelect,
+  onAdd,
+  onRemove,
+  playMenuSound,
+}) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState(PROFILE_AVATARS[0]);
+  const [ageBand, setAgeBand] = useState<AgeBand>(DEFAULT_AGE_BAND);
+  const [profilePendingDelete, setProfilePendingDelete] = useState<ChildProfile | null>(null);
+
+  if (!isOpen) return null;
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setName('');
+    setAvatar(PROFILE_AVATARS[0]);
+    setAgeBand(DEFAULT_AGE_BAND);
+  };
+
+  const handleSelect = (id: string) => {
+    playMenuSound();
+    onSelect(id);
+    onClose();
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedName = name.trim();
+    if (!trimmedName) return;
+    playMenuSound();
+    onAdd({ name: trimmedName, avatar, ageBand });
+    resetForm();
+    onClose();
+  };
+
+  const handleConfirmDelete = () => {
+    if (!profilePendingDelete) return;
+    onRemove(profilePendingDelete.id);
+    setProfilePendingDelete(null);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 transition-opacity"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="profile-title"
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-6 relative transform transition-all max-h-full overflow-y-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-800"
+          aria-label="Close profiles"
+        >
+          <CloseIcon />
+        </button>
+
+        <h2 id="profile-title" className="text-2xl font-bold text-gray-800 mb-6">ใครกำลังเล่นอยู่?</h2>
+
+        {profilePendingDelete ? (
+          <div className="text-center">
+            <p className="text-lg font-semibold text-gray-800">
+              ลบโปรไฟล์ของ "{profilePendingDelete.name}" และนิทานทั้งหมดใช่ไหม?
+            </p>
+            <div className="flex gap-3 mt-6">
+              <button onClick={() => setProfilePendingDelete(null)} className="flex-1 p-3 rounded-lg bg-gray-100 hover:bg-gray-200 font-semibold">
+                ยกเลิก
+              </button>
+              <button onClick={handleConfirmDelete} className="flex-1 p-3 rounded-lg bg-red-500 hover:bg-red-600 text-white font-semibold">
+                ลบ
+              </button>
+            </div>
+          </div>
+        ) : isAdding ? (
+          <form onSubmit={handleAdd} className="space-y-6">
+            <fieldset>
+              <legend className="text-lg font-semibold text-gray-700 mb-2">ชื่อ</legend>
+              <input
+                type="text"
+                value={name}
+                maxLength={MAX_NAME_LENGTH}
+                onChange={e => setName(e.target.value)}
+                className="w-full p-3 bg-gray-100 border-2 border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                autoFocus
+              />
+            </fieldset>
+
+            <fieldset>
+              <legend className="text-lg font-semibold text-gray-700 mb-2">รูปประจำตัว</legend>
+              <div className="grid grid-cols-5 gap-2">
+                {PROFILE_AVATARS.map(emoji => (
+                  <button
+                    type="button"
+                    key={emoji}
+                    onClick={() => setAvatar(emoji)}
+                    className={`p-2 text-3xl rounded-lg border-2 transition-all ${avatar === emoji ? 'bg-purple-100 border-purple-600' : 'bg-gray-100 border-gray-200 hover:bg-gray-200'}`}
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+
+            <fieldset>
+              <legend className="text-lg font-semibold text-gray-700 mb-2">อายุ</legend>
+              <div className="flex gap-2">
+                {(Object.values(AgeBand)).map(band => (
+                  <button
+                    type="button"
+                    key={band}
+                    onClick={() => setAgeBand(band)}
+                    className={`flex-1 p-3 rounded-lg border-2 transition-all ${ageBand === band ? 'bg-purple-600 text-white border-purple-600 shadow-md' : 'bg-gray-100 hover:bg-gray-200 border-gray-200'}`}
+                  >
+                    {AGE_BAND_THAI[band]}
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+
+            <div className="flex gap-3">
+              <button type="button" onClick={resetForm} className="flex-1 p-3 rounded-lg bg-gray-100 hover:bg-gray-200 font-semibold">
+                ยกเลิก
+              </button>
+              <button type="submit" disabled={!name.trim()} className="flex-1 p-3 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold disabled:opacity-50">
+                เพิ่ม
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-3">
+            {profiles.map(profile => (
+              <div key={profile.id} className="flex items-center gap-2">
+                <button
+                  onClick={() => handleSelect(profile.id)}
+                  className={`flex-1 flex items-center gap-3 p-3 rounded-lg border-2 text-left transition-all ${profile.id === activeProfileId ? 'bg-purple-600 text-white border-purple-600 shadow-md' : 'bg-gray-100 hover:bg-gray-200 border-gray-200'}`}
+                >
+                  <span className="text-3xl">{profile.avatar}</span>
+                  <span className="flex-1">
+                    <span className="block font-semibold">{profile.name}</span>
+                    <span className="block text-sm opacity-80">{AGE_BAND_THAI[profile.ageBand]} · รู้จัก {profile.learnedWords.length} คำ</span>
+                  </span>
+                </button>
+                <button
+                  onClick={() => setProfilePendingDelete(profile)}
+                  className="p-3 text-gray-400 hover:text-red-600"
+                  aria-label={`ลบโปรไฟล์ ${profile.name}`}
+                >
+                  <TrashIcon />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setIsAdding(true)}
+              className="w-full p-3 rounded-lg border-2 border-dashed border-purple-300 text-purple-700 font-semibold hover:bg-purple-50"
+            >
+              + เพิ่มโปรไฟล์ใหม่
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfileSelector;
@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Word, Language } from '../types';
+import { scorePronunciation, recordPronunciationAttempt, PronunciationResult, RecognitionAlternative } from '../services/pronunciation';
+import CloseIcon from './icons/CloseIcon';
+import MicrophoneIcon from './icons/MicrophoneIcon';
+import SpeakerIcon from './icons/SpeakerIcon';
+
+// @ts-ignore
+const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+
+interface PronunciationPracticeProps {
+  word: Word;
+  imageUrl?: string;
+  profileId?: string;
+  language: Language;
+  speak: (text: string) => void;
+  isSpeaking: boolean;
+  onClose: () => void;
+  onResult: (word: Word, stars: number) => void;
+}
+
+// Why listening failed. Not hearing anything isn't a failure: it's scored as a try.
+type ListeningProblem = 'permission' | 'noMicrophone' | 'unavailable';
+
+const problemFor = (error: string): ListeningProblem | null => {
+  switch (error) {
+    case 'aborted':
+      return null;
+    case 'not-allowed':
+    case 'service-not-allowed':
+      return 'permission';
+    case 'audio-capture':
+      return 'noMicrophone';
+    default:
+      return 'unavailable';
+  }
+};
+
+const PROBLEM_MESSAGES: Record<ListeningProblem, Record<Language, string>> = {
+  permission: { [Language.TH]: 'ขอให้ผู้ใหญ่ช่วยอนุญาตให้ใช้ไมโครโฟนก่อนนะ', [Language.EN]: 'Ask a grown-up to allow the microphone, then try again.' },
+  noMicrophone: { [Language.TH]: 'ไม่พบไมโครโฟนในอุปกรณ์นี้', [Language.EN]: "There's no microphone on this device." },
+  unavailable: { [Language.TH]: 'ตอนนี้ยังฟังเสียงไม่ได้ ลองใหม่อีกครั้งนะ', [Language.EN]: "Listening isn't working right now. Try again in a little while." },
+};
+
+const PronunciationPractice: React.FC<PronunciationPracticeProps> = ({ word, imageUrl, profileId, language, speak, isSpeaking, onClose, onResult }) => {
+  const [isListening, setIsListening] = useState(false);
+  const [result, setResult] = useState<PronunciationResult | null>(null);
+  const [problem, setProblem] = useState<ListeningProblem | null>(null);
+  const recognitionRef = useRef(SpeechRecognition ? new SpeechRecognition() : null);
+  const isThai = language === Language.TH;
+
+  // Say the word first so the child knows what to copy
+  useEffect(() => {
+    speak(word.english);
+    const recognition = recognitionRef.current;
+    return () => {
+      if (recognition) {
+        recognition.onresult = null;
+        recognition.onerror = null;
+        recognition.onend = null;
+        recognition.abort();
+      }
+    };
+    // Only on open; `speak` changes identity while audio plays.
+  }, [word]);
+
+  const handleResult = useCallback((alternatives: RecognitionAlternative[]) => {
+    const scored = scorePronunciation(word.english, alternatives, language);
+    setResult(scored);
+    onResult(word, scored.stars);
+    if (profileId) {
+      recordPronunciationAttempt(profileId, word.english, scored).catch(error => console.error("Failed to save pronunciation attempt:", error));
+    }
+  }, [word, language, profileId, onResult]);
+
+  const startListening = () => {
+    const recognition = recognitionRef.current;
+    if (!recognition || isListening || isSpeaking) return;
+
+    setResult(null);
+    setProblem(null);
+    setIsListening(true);
+    recognition.lang = 'en-US';
+    recognition.continuous = false;
+    recognition.interimResults = false;
+    recognition.maxAlternatives = 5;
+
+    // Set when listening fails or is cut off, so it isn't scored as a silent try
+    let hasResult = false;
+    let isFailed = false;
+    recognition.onresult = (event: any) => {
+      hasResult = true;
+      const alternatives: RecognitionAlternative[] = Array.from(event.results[0] as ArrayLike<any>).map(alt => ({
+        transcript: alt.transcript,
+        confidence: alt.confidence,
+      }));
+      handleResult(alternatives);
+    };
+    recognition.onerror = (event: any) => {
+      console.error('Pronunciation speech recognition error:', event.error);
+      setIsListening(false);
+      if (event.error === 'no-speech') return;
+      isFailed = true;
+      setProblem(problemFor(event.error));
+    };
+    recognition.onend = () => {
+      setIsListening(false);
+      if (!hasResult && !isFailed) handleResult([]);
+    };
+    recognition.start();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden relative" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-3 right-3 z-10 p-1 bg-white/80 rounded-full text-gray-500 hover:text-gray-800" aria-label="Close">
+          <CloseIcon />
+        </button>
+        {imageUrl && <img src={imageUrl} alt={word.english} className="w-full h-48 object-cover" />}
+
+        <div className="p-6 flex flex-col items-center gap-4 text-center">
+          <button onClick={() => speak(word.english)} disabled={isSpeaking || isListening} className="flex items-center gap-2 text-3xl font-bold text-purple-700 disabled:opacity-60">
+            {word.english}
+            <SpeakerIcon />
+          </button>
+          <p className="text-gray-500">{word.thai}</p>
+
+          {recognitionRef.current ? (
+            <button
+              onClick={startListening}
+              disabled={isListening || isSpeaking}
+              className={`w-20 h-20 rounded-full flex items-center justify-center transition-all duration-300 ${isListening ? 'bg-red-500 animate-pulse scale-110' : 'bg-blue-500 hover:bg-blue-600'} text-white shadow-lg disabled:bg-gray-400`}
+              aria-label={isThai ? 'พูดตาม' : 'Say it'}
+            >
+              <div className="w-10 h-10"><MicrophoneIcon /></div>
+            </button>
+          ) : (
+            <p className="text-sm text-gray-500">{isThai ? 'อุปกรณ์นี้ไม่รองรับการฟังเสียงพูด' : 'Speech recognition is not available on this device.'}</p>
+          )}
+          <p className="text-lg font-semibold text-blue-600 min-h-[1.75rem]">
+            {isListening ? (isThai ? 'กำลังฟัง...' : 'Listening...') : !result && !problem && (isThai ? 'กดไมค์แล้วพูดตามนะ!' : 'Tap the mic and say it!')}
+          </p>
+          {problem && <p className="text-sm text-red-600" role="alert">{PROBLEM_MESSAGES[problem][language]}</p>}
+
+          {result && (
+            <div className="flex flex-col items-center gap-2">
+              <p className="text-4xl" aria-label={`${result.stars} stars`}>
+                {[1, 2, 3].map(n => <span key={n} className={n <= result.stars ? '' : 'opacity-20 grayscale'}>⭐</span>)}
+              </p>
+              {result.heard && <p className="text-sm text-gray-500">{isThai ? 'ได้ยินว่า' : 'I heard'}: "{result.heard}"</p>}
+              <p className="text-gray-700">{result.hint}</p>
+              {result.stars < 3 && (
+                <button onClick={() => speak(word.english)} disabled={isSpeaking} className="text-purple-600 font-semibold hover:underline">
+                  {isThai ? 'ฟังอีกครั้งแล้วลองใหม่' : 'Listen again and retry'}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PronunciationPractice;
@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import { Language } from '../types';
+import { ReadAlongPosition } from '../hooks/useNarration';
+import { segmentWords } from '../services/readAlong';
+
+interface ReadAlongTextProps {
+  text: string;
+  language: Language;
+  /** What's being read aloud now; its word is highlighted if it's reading this text. */
+  readAlong: ReadAlongPosition | null;
+  /** Called with where a tapped word starts, to read on from there. */
+  onWordTap: (charIndex: number) => void;
+  className?: string;
+}
+
+// The text of a page, karaoke-style: the word being read lights up, and
+// tapping any word reads on from it. The narration may go on past the text
+// (e.g. a question after the scene), so any narration that starts with this
+// text counts.
+const ReadAlongText: React.FC<ReadAlongTextProps> = ({ text, language, readAlong, onWordTap, className }) => {
+  const segments = useMemo(() => segmentWords(text, language), [text, language]);
+  const activeCharIndex = readAlong && readAlong.text.startsWith(text) ? readAlong.charIndex : null;
+
+  return (
+    <p className={className}>
+      {segments.map(segment => segment.isWord ? (
+        <span
+          key={segment.start}
+          role="button"
+          tabIndex={0}
+          onClick={() => onWordTap(segment.start)}
+          onKeyDown={event => { if (event.key === 'Enter' || event.key === ' ') { event.preventDefault(); onWordTap(segment.start); } }}
+          className={`cursor-pointer rounded transition-colors duration-150 ${activeCharIndex !== null && activeCharIndex >= segment.start && activeCharIndex < segment.end ? 'bg-yellow-200 text-purple-800' : 'hover:bg-purple-50'}`}
+        >
+          {segment.text}
+        </span>
+      ) : (
+        <React.Fragment key={segment.start}>{segment.text}</React.Fragment>
+      ))}
+    </p>
+  );
+};
+
+export default ReadAlongText;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { ApiErrorCode } from '../apiProtocol';
+import { Language } from '../types';
+
+interface RetryPanelProps {
+  code: ApiErrorCode;
+  language: Language;
+  onRetry: () => void;
+  /** A smaller version for a single picture tile. */
+  compact?: boolean;
+}
+
+const MESSAGES: Record<ApiErrorCode, { th: string; en: string }> = {
+  quota: { th: 'นักเล่านิทานขอพักเหนื่อยสักครู่นะ', en: 'The storyteller needs a rest.' },
+  upstreamTimeout: { th: 'นักเล่านิทานคิดนานเกินไป', en: 'The storyteller took too long.' },
+  safetyBlock: { th: 'นักเล่านิทานเล่าตอนนี้ไม่ได้', en: "The storyteller couldn't tell this part." },
+  upstreamUnavailable: { th: 'ติดต่อนักเล่านิทานไม่ได้ ลองเช็กอินเทอร์เน็ตดูนะ', en: "Can't reach the storyteller. Check the internet." },
+  validation: { th: 'มีบางอย่างผิดพลาด', en: 'Something went wrong.' },
+  internal: { th: 'มีบางอย่างผิดพลาด', en: 'Something went wrong.' },
+};
+
+// Says what went wrong in words a child (or a parent) can follow, with a
+// button that sends the same request again.
+const RetryPanel: React.FC<RetryPanelProps> = ({ code, language, onRetry, compact = false }) => {
+  const isThai = language === Language.TH;
+  const message = isThai ? MESSAGES[code].th : MESSAGES[code].en;
+  return (
+    <div className={`flex flex-col items-center text-center ${compact ? 'gap-1 p-2' : 'gap-3 p-4'}`} role="alert">
+      <p className={compact ? 'text-xs font-semibold text-gray-700' : 'text-lg font-semibold text-gray-800'}>{message}</p>
+      <button
+        onClick={onRetry}
+        className={`font-bold text-white bg-purple-600 hover:bg-purple-700 rounded-full shadow ${compact ? 'px-3 py-1 text-xs' : 'px-6 py-2'}`}
+      >
+        {isThai ? 'ลองอีกครั้ง' : 'Try again'}
+      </button>
+    </div>
+  );
+};
+
+export default RetryPanel;
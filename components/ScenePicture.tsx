@@ -0,0 +1,34 @@
+import React from 'react';
+import { StoryScene, Language } from '../types';
+
+interface ScenePictureProps {
+  scene: StoryScene | undefined;
+  language: Language;
+  className?: string;
+}
+
+// A scene's picture, a spinner while it's being drawn, or a plain stand-in
+// when it has none, rather than a stock photo that isn't of the scene.
+const ScenePicture: React.FC<ScenePictureProps> = ({ scene, language, className = '' }) => {
+  const isThai = language === Language.TH;
+
+  if (scene?.imageUrl) {
+    return <img src={scene.imageUrl} alt={isThai ? 'ภาพประกอบนิทาน' : 'Story scene'} className={`${className} object-cover`} />;
+  }
+  if (!scene || scene.imageStatus === 'pending') {
+    return (
+      <div className={`${className} flex flex-col items-center justify-center gap-3 bg-black text-white`}>
+        <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-purple-500"></div>
+        {scene && <p className="text-sm">{isThai ? 'กำลังวาดภาพประกอบ...' : 'Drawing the picture...'}</p>}
+      </div>
+    );
+  }
+  return (
+    <div className={`${className} flex flex-col items-center justify-center gap-2 bg-gradient-to-br from-purple-100 to-indigo-200 text-purple-400`}>
+      <span className="text-5xl" aria-hidden="true">📖</span>
+      <p className="text-sm font-semibold">{isThai ? 'ไม่มีภาพประกอบ' : 'No picture'}</p>
+    </div>
+  );
+};
+
+export default ScenePicture;
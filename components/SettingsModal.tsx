@@ -1,7 +1,10 @@
 
 import React from 'react';
 import { Language, StoryTone, AIVoice } from '../types';
-import { STORY_TONE_THAI } from '../constants';
+import { STORY_TONE_THAI, STORY_LENGTHS, STORY_LENGTH_THAI } from '../constants';
+import { getSpeechCacheStats } from '../services/speechCache';
+import { isScenePrefetchAvailable } from '../services/scenePrefetch';
+import ModerationLog from './ModerationLog';
 import CloseIcon from './icons/CloseIcon';
 import AdventureIcon from './icons/AdventureIcon';
 import DreamyIcon from './icons/DreamyIcon';
@@ -17,10 +20,16 @@ interface SettingsModalProps {
   setLanguage: (lang: Language) => void;
   storyTone: StoryTone;
   setStoryTone: (tone: StoryTone) => void;
+  storyLength: number;
+  setStoryLength: (length: number) => void;
   aiVoice: AIVoice;
   setAiVoice: (voice: AIVoice) => void;
   isImageGenerationEnabled: boolean;
   setIsImageGenerationEnabled: (enabled: boolean) => void;
+  isScenePrefetchEnabled: boolean;
+  setIsScenePrefetchEnabled: (enabled: boolean) => void;
+  /** Whose moderation log to show; the log is hidden when no profile is active. */
+  profileId?: string;
   playMenuSound: () => void;
 }
 
@@ -40,14 +49,21 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   setLanguage,
   storyTone,
   setStoryTone,
+  storyLength,
+  setStoryLength,
   aiVoice,
   setAiVoice,
   isImageGenerationEnabled,
   setIsImageGenerationEnabled,
+  isScenePrefetchEnabled,
+  setIsScenePrefetchEnabled,
+  profileId,
   playMenuSound,
 }) => {
   if (!isOpen) return null;
 
+  const speechStats = getSpeechCacheStats();
+
   const handleLanguageChange = (lang: Language) => {
     playMenuSound();
     setLanguage(lang);
@@ -62,12 +78,22 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     playMenuSound();
     setStoryTone(tone);
   };
+
+  const handleLengthChange = (length: number) => {
+    playMenuSound();
+    setStoryLength(length);
+  };
   
   const handleImageToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
     playMenuSound();
     setIsImageGenerationEnabled(e.target.checked);
   };
 
+  const handlePrefetchToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+    playMenuSound();
+    setIsScenePrefetchEnabled(e.target.checked);
+  };
+
   return (
     <div 
       className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 transition-opacity"
@@ -141,6 +167,23 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
             </div>
           </fieldset>
 
+          {/* Story Length Selection */}
+          <fieldset>
+            <legend className="text-lg font-semibold text-gray-700 mb-2">ความยาวของนิทาน</legend>
+            <div className="flex gap-3">
+              {STORY_LENGTHS.map(length => (
+                <button
+                  key={length}
+                  onClick={() => handleLengthChange(length)}
+                  className={`flex-1 flex flex-col items-center p-3 rounded-lg border-2 transition-all ${storyLength === length ? 'bg-purple-600 text-white border-purple-600 shadow-md' : 'bg-gray-100 hover:bg-gray-200 border-gray-200'}`}
+                >
+                  <span className="font-semibold">{STORY_LENGTH_THAI[length]}</span>
+                  <span className="text-sm">{length} ฉาก</span>
+                </button>
+              ))}
+            </div>
+          </fieldset>
+
           {/* AI Image Generation Toggle */}
           <fieldset>
             <legend className="text-lg font-semibold text-gray-700 mb-2">รูปภาพประกอบ</legend>
@@ -163,7 +206,41 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                 การสร้างรูปภาพอาจใช้เวลานานขึ้นเล็กน้อย
             </p>
           </fieldset>
+
+          {/* Scene Prefetch Toggle */}
+          {isScenePrefetchAvailable && (
+            <fieldset>
+              <legend className="text-lg font-semibold text-gray-700 mb-2">ความเร็วของนิทาน</legend>
+              <div className="flex items-center justify-between bg-gray-100 p-3 rounded-lg">
+                <label htmlFor="prefetch-toggle" className="text-gray-600 font-medium">
+                  เตรียมฉากถัดไปล่วงหน้า
+                </label>
+                <label htmlFor="prefetch-toggle" className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    id="prefetch-toggle"
+                    className="sr-only peer"
+                    checked={isScenePrefetchEnabled}
+                    onChange={handlePrefetchToggle}
+                  />
+                  <div className="w-11 h-6 bg-gray-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-purple-600"></div>
+                </label>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                ฉากต่อไปพร้อมทันทีที่เลือก แต่ใช้การสร้างเรื่องมากขึ้น
+              </p>
+            </fieldset>
+          )}
+
+          {/* Moderation Log */}
+          {profileId && <ModerationLog profileId={profileId} />}
         </div>
+
+        {/* Speech Cache Stats */}
+        <p className="text-xs text-gray-400 mt-6 text-center">
+          เสียงที่เล่นซ้ำจากเครื่อง {speechStats.memoryHits + speechStats.diskHits} ครั้ง · สร้างใหม่ {speechStats.misses} ครั้ง
+          {' '}({Math.round(speechStats.hitRate * 100)}%)
+        </p>
       </div>
     </div>
   );
@@ -0,0 +1,267 @@
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { SavedStory, StoryNode, Language } from '../types';
+import { STORY_TONE_THAI } from '../constants';
+import { getAllStories, deleteStory } from '../services/storyLibrary';
+import { getStoryTree, pathTo, pathThrough } from '../services/storyTree';
+import { ReadAlongPosition } from '../hooks/useNarration';
+import StoryMap from './StoryMap';
+import ScenePicture from './ScenePicture';
+import ReadAlongText from './ReadAlongText';
+import SpeakerIcon from './icons/SpeakerIcon';
+import SpeakerOffIcon from './icons/SpeakerOffIcon';
+import TrashIcon from './icons/TrashIcon';
+
+interface StoryLibraryProps {
+  profileId?: string;
+  onBack: () => void;
+  language: Language;
+  speak: (text: string) => void;
+  speakFrom: (text: string, charIndex: number) => void;
+  stopSpeech: () => void;
+  isSpeaking: boolean;
+  readAlong: ReadAlongPosition | null;
+}
+
+const StoryLibrary: React.FC<StoryLibraryProps> = ({ profileId, onBack, language, speak, speakFrom, stopSpeech, isSpeaking, readAlong }) => {
+  const [stories, setStories] = useState<SavedStory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [openStory, setOpenStory] = useState<SavedStory | null>(null);
+  // The branch being read, from the opening scene to one of its endings
+  const [pages, setPages] = useState<StoryNode[]>([]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [isMapOpen, setIsMapOpen] = useState(false);
+  const [storyPendingDelete, setStoryPendingDelete] = useState<SavedStory | null>(null);
+  const lastNarratedPage = useRef<string | null>(null);
+
+  const isThai = language === Language.TH;
+
+  useEffect(() => {
+    // Without a profile there are no saved stories to show
+    if (!profileId) {
+      setStories([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    getAllStories(profileId)
+      .then(setStories)
+      .catch(error => console.error("Failed to load story library:", error))
+      .finally(() => setIsLoading(false));
+  }, [profileId]);
+
+  useEffect(() => stopSpeech, [stopSpeech]);
+
+  const openTree = useMemo(() => openStory ? getStoryTree(openStory) : null, [openStory]);
+  const currentPage = pages[pageIndex];
+  const currentScene = currentPage?.scene;
+
+  // Narrate each page once, as it is turned to
+  useEffect(() => {
+    if (!openStory || !currentPage) return;
+    const pageKey = `${openStory.id}:${currentPage.id}`;
+    if (lastNarratedPage.current === pageKey) return;
+    lastNarratedPage.current = pageKey;
+    speak(currentPage.scene.text);
+  }, [openStory, currentPage, speak]);
+
+  // Opens on the ending the child reached last
+  const handleOpenStory = (story: SavedStory) => {
+    stopSpeech();
+    const { nodes, endingNodeId } = getStoryTree(story);
+    setPages(pathTo(nodes, endingNodeId));
+    setPageIndex(0);
+    setOpenStory(story);
+  };
+
+  // Reads on from the chosen scene along the first branch explored from it
+  const handleSelectScene = (nodeId: string) => {
+    if (!openTree) return;
+    stopSpeech();
+    const branch = pathThrough(openTree.nodes, nodeId);
+    setPages(branch);
+    setPageIndex(branch.findIndex(node => node.id === nodeId));
+    setIsMapOpen(false);
+  };
+
+  const handleCloseStory = () => {
+    stopSpeech();
+    lastNarratedPage.current = null;
+    setIsMapOpen(false);
+    setOpenStory(null);
+  };
+
+  const handleTurnPage = (delta: number) => {
+    if (!openStory) return;
+    stopSpeech();
+    setPageIndex(prev => Math.min(Math.max(prev + delta, 0), pages.length - 1));
+  };
+
+  const handleReplayOrStopAudio = useCallback(() => {
+    if (isSpeaking) stopSpeech();
+    else if (currentScene) speak(currentScene.text);
+  }, [isSpeaking, currentScene, speak, stopSpeech]);
+
+  const handleConfirmDelete = async () => {
+    if (!storyPendingDelete) return;
+    try {
+      await deleteStory(storyPendingDelete.id);
+      setStories(prev => prev.filter(s => s.id !== storyPendingDelete.id));
+    } catch (error) {
+      console.error("Failed to delete story:", error);
+    } finally {
+      setStoryPendingDelete(null);
+    }
+  };
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString(isThai ? 'th-TH' : 'en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+  if (openStory && openTree && currentPage && currentScene) {
+    const isLastPage = pageIndex === pages.length - 1;
+    const hasBranches = openTree.nodes.length > pages.length;
+    return (
+      <div className="w-full h-full flex flex-col bg-gray-100 overflow-y-auto">
+        <header className="w-full p-4 bg-white/80 backdrop-blur-sm shadow-md z-10 sticky top-0">
+          <button onClick={handleCloseStory} className="text-purple-600 font-semibold hover:underline">
+            &larr; {isThai ? 'กลับไปที่ห้องสมุด' : 'Back to Library'}
+          </button>
+          <h2 className="text-2xl font-bold text-center text-gray-800 mt-2">{openStory.title}</h2>
+          <p className="text-center text-sm font-semibold text-gray-600">
+            {isThai ? `หน้า ${pageIndex + 1} / ${pages.length}` : `Page ${pageIndex + 1} / ${pages.length}`}
+          </p>
+          {hasBranches && (
+            <div className="flex justify-center mt-2">
+              <button
+                onClick={() => setIsMapOpen(true)}
+                className="px-3 py-1 text-sm font-semibold text-purple-700 bg-purple-100 rounded-full hover:bg-purple-200"
+              >
+                🗺️ {isThai ? 'แผนที่นิทาน' : 'Story map'}
+              </button>
+            </div>
+          )}
+        </header>
+
+        <main className="flex-1 flex flex-col p-4 gap-4">
+          <div className="w-full aspect-video bg-black rounded-lg overflow-hidden shadow-lg">
+            <ScenePicture scene={currentScene} language={openStory.language} className="w-full h-full" />
+          </div>
+
+          <div className="w-full p-4 sm:p-6 flex flex-col gap-4 bg-white rounded-lg shadow-lg">
+            <div className="min-h-[6rem] relative">
+              <ReadAlongText
+                text={currentScene.text}
+                language={openStory.language}
+                readAlong={readAlong}
+                onWordTap={charIndex => speakFrom(currentScene.text, charIndex)}
+                className="text-lg md:text-xl text-gray-800 leading-relaxed pr-10"
+              />
+              <button
+                onClick={handleReplayOrStopAudio}
+                className="absolute top-0 right-0 p-1 text-gray-500 hover:text-purple-600 transition-colors"
+                aria-label={isSpeaking ? "หยุดเสียง" : "เล่นเสียงซ้ำ"}
+                title={isSpeaking ? "หยุดเสียง" : "เล่นเสียงซ้ำ"}
+              >
+                {isSpeaking ? <SpeakerOffIcon /> : <SpeakerIcon />}
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <button
+                onClick={() => handleTurnPage(-1)}
+                disabled={pageIndex === 0}
+                className="flex-1 px-4 py-3 text-white font-bold rounded-xl shadow-lg bg-gradient-to-br from-purple-500 to-indigo-600 border-b-4 border-purple-700 active:border-b-2 disabled:opacity-50"
+              >
+                {isThai ? 'หน้าก่อน' : 'Previous'}
+              </button>
+              <button
+                onClick={isLastPage ? handleCloseStory : () => handleTurnPage(1)}
+                className="flex-1 px-4 py-3 text-white font-bold rounded-xl shadow-lg bg-gradient-to-br from-green-500 to-teal-500 border-b-4 border-green-700 active:border-b-2"
+              >
+                {isLastPage ? (isThai ? 'จบแล้ว!' : 'The End!') : (isThai ? 'หน้าถัดไป' : 'Next')}
+              </button>
+            </div>
+          </div>
+        </main>
+
+        {isMapOpen && (
+          <StoryMap
+            nodes={openTree.nodes}
+            currentNodeId={currentPage.id}
+            language={language}
+            onSelect={handleSelectScene}
+            onClose={() => setIsMapOpen(false)}
+          />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col bg-gradient-to-br from-purple-600 to-indigo-800 overflow-y-auto">
+      <header className="p-4 bg-white/80 backdrop-blur-sm shadow-md z-10">
+        <button onClick={onBack} className="text-purple-600 font-semibold hover:underline">
+          &larr; {isThai ? 'กลับหน้าหลัก' : 'Back to Home'}
+        </button>
+        <h2 className="text-2xl font-bold text-center text-gray-800 mt-2">
+          {isThai ? 'ห้องสมุดนิทานของฉัน' : 'My Story Library'}
+        </h2>
+      </header>
+
+      <main className="flex-1 p-4">
+        {isLoading ? (
+          <div className="flex justify-center mt-16">
+            <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-yellow-300"></div>
+          </div>
+        ) : stories.length === 0 ? (
+          <p className="text-center text-white text-xl mt-16">
+            {isThai ? 'ยังไม่มีนิทานเลย มาสร้างนิทานเรื่องแรกกันเถอะ!' : 'No stories yet. Let\'s make your first one!'}
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 max-w-5xl mx-auto">
+            {stories.map(story => (
+              <div key={story.id} className="relative bg-white rounded-xl overflow-hidden shadow-lg transform transition-transform hover:scale-105">
+                <button onClick={() => handleOpenStory(story)} className="w-full text-left">
+                  <ScenePicture scene={story.scenes[0]} language={language} className="w-full h-40" />
+                  <div className="p-3">
+                    <p className="font-bold text-lg text-purple-800">{story.title}</p>
+                    <p className="text-sm text-gray-500">
+                      {formatDate(story.createdAt)} · {isThai ? STORY_TONE_THAI[story.storyTone] : story.storyTone}
+                    </p>
+                    <p className="text-sm text-gray-600 mt-1 truncate">{story.words.map(w => isThai ? w.thai : w.english).join(', ')}</p>
+                  </div>
+                </button>
+                <button
+                  onClick={() => setStoryPendingDelete(story)}
+                  className="absolute top-2 right-2 p-2 bg-white/80 rounded-full text-red-500 hover:bg-white hover:text-red-700 shadow"
+                  aria-label={isThai ? 'ลบนิทาน' : 'Delete story'}
+                >
+                  <TrashIcon />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      {storyPendingDelete && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" role="dialog" aria-modal="true">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm p-6 text-center">
+            <p className="text-lg font-semibold text-gray-800">
+              {isThai ? `ลบนิทาน "${storyPendingDelete.title}" ใช่ไหม?` : `Delete "${storyPendingDelete.title}"?`}
+            </p>
+            <div className="flex gap-3 mt-6">
+              <button onClick={() => setStoryPendingDelete(null)} className="flex-1 p-3 rounded-lg bg-gray-100 hover:bg-gray-200 font-semibold">
+                {isThai ? 'ยกเลิก' : 'Cancel'}
+              </button>
+              <button onClick={handleConfirmDelete} className="flex-1 p-3 rounded-lg bg-red-500 hover:bg-red-600 text-white font-semibold">
+                {isThai ? 'ลบ' : 'Delete'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StoryLibrary;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { StoryNode, Language } from '../types';
+import { childrenOf, pathTo } from '../services/storyTree';
+import CloseIcon from './icons/CloseIcon';
+
+interface StoryMapProps {
+  nodes: StoryNode[];
+  currentNodeId: string | null;
+  language: Language;
+  onSelect: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+// Every explored scene as a tree: the path to the current scene is
+// highlighted, and tapping any scene jumps there.
+const StoryMap: React.FC<StoryMapProps> = ({ nodes, currentNodeId, language, onSelect, onClose }) => {
+  const isThai = language === Language.TH;
+  const currentPath = new Set(pathTo(nodes, currentNodeId).map(node => node.id));
+
+  const renderBranch = (node: StoryNode, depth: number): React.ReactNode => {
+    const children = childrenOf(nodes, node.id);
+    const isCurrent = node.id === currentNodeId;
+    return (
+      <li key={node.id} className="flex flex-col items-center gap-2">
+        {node.choice && (
+          <span className="max-w-[8rem] text-xs text-gray-500 text-center line-clamp-2">“{node.choice}”</span>
+        )}
+        <button
+          onClick={() => onSelect(node.id)}
+          className={`w-28 rounded-lg overflow-hidden border-4 shadow transition-transform hover:scale-105 ${isCurrent ? 'border-yellow-400' : currentPath.has(node.id) ? 'border-purple-500' : 'border-gray-200 opacity-80'}`}
+          aria-current={isCurrent ? 'step' : undefined}
+        >
+          {node.scene.imageUrl
+            ? <img src={node.scene.imageUrl} alt="" className="w-full h-16 object-cover" />
+            : <div className="w-full h-16 bg-gray-200" />}
+          <p className="p-1 text-xs font-semibold text-gray-700 bg-white">
+            {isThai ? `ฉากที่ ${depth + 1}` : `Scene ${depth + 1}`}
+          </p>
+        </button>
+        {children.length > 0 && (
+          <ul className="flex gap-4 pt-2 border-t-2 border-dashed border-purple-200">
+            {children.map(child => renderBranch(child, depth + 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="story-map-title"
+    >
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-full flex flex-col p-6 relative" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-800" aria-label="Close">
+          <CloseIcon />
+        </button>
+        <h2 id="story-map-title" className="text-2xl font-bold text-gray-800">{isThai ? 'แผนที่นิทาน' : 'Story Map'}</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          {isThai ? 'แตะฉากไหนก็ได้ เพื่อไปที่ฉากนั้น' : 'Tap any scene to go there.'}
+        </p>
+        <div className="overflow-auto">
+          <ul className="flex justify-center min-w-max pb-2">
+            {childrenOf(nodes, null).map(root => renderBranch(root, 0))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoryMap;
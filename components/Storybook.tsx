@@ -1,46 +1,103 @@
 
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Word, StoryScene, Language, StoryTone } from '../types';
-import { generateInitialStoryScene, generateNextStoryScene, generateFinalStoryScene, generateStoryTitle } from '../services/geminiService';
-import { STORY_FOLLOW_UP_QUESTIONS_TH, STORY_FOLLOW_UP_QUESTIONS_EN } from '../constants';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Word, StoryScene, StoryNode, StoryBible, Language, StoryTone, OfflineStory, AIVoice } from '../types';
+import { ApiErrorCode, ArcBeat, SceneContentResponse, StorySceneRequest } from '../apiProtocol';
+import { ApiRequestError, generateStoryArc, fetchStoryScene, generateStoryTitle, generateSceneImage } from '../services/geminiService';
+import { saveStory, createStoryId } from '../services/storyLibrary';
+import { recordModerationEvents } from '../services/moderationLog';
+import { createScenePrefetcher, isScenePrefetchAvailable, matchChoice } from '../services/scenePrefetch';
+import { childrenOf, pathTo } from '../services/storyTree';
+import { chooseOfflineStory } from '../services/offlineStoryPack';
+import { STORY_FOLLOW_UP_QUESTIONS_TH, STORY_FOLLOW_UP_QUESTIONS_EN, SCENE_PREFETCH_BUDGET } from '../constants';
+import { ReadAlongPosition } from '../hooks/useNarration';
 import MicrophoneIcon from './icons/MicrophoneIcon';
 import StopIcon from './icons/StopIcon';
 import SpeakerIcon from './icons/SpeakerIcon';
 import SpeakerOffIcon from './icons/SpeakerOffIcon';
-import DownloadIcon from './icons/DownloadIcon';
+import StoryMap from './StoryMap';
+import ScenePicture from './ScenePicture';
+import RetryPanel from './RetryPanel';
+import BookDownloads from './BookDownloads';
+import ReadAlongText from './ReadAlongText';
 
 // @ts-ignore
 const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
 
+/** A scene of an offline pack story, as a node of the story tree. */
+const packNode = (story: OfflineStory, sceneId: string, parentId: string | null, choice: string | null, language: Language): StoryNode => {
+  const scene = story.scenes[sceneId];
+  return {
+    id: createStoryId(),
+    parentId,
+    choice,
+    scene: { text: scene.text[language], choices: scene.choices.map(c => c.label[language]), imageUrl: scene.imageUrl, imageStatus: 'ready' },
+  };
+};
+
 interface StorybookProps {
+  profileId?: string;
   words: Word[];
   onComplete: () => void;
   language: Language;
   storyTone: StoryTone;
+  storyLength: number;
+  /** The narration voice, also used for the EPUB's read-aloud audio. */
+  aiVoice: AIVoice;
   isImageGenerationEnabled: boolean;
-  speak: (text: string) => void;
+  isScenePrefetchEnabled: boolean;
+  speak: (text: string, followUp?: string) => void;
+  speakFrom: (text: string, charIndex: number) => void;
   stopSpeech: () => void;
   isSpeaking: boolean;
+  readAlong: ReadAlongPosition | null;
 }
 
-const Storybook: React.FC<StorybookProps> = ({ words, onComplete, language, storyTone, isImageGenerationEnabled, speak, stopSpeech, isSpeaking }) => {
-  const [scenes, setScenes] = useState<StoryScene[]>([]);
-  const [currentSceneIndex, setCurrentSceneIndex] = useState(0);
+const Storybook: React.FC<StorybookProps> = ({ profileId, words, onComplete, language, storyTone, storyLength, aiVoice, isImageGenerationEnabled, isScenePrefetchEnabled, speak, speakFrom, stopSpeech, isSpeaking, readAlong }) => {
+  // Every explored scene; the one on screen is currentNodeId, reached along `path`
+  const [nodes, setNodes] = useState<StoryNode[]>([]);
+  const [currentNodeId, setCurrentNodeId] = useState<string | null>(null);
+  // The ending reached last, which is the path the library shows first
+  const [endingNodeId, setEndingNodeId] = useState<string | null>(null);
+  const [isMapOpen, setIsMapOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isListening, setIsListening] = useState(false);
   const [transcript, setTranscript] = useState('');
+  // Said in place of a scene when the child's idea was turned aside
+  const [redirectMessage, setRedirectMessage] = useState<string | null>(null);
+  // The last scene that couldn't be written, and the choice it was for, so it can be tried again
+  const [sceneError, setSceneError] = useState<{ code: ApiErrorCode; choice: string | null } | null>(null);
   const [isAwaitingFeedback, setIsAwaitingFeedback] = useState(false);
-  const [displayedText, setDisplayedText] = useState('');
   const [storyTitle, setStoryTitle] = useState<string | null>(null);
   const [isGeneratingTitle, setIsGeneratingTitle] = useState(false);
+  const [isStorySaved, setIsStorySaved] = useState(false);
+  const [storyId] = useState(createStoryId);
+  // Fixed when the story starts, so changing the setting mid-story doesn't reshape its arc
+  const [sceneCount] = useState(storyLength);
+  const [arc, setArc] = useState<ArcBeat[] | null>(null);
+  // The cast and look set by the opening scene, shared by every branch, and
+  // the function's signature that lets it be sent back
+  const [bible, setBible] = useState<StoryBible | null>(null);
+  const [bibleToken, setBibleToken] = useState<string | null>(null);
+  // Set when the story comes from the offline pack instead of the storyteller
+  const [packStory, setPackStory] = useState<OfflineStory | null>(null);
 
   const recognitionRef = useRef(SpeechRecognition ? new SpeechRecognition() : null);
+  const path = useMemo(() => pathTo(nodes, currentNodeId), [nodes, currentNodeId]);
+  const scenes = useMemo(() => path.map(node => node.scene), [path]);
+  const currentSceneIndex = scenes.length - 1;
+  const currentScene = scenes[currentSceneIndex];
   const storySoFar = scenes.map(s => s.text).join(' ');
+  const totalScenes = packStory?.sceneCount ?? sceneCount;
+  const isStoryComplete = scenes.length >= totalScenes;
+  const finishedAt = useRef<number | null>(null);
   const feedbackTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isProcessing = useRef(false);
-  const hasSpokenForScene = useRef<Record<number, boolean>>({});
+  const hasSpokenForScene = useRef<Record<string, boolean>>({});
   const isMounted = useRef(true);
+  const prefetcher = useRef(createScenePrefetcher(SCENE_PREFETCH_BUDGET));
+  // The pack scene behind each node of a pack story
+  const packSceneIds = useRef<Record<string, string>>({});
 
   useEffect(() => {
     isMounted.current = true;
@@ -50,10 +107,48 @@ const Storybook: React.FC<StorybookProps> = ({ words, onComplete, language, stor
     };
   }, [stopSpeech]);
 
+  useEffect(() => {
+    const scenePrefetcher = prefetcher.current;
+    return () => scenePrefetcher.cancelAll();
+  }, []);
+
   useEffect(() => {
     const recognition = recognitionRef.current;
     if (recognition) recognition.lang = language;
   }, [language]);
+
+  // Tells a story from the offline pack instead, from its first scene
+  const startPackStory = useCallback(() => {
+    const story = chooseOfflineStory(storyTone);
+    const opening = packNode(story, story.startSceneId, null, null, language);
+    packSceneIds.current = { [opening.id]: story.startSceneId };
+    prefetcher.current.cancelAll();
+    setPackStory(story);
+    setBible(null);
+    setBibleToken(null);
+    setStoryTitle(story.title[language]);
+    setEndingNodeId(null);
+    setNodes([opening]);
+    setCurrentNodeId(opening.id);
+    setSceneError(null);
+    setRedirectMessage(null);
+    setTranscript('');
+    setIsLoading(false);
+  }, [storyTone, language]);
+
+  // Plan the whole arc before the first scene is written. Without a network
+  // there's no storyteller to ask, so the pack tells the story.
+  useEffect(() => {
+    if (!navigator.onLine) return;
+    generateStoryArc(storyTone, words.map(w => w.english), sceneCount).then(beats => {
+      if (isMounted.current) setArc(beats);
+    });
+  }, [storyTone, words, sceneCount]);
+
+  useEffect(() => {
+    if (!navigator.onLine) startPackStory();
+    // Only when the story opens
+  }, []);
   
   const cleanupListeners = useCallback(() => {
     const recognition = recognitionRef.current;
@@ -65,40 +160,158 @@ const Storybook: React.FC<StorybookProps> = ({ words, onComplete, language, stor
     if (feedbackTimeout.current) clearTimeout(feedbackTimeout.current);
   }, []);
 
-  const generateScene = useCallback(async (choice: string | null = null) => {
+  const updateScene = useCallback((nodeId: string, changes: Partial<StoryScene>) => {
+    setNodes(prev => prev.map(node => node.id === nodeId ? { ...node, scene: { ...node.scene, ...changes } } : node));
+  }, []);
+
+  // Pictures arrive after the text and are swapped in when ready. A scene
+  // without one shows a plain stand-in, with a retry button if drawing failed.
+  const loadSceneImage = useCallback(async (nodeId: string, { text, imageToken }: StoryScene, storyBible: StoryBible | null) => {
+    if (!isImageGenerationEnabled || !imageToken) {
+      updateScene(nodeId, { imageUrl: '', imageStatus: 'fallback' });
+      return;
+    }
+    updateScene(nodeId, { imageStatus: 'pending' });
+    const imageUrl = await generateSceneImage(text, imageToken, storyBible);
+    if (!isMounted.current) return;
+    updateScene(nodeId, imageUrl ? { imageUrl, imageStatus: 'ready' } : { imageUrl: '', imageStatus: 'failed' });
+  }, [isImageGenerationEnabled, updateScene]);
+
+  // The request for the scene at `sceneIndex`. Prefetched scenes are keyed by
+  // their request, so a choice only reuses a scene written for it.
+  const sceneRequestFor = useCallback((sceneIndex: number, storyText: string, choice: string | null): StorySceneRequest => {
+    const beat = arc?.[sceneIndex];
+    const base = {
+      language,
+      storyTone,
+      words: words.map(w => w.english),
+      arc: beat && { ...beat, sceneNumber: sceneIndex + 1, sceneCount },
+      bible: bible ?? undefined,
+      bibleToken: bibleToken ?? undefined,
+    };
+    if (sceneIndex === 0) return { sceneType: 'initial', ...base };
+    return { sceneType: sceneIndex < sceneCount - 1 ? 'next' : 'final', ...base, storySoFar: storyText, userChoice: choice || '' };
+  }, [words, language, storyTone, sceneCount, arc, bible, bibleToken]);
+
+  // Jumps to any explored scene, e.g. to rewind and take the other branch.
+  // Scenes prefetched for where the child was are of no more use.
+  const goToNode = useCallback((nodeId: string) => {
+    prefetcher.current.cancelAll();
     stopSpeech();
+    setTranscript('');
+    setRedirectMessage(null);
+    setSceneError(null);
+    setIsAwaitingFeedback(false);
+    setIsMapOpen(false);
+    setCurrentNodeId(nodeId);
+  }, [stopSpeech]);
+
+  const generateScene = useCallback(async (spokenChoice: string | null = null) => {
+    stopSpeech();
+    // A spoken answer that names an offered choice counts as that choice
+    const choice = spokenChoice && (matchChoice(spokenChoice, currentScene?.choices ?? []) ?? spokenChoice);
+    // A branch explored before is revisited rather than written again
+    const explored = choice && childrenOf(nodes, currentNodeId).find(node => node.choice === choice);
+    if (explored) {
+      goToNode(explored.id);
+      return;
+    }
+    if (packStory) {
+      // A pack story only has the scenes it was written with
+      const option = currentNodeId && packStory.scenes[packSceneIds.current[currentNodeId]]?.choices.find(c => c.label[language] === choice);
+      if (!option) {
+        const message = language === Language.TH ? 'ลองเลือกทางใดทางหนึ่งจากปุ่มด้านบนนะ' : 'Try picking one of the choices above!';
+        setTranscript('');
+        setRedirectMessage(message);
+        speak(message);
+        return;
+      }
+      const node = packNode(packStory, option.next, currentNodeId, choice, language);
+      packSceneIds.current[node.id] = option.next;
+      setRedirectMessage(null);
+      setNodes(prev => [...prev, node]);
+      setCurrentNodeId(node.id);
+      return;
+    }
     setIsLoading(true);
     setIsAwaitingFeedback(false);
-    let newScene: StoryScene;
-    const wordStrings = words.map(w => w.english);
-    
-    if (scenes.length === 0) {
-      newScene = await generateInitialStoryScene(wordStrings, language, storyTone, isImageGenerationEnabled);
-    } else if (scenes.length < 4) {
-      newScene = await generateNextStoryScene(storySoFar, choice || '', language, storyTone, wordStrings, isImageGenerationEnabled);
-    } else {
-      newScene = await generateFinalStoryScene(storySoFar, language, storyTone, wordStrings, isImageGenerationEnabled);
+    setRedirectMessage(null);
+    setSceneError(null);
+
+    const request = sceneRequestFor(scenes.length, storySoFar, choice);
+    const prefetched = prefetcher.current.take(JSON.stringify(request));
+    let response: SceneContentResponse;
+    try {
+        response = (prefetched && await prefetched.catch(() => null)) || await fetchStoryScene(request);
+    } catch (error) {
+        if (isMounted.current) {
+            setSceneError({ code: error instanceof ApiRequestError ? error.code : 'internal', choice });
+            setIsLoading(false);
+        }
+        return;
+    }
+    const { bible: openingBible, bibleToken: openingBibleToken, redirected, moderation, ...content } = response;
+    // The picture must follow the sheet the scene was written with, which its token signs
+    const storyBible = openingBible ?? request.bible ?? null;
+    recordModerationEvents(profileId, moderation).catch(error => console.error("Failed to record moderation events:", error));
+
+    if (redirected) {
+        // The idea was turned aside: stay on this scene and ask for another one
+        if (isMounted.current) {
+            setTranscript('');
+            setRedirectMessage(content.text);
+            setIsLoading(false);
+            speak(content.text);
+        }
+        return;
     }
 
     if (isMounted.current) {
-        setScenes(prev => [...prev, newScene]);
-        if(scenes.length > 0) setCurrentSceneIndex(prev => prev + 1);
+        const node: StoryNode = { id: createStoryId(), parentId: currentNodeId, choice, scene: { ...content, imageUrl: '', imageStatus: 'pending' } };
+        if (openingBible) {
+            setBible(openingBible);
+            setBibleToken(openingBibleToken ?? null);
+        }
+        setNodes(prev => [...prev, node]);
+        setCurrentNodeId(node.id);
         setIsLoading(false);
+        loadSceneImage(node.id, node.scene, storyBible);
     }
-  }, [words, scenes, storySoFar, language, storyTone, isImageGenerationEnabled, stopSpeech]);
+  }, [profileId, nodes, currentNodeId, currentScene, scenes.length, storySoFar, bible, packStory, language, sceneRequestFor, speak, stopSpeech, goToNode, loadSceneImage]);
   
   useEffect(() => {
-    if (scenes.length === 0) generateScene();
+    if (arc && nodes.length === 0) generateScene();
     return cleanupListeners;
-  }, [generateScene, cleanupListeners]);
+  }, [arc, generateScene, cleanupListeners]);
+
+  // The scene behind each unexplored choice, to write while the current scene is being read
+  const prefetchRequests = useMemo(() => {
+    if (!isScenePrefetchAvailable || !isScenePrefetchEnabled || packStory || isLoading || !currentScene) return [];
+    const explored = new Set(childrenOf(nodes, currentNodeId).map(node => node.choice));
+    return currentScene.choices
+      .filter(choice => !explored.has(choice))
+      .map(choice => sceneRequestFor(scenes.length, storySoFar, choice));
+  }, [isScenePrefetchEnabled, packStory, isLoading, currentScene, nodes, currentNodeId, sceneRequestFor, scenes.length, storySoFar]);
+
+  // Requests already under way are keyed the same, so a pass that changes
+  // nothing (e.g. a picture arriving) starts nothing new.
+  useEffect(() => {
+    for (const request of prefetchRequests) prefetcher.current.prefetch(JSON.stringify(request), request);
+  }, [prefetchRequests]);
+
+  // Remember the latest ending, so the saved story opens on it
+  useEffect(() => {
+    if (isStoryComplete && currentNodeId && !currentScene?.choices.length) setEndingNodeId(currentNodeId);
+  }, [isStoryComplete, currentNodeId, currentScene]);
   
   // Effect to generate story title when story is complete
   useEffect(() => {
-    if (scenes.length >= 5 && !storyTitle && !isGeneratingTitle) {
+    if (isStoryComplete && !storyTitle && !isGeneratingTitle) {
       const fetchTitle = async () => {
         setIsGeneratingTitle(true);
         const fullStory = scenes.map(s => s.text).join(' ');
-        const title = await generateStoryTitle(fullStory, language);
+        const { title, moderation } = await generateStoryTitle(fullStory, language);
+        recordModerationEvents(profileId, moderation).catch(error => console.error("Failed to record moderation events:", error));
         if (isMounted.current) {
           setStoryTitle(title);
           setIsGeneratingTitle(false);
@@ -106,9 +319,34 @@ const Storybook: React.FC<StorybookProps> = ({ words, onComplete, language, stor
       };
       fetchTitle();
     }
-  }, [scenes, language, storyTitle, isGeneratingTitle]);
+  }, [profileId, scenes, isStoryComplete, language, storyTitle, isGeneratingTitle]);
 
-  const currentScene = scenes[currentSceneIndex];
+  // Save the story to the library once it has a title and every picture has
+  // settled, and again whenever more branches are explored
+  useEffect(() => {
+    if (!storyTitle || !endingNodeId || nodes.some(node => node.scene.imageStatus === 'pending')) return;
+    const endingPath = pathTo(nodes, endingNodeId);
+    finishedAt.current ??= Date.now();
+    saveStory({
+      id: storyId,
+      profileId,
+      title: storyTitle,
+      scenes: endingPath.map(node => node.scene),
+      words: packStory?.words ?? words,
+      storyTone,
+      language,
+      choicesTaken: endingPath.slice(1).map(node => node.choice ?? ''),
+      nodes,
+      endingNodeId,
+      bible: bible ?? undefined,
+      createdAt: finishedAt.current,
+    })
+      .then(() => { if (isMounted.current) setIsStorySaved(true); })
+      .catch(error => console.error("Failed to save story to library:", error));
+  }, [storyTitle, endingNodeId, nodes, bible, packStory, storyId, profileId, words, storyTone, language]);
+  // Narration follows the text alone, so a picture arriving doesn't restart it
+  const currentText = currentScene?.text;
+  const currentChoices = currentScene?.choices;
 
   const processSpeech = useCallback((finalTranscript: string) => {
     if (!finalTranscript) return;
@@ -120,37 +358,23 @@ const Storybook: React.FC<StorybookProps> = ({ words, onComplete, language, stor
   useEffect(() => { processSpeechRef.current = processSpeech; }, [processSpeech]);
 
   useEffect(() => {
-    if (currentScene && !isLoading) {
-      setDisplayedText('');
-      const textToDisplay = currentScene.text || '';
-      if (!textToDisplay) return;
+    if (!currentText || isLoading || !currentNodeId || hasSpokenForScene.current[currentNodeId]) return;
+    hasSpokenForScene.current[currentNodeId] = true;
 
-      if (!hasSpokenForScene.current[currentSceneIndex]) {
-        hasSpokenForScene.current[currentSceneIndex] = true;
-        
-        let fullTextToSpeak = textToDisplay;
-        if (currentScene.choices?.length) {
-            const questions = language === Language.TH ? STORY_FOLLOW_UP_QUESTIONS_TH : STORY_FOLLOW_UP_QUESTIONS_EN;
-            const questionText = questions[Math.floor(Math.random() * questions.length)];
-            fullTextToSpeak += ` ${questionText}`;
-        }
-        speak(fullTextToSpeak);
-      }
-
-      let i = 0;
-      const textSpeed = 40; // Faster typing for better UX with real audio
-      const intervalId = setInterval(() => {
-        if (i < textToDisplay.length) {
-          setDisplayedText(textToDisplay.substring(0, i + 1));
-          i++;
-        } else {
-          clearInterval(intervalId);
-        }
-      }, textSpeed);
-
-      return () => clearInterval(intervalId);
+    // The question is read as a line of its own, so the scene's narration is
+    // cached under its text alone and replays, the library and exports find it
+    let questionText: string | undefined;
+    if (currentChoices?.length) {
+        const questions = language === Language.TH ? STORY_FOLLOW_UP_QUESTIONS_TH : STORY_FOLLOW_UP_QUESTIONS_EN;
+        questionText = questions[Math.floor(Math.random() * questions.length)];
     }
-  }, [currentScene, isLoading, currentSceneIndex, language, speak]);
+    speak(currentText, questionText);
+  }, [currentText, currentChoices, isLoading, currentNodeId, language, speak]);
+
+  // Reads the scene again from a tapped word, but not into an open microphone
+  const handleWordTap = (charIndex: number) => {
+    if (currentScene && !isListening && !isAwaitingFeedback) speakFrom(currentScene.text, charIndex);
+  };
 
   const handleSpeakChoice = (choiceText: string) => {
     speak(choiceText);
@@ -159,10 +383,10 @@ const Storybook: React.FC<StorybookProps> = ({ words, onComplete, language, stor
   const handleReplayOrStopAudio = useCallback(() => {
     if (isSpeaking) {
       stopSpeech();
-    } else if (currentScene?.text && displayedText.length >= currentScene.text.length) {
+    } else if (currentScene?.text) {
       speak(currentScene.text);
     }
-  }, [isSpeaking, currentScene, displayedText, speak, stopSpeech]);
+  }, [isSpeaking, currentScene, speak, stopSpeech]);
   
   const stopListening = useCallback(() => {
     const recognition = recognitionRef.current;
@@ -177,6 +401,7 @@ const Storybook: React.FC<StorybookProps> = ({ words, onComplete, language, stor
     cleanupListeners();
     isProcessing.current = false;
     setTranscript('');
+    setRedirectMessage(null);
     setIsListening(true);
     
     recognition.continuous = true;
@@ -215,64 +440,24 @@ const Storybook: React.FC<StorybookProps> = ({ words, onComplete, language, stor
     };
   };
 
-  const handleDownload = () => {
-    if (!storyTitle || scenes.length < 5) return;
-
-    const storyHtml = `
-      <html>
-        <head>
-          <title>${storyTitle}</title>
-          <style>
-            body { font-family: 'Open Sans', sans-serif; margin: 0; }
-            @media print {
-              .page { page-break-after: always; }
-              @page { size: A4 landscape; margin: 1in; }
-            }
-            .page {
-              width: 100%;
-              height: 100vh;
-              display: flex;
-              flex-direction: column;
-              align-items: center;
-              justify-content: center;
-              padding: 40px;
-              box-sizing: border-box;
-            }
-            .title-page h1 { font-size: 3em; text-align: center; }
-            .title-page img { max-width: 60%; margin-top: 20px; border-radius: 15px; }
-            .story-page img { max-width: 90%; max-height: 55vh; object-fit: contain; border-radius: 15px; box-shadow: 0 4px 12px rgba(0,0,0,0.15); }
-            .story-page p { text-align: center; margin-top: 25px; font-size: 1.5em; max-width: 80%; line-height: 1.6; }
-          </style>
-        </head>
-        <body>
-          <div class="page title-page">
-            <h1>${storyTitle}</h1>
-            <img src="${scenes[0].imageUrl}" alt="Cover Image">
-          </div>
-          ${scenes.map((scene, index) => `
-            <div class="page story-page">
-              <img src="${scene.imageUrl}" alt="Scene ${index + 1}">
-              <p>${scene.text}</p>
+  if (sceneError && nodes.length === 0) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center bg-purple-900 p-8">
+        <div className="bg-white rounded-2xl shadow-lg">
+          <RetryPanel code={sceneError.code} language={language} onRetry={() => generateScene()} />
+          {sceneError.code === 'upstreamUnavailable' && (
+            <div className="flex justify-center px-4 pb-4">
+              <button onClick={startPackStory} className="font-semibold text-purple-700 hover:underline">
+                📦 {language === Language.TH ? 'เล่านิทานในเครื่องแทน' : 'Tell a story saved on this device'}
+              </button>
             </div>
-          `).join('')}
-        </body>
-      </html>
-    `;
-
-    const printWindow = window.open('', '_blank');
-    if (printWindow) {
-      printWindow.document.open();
-      printWindow.document.write(storyHtml);
-      printWindow.document.close();
-      printWindow.onload = () => {
-        printWindow.focus();
-        printWindow.print();
-      };
-    }
-  };
-
+          )}
+        </div>
+      </div>
+    );
+  }
 
-  if (isLoading && scenes.length === 0) {
+  if (isLoading && nodes.length === 0) {
     return (
       <div className="w-full h-full flex flex-col items-center justify-center bg-purple-900 text-white p-8">
         <div className="animate-spin rounded-full h-32 w-32 border-t-2 border-b-2 border-yellow-300"></div>
@@ -283,25 +468,55 @@ const Storybook: React.FC<StorybookProps> = ({ words, onComplete, language, stor
   }
   
   const areButtonsDisabled = isLoading || isAwaitingFeedback;
+  const exploredBranches = childrenOf(nodes, currentNodeId);
 
   return (
     <div className="w-full h-full flex flex-col bg-gray-100 overflow-y-auto">
       <div className="w-full p-4 bg-white/80 backdrop-blur-sm shadow-md z-10 sticky top-0">
-        <p className="text-center text-sm font-semibold text-gray-600 mb-1">ฉากที่ {currentSceneIndex + 1} / 5</p>
+        <p className="text-center text-sm font-semibold text-gray-600 mb-1">
+          ฉากที่ {currentSceneIndex + 1} / {totalScenes}
+          {packStory && (
+            <span className="ml-2 px-2 py-0.5 text-xs text-purple-700 bg-purple-100 rounded-full">
+              📦 {language === Language.TH ? 'นิทานในเครื่อง' : 'Offline story'}
+            </span>
+          )}
+        </p>
         <div className="w-full bg-gray-200 rounded-full h-4">
           <div 
             className="bg-gradient-to-r from-yellow-400 to-orange-500 h-4 rounded-full transition-all duration-700 ease-out" 
-            style={{ width: `${((currentSceneIndex + 1) / 5) * 100}%` }}
+            style={{ width: `${((currentSceneIndex + 1) / totalScenes) * 100}%` }}
           ></div>
         </div>
+        {nodes.length > 1 && (
+          <div className="flex gap-2 mt-2">
+            <button
+              onClick={() => path.length > 1 && goToNode(path[path.length - 2].id)}
+              disabled={isLoading || path.length < 2}
+              className="px-3 py-1 text-sm font-semibold text-purple-700 bg-purple-100 rounded-full hover:bg-purple-200 disabled:opacity-50"
+            >
+              ↩ {language === Language.TH ? 'ฉากก่อนหน้า' : 'Previous scene'}
+            </button>
+            <button
+              onClick={() => setIsMapOpen(true)}
+              disabled={isLoading}
+              className="px-3 py-1 text-sm font-semibold text-purple-700 bg-purple-100 rounded-full hover:bg-purple-200 disabled:opacity-50"
+            >
+              🗺️ {language === Language.TH ? 'แผนที่นิทาน' : 'Story map'}
+            </button>
+          </div>
+        )}
       </div>
       
       <main className="flex-1 flex flex-col p-4 gap-4">
-        <div className="w-full aspect-video bg-black rounded-lg overflow-hidden shadow-lg flex items-center justify-center">
-          {isLoading && !currentScene?.imageUrl ? (
-             <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-purple-500"></div>
-          ) : (
-            currentScene && <img src={currentScene.imageUrl} alt="Story scene" className="w-full h-full object-cover"/>
+        <div className="relative w-full aspect-video bg-black rounded-lg overflow-hidden shadow-lg">
+          <ScenePicture scene={currentScene} language={language} className="w-full h-full" />
+          {currentScene?.imageStatus === 'failed' && (
+            <button
+              onClick={() => currentNodeId && loadSceneImage(currentNodeId, currentScene, bible)}
+              className="absolute bottom-3 right-3 px-3 py-1 bg-white/90 text-purple-700 text-sm font-semibold rounded-full shadow"
+            >
+              {language === Language.TH ? 'วาดภาพใหม่' : 'Try the picture again'}
+            </button>
           )}
         </div>
         
@@ -309,12 +524,13 @@ const Storybook: React.FC<StorybookProps> = ({ words, onComplete, language, stor
           <div className="min-h-[6rem] relative">
             {currentScene ? (
               <>
-                <p className="text-lg md:text-xl text-gray-800 leading-relaxed pr-10">
-                  {displayedText}
-                  {displayedText.length < (currentScene.text?.length ?? 0) && (
-                      <span className="inline-block w-1 h-6 bg-gray-700 ml-1 animate-pulse align-bottom"></span>
-                  )}
-                </p>
+                <ReadAlongText
+                  text={currentScene.text}
+                  language={language}
+                  readAlong={readAlong}
+                  onWordTap={handleWordTap}
+                  className="text-lg md:text-xl text-gray-800 leading-relaxed pr-10"
+                />
                  <button
                     onClick={handleReplayOrStopAudio}
                     disabled={isLoading || !currentScene?.text}
@@ -338,23 +554,50 @@ const Storybook: React.FC<StorybookProps> = ({ words, onComplete, language, stor
                   </div>
               ) : (
                 <div className="flex flex-col items-center gap-3">
+                  {sceneError && (
+                    <RetryPanel code={sceneError.code} language={language} onRetry={() => generateScene(sceneError.choice)} />
+                  )}
+                  {sceneError?.code === 'upstreamUnavailable' && (
+                    <button onClick={startPackStory} className="font-semibold text-purple-700 hover:underline">
+                      📦 {language === Language.TH ? 'เริ่มนิทานในเครื่องแทน' : 'Start a story saved on this device'}
+                    </button>
+                  )}
                   {currentScene?.choices && currentScene.choices.length > 0 && (
                     <div className="w-full flex flex-col items-center gap-3">
-                      {currentScene.choices.map((choice, index) => (
-                        <button
-                          key={index}
-                          onClick={() => handleSpeakChoice(choice)}
-                          disabled={areButtonsDisabled || isListening || isSpeaking}
-                          className="w-full px-4 py-3 text-white font-bold text-base rounded-xl shadow-lg transform hover:scale-105 transition-all duration-300 ease-in-out bg-gradient-to-br from-purple-500 to-indigo-600 hover:from-purple-600 hover:to-indigo-700 border-b-4 border-purple-700 active:border-b-2 disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                          {choice}
-                        </button>
-                      ))}
+                      {currentScene.choices.map((choice, index) => {
+                        const explored = exploredBranches.find(node => node.choice === choice);
+                        return (
+                          <div key={index} className="w-full flex items-center gap-2">
+                            <button
+                              onClick={() => handleSpeakChoice(choice)}
+                              disabled={areButtonsDisabled || isListening || isSpeaking}
+                              className="flex-1 px-4 py-3 text-white font-bold text-base rounded-xl shadow-lg transform hover:scale-105 transition-all duration-300 ease-in-out bg-gradient-to-br from-purple-500 to-indigo-600 hover:from-purple-600 hover:to-indigo-700 border-b-4 border-purple-700 active:border-b-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {choice}
+                            </button>
+                            {explored && (
+                              <button
+                                onClick={() => goToNode(explored.id)}
+                                disabled={areButtonsDisabled || isListening}
+                                className="px-3 py-2 text-sm font-semibold text-purple-700 bg-purple-100 rounded-xl hover:bg-purple-200 disabled:opacity-50"
+                                title={language === Language.TH ? 'เคยเลือกทางนี้แล้ว' : 'You went this way before'}
+                              >
+                                {language === Language.TH ? 'ไปอีกครั้ง' : 'Go again'} ↪
+                              </button>
+                            )}
+                          </div>
+                        );
+                      })}
                     </div>
                   )}
 
                   {currentScene?.choices && currentScene.choices.length > 0 && recognitionRef.current && (
                       <div className="w-full flex flex-col items-center gap-1 mt-3">
+                          {redirectMessage && !transcript && (
+                            <p className="w-full px-4 py-2 text-center font-semibold text-amber-800 bg-amber-100 rounded-xl" role="status">
+                              {redirectMessage}
+                            </p>
+                          )}
                           <button onClick={isListening ? stopListening : startListening} disabled={areButtonsDisabled || isSpeaking} className={`w-16 h-16 rounded-full flex items-center justify-center transition-all duration-300 ${isListening ? 'bg-red-500 animate-pulse scale-110' : 'bg-blue-500 hover:bg-blue-600'} text-white shadow-lg disabled:bg-gray-400`}>
                               <div className="w-8 h-8">
                                 {isListening ? <StopIcon /> : <MicrophoneIcon />}
@@ -366,22 +609,48 @@ const Storybook: React.FC<StorybookProps> = ({ words, onComplete, language, stor
                       </div>
                   )}
                   
-                  {scenes.length >= 5 && (!currentScene?.choices || currentScene.choices.length === 0) && (
+                  {isStoryComplete && (!currentScene?.choices || currentScene.choices.length === 0) && (
+                    <>
+                    {isStorySaved && (
+                      <p className="text-sm font-semibold text-green-600">
+                        {language === Language.TH ? 'เก็บนิทานไว้ในห้องสมุดแล้ว!' : 'Saved to your library!'}
+                      </p>
+                    )}
                     <div className="w-full flex flex-col sm:flex-row items-center justify-center gap-4 mt-2">
                       <button onClick={onComplete} disabled={areButtonsDisabled || isListening} className="w-full sm:w-auto px-8 py-4 text-white font-bold text-xl rounded-xl shadow-lg transform hover:scale-105 transition-all duration-300 ease-in-out bg-gradient-to-br from-green-500 to-teal-500 hover:from-green-600 hover:to-teal-600 border-b-4 border-green-700 active:border-b-2 disabled:opacity-50">
                         เล่นอีกครั้ง!
                       </button>
-                      <button onClick={handleDownload} disabled={areButtonsDisabled || isGeneratingTitle || !storyTitle} className="w-full sm:w-auto flex items-center justify-center gap-3 px-8 py-4 text-white font-bold text-xl rounded-xl shadow-lg transform hover:scale-105 transition-all duration-300 ease-in-out bg-gradient-to-br from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 border-b-4 border-blue-700 active:border-b-2 disabled:opacity-50">
-                        <DownloadIcon />
-                        <span>{isGeneratingTitle ? 'กำลังตั้งชื่อเรื่อง...' : 'บันทึกนิทาน'}</span>
-                      </button>
                     </div>
+                    {storyTitle ? (
+                      <BookDownloads
+                        story={{ id: storyId, title: storyTitle, scenes, language, storyTone: packStory?.storyTone ?? storyTone }}
+                        language={language}
+                        aiVoice={aiVoice}
+                        disabled={areButtonsDisabled || isListening}
+                      />
+                    ) : isGeneratingTitle && (
+                      <p className="text-purple-700 font-semibold">กำลังตั้งชื่อเรื่อง...</p>
+                    )}
+                    <button onClick={() => setIsMapOpen(true)} disabled={areButtonsDisabled || isListening} className="text-purple-700 font-semibold hover:underline disabled:opacity-50">
+                      🗺️ {language === Language.TH ? 'ลองย้อนกลับไปเลือกทางอื่นดูไหม?' : 'What if you picked the other way?'}
+                    </button>
+                    </>
                   )}
                 </div>
               )}
           </div>
         </div>
       </main>
+
+      {isMapOpen && (
+        <StoryMap
+          nodes={nodes}
+          currentNodeId={currentNodeId}
+          language={language}
+          onSelect={goToNode}
+          onClose={() => setIsMapOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { Language } from '../types';
+import { onStorytellerResting } from '../services/geminiService';
+import CloseIcon from './icons/CloseIcon';
+
+interface StorytellerRestNoticeProps {
+  language: Language;
+}
+
+// Shown whenever the server's rate limit or daily budget is reached, and
+// hidden again once the wait it asked for is over.
+const StorytellerRestNotice: React.FC<StorytellerRestNoticeProps> = ({ language }) => {
+  const [restingUntil, setRestingUntil] = useState<number | null>(null);
+
+  useEffect(() => onStorytellerResting(retryAfterSeconds => {
+    setRestingUntil(until => Math.max(until ?? 0, Date.now() + retryAfterSeconds * 1000));
+  }), []);
+
+  useEffect(() => {
+    if (restingUntil === null) return;
+    const timeout = setTimeout(() => setRestingUntil(null), Math.max(0, restingUntil - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [restingUntil]);
+
+  if (restingUntil === null) return null;
+
+  const minutes = Math.max(1, Math.ceil((restingUntil - Date.now()) / 60_000));
+  const isThai = language === Language.TH;
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 w-[90%] max-w-md flex items-center gap-3 px-5 py-3 bg-amber-100 border-2 border-amber-300 rounded-2xl shadow-lg" role="status">
+      <span className="text-3xl" aria-hidden="true">😴</span>
+      <div>
+        <p className="font-bold text-amber-900">
+          {isThai ? 'นักเล่านิทานขอพักเหนื่อยสักครู่นะ' : 'The storyteller needs a rest'}
+        </p>
+        <p className="text-sm text-amber-800">
+          {isThai ? `กลับมาเล่ากันต่อในอีกประมาณ ${minutes} นาที` : `Come back in about ${minutes} minute${minutes === 1 ? '' : 's'}.`}
+        </p>
+      </div>
+      <button onClick={() => setRestingUntil(null)} className="ml-auto text-amber-700 hover:text-amber-900" aria-label={isThai ? 'ปิด' : 'Close'}>
+        <CloseIcon />
+      </button>
+    </div>
+  );
+};
+
+export default StorytellerRestNotice;
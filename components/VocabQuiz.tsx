@@ -0,0 +1,229 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ChildProfile, Language, QuizQuestion, QuizQuestionType, Word } from '../types';
+import { VOCABULARY, QUIZ_OPTION_COUNT } from '../constants';
+import { buildQuiz, isCorrectAnswer } from '../services/quiz';
+import { ApiErrorCode } from '../apiProtocol';
+import { ApiRequestError, fetchVocabImage } from '../services/geminiService';
+import { offlineVocabImageUrl } from '../services/offlineStoryPack';
+import { getAllStories } from '../services/storyLibrary';
+import { recordRecall } from '../services/wordProgress';
+import RetryPanel from './RetryPanel';
+import SpeakerIcon from './icons/SpeakerIcon';
+
+interface VocabQuizProps {
+  profile: ChildProfile | null;
+  language: Language;
+  speak: (text: string) => void;
+  onBack: () => void;
+}
+
+const ALL_WORDS: Word[] = Object.values(VOCABULARY).flat();
+
+const VocabQuiz: React.FC<VocabQuizProps> = ({ profile, language, speak, onBack }) => {
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [chosen, setChosen] = useState<Word | null>(null);
+  const [score, setScore] = useState(0);
+  const [wordImages, setWordImages] = useState<Record<string, string>>({});
+  const [imageErrors, setImageErrors] = useState<Record<string, ApiErrorCode>>({});
+
+  const isThai = language === Language.TH;
+  const current = questions[currentIndex];
+  const isFinished = !isLoading && currentIndex >= questions.length;
+
+  const startQuiz = useCallback(async () => {
+    setIsLoading(true);
+    let storyWords: Word[] = [];
+    if (profile) {
+      try {
+        const [lastStory] = await getAllStories(profile.id);
+        storyWords = lastStory?.words ?? [];
+      } catch (error) {
+        console.error("Failed to load the last story for the quiz:", error);
+      }
+    }
+    const knownWords = profile && profile.learnedWords.length >= QUIZ_OPTION_COUNT ? profile.learnedWords : ALL_WORDS;
+    setQuestions(buildQuiz(knownWords, storyWords, ALL_WORDS));
+    setCurrentIndex(0);
+    setScore(0);
+    setChosen(null);
+    setIsLoading(false);
+  }, [profile]);
+
+  // Build the quiz once per visit; later profile updates shouldn't reshuffle it.
+  useEffect(() => {
+    startQuiz();
+  }, []);
+
+  const loadImage = useCallback(async (english: string) => {
+    setImageErrors(prev => {
+      const { [english]: _failed, ...rest } = prev;
+      return rest;
+    });
+    try {
+      const url = await fetchVocabImage(english);
+      setWordImages(prev => ({ ...prev, [english]: url }));
+    } catch (error) {
+      // A built-in word falls back to its bundled picture instead of a retry button
+      const offlineUrl = offlineVocabImageUrl(english);
+      if (offlineUrl) setWordImages(prev => ({ ...prev, [english]: offlineUrl }));
+      else setImageErrors(prev => ({ ...prev, [english]: error instanceof ApiRequestError ? error.code : 'internal' }));
+    }
+  }, []);
+
+  // Fetch the pictures the current question needs, once per question, and
+  // leave failed ones to their retry button
+  useEffect(() => {
+    if (!current) return;
+    const needed = current.type === QuizQuestionType.AUDIO_TO_PICTURE ? current.options
+      : current.type === QuizQuestionType.PICTURE_TO_WORD ? [current.answer]
+      : [];
+    needed.filter(word => !wordImages[word.english] && !imageErrors[word.english]).forEach(word => loadImage(word.english));
+    if (current.type === QuizQuestionType.AUDIO_TO_PICTURE) speak(current.answer.english);
+  }, [current]);
+
+  const handleChoose = async (option: Word) => {
+    if (!current || chosen) return;
+    setChosen(option);
+    const correct = isCorrectAnswer(current, option);
+    if (correct) setScore(prev => prev + 1);
+    speak(correct ? (isThai ? 'เก่งมาก!' : 'Well done!') : current.answer.english);
+    if (profile) {
+      recordRecall(profile.id, current.answer, correct).catch(error => console.error("Failed to record quiz result:", error));
+    }
+  };
+
+  const handleNext = () => {
+    setChosen(null);
+    setCurrentIndex(prev => prev + 1);
+  };
+
+  const promptText = (question: QuizQuestion): string => {
+    switch (question.type) {
+      case QuizQuestionType.PICTURE_TO_WORD:
+        return isThai ? 'นี่คือรูปอะไรเอ่ย?' : 'What is in the picture?';
+      case QuizQuestionType.AUDIO_TO_PICTURE:
+        return isThai ? 'ฟังแล้วเลือกรูปที่ถูกต้อง' : 'Listen and pick the right picture';
+      case QuizQuestionType.THAI_TO_ENGLISH:
+        return isThai ? `"${question.answer.thai}" ภาษาอังกฤษคือคำว่าอะไร?` : `What is "${question.answer.thai}" in English?`;
+      case QuizQuestionType.STORY_WORD:
+        return isThai ? 'คำไหนอยู่ในนิทานเรื่องล่าสุดของเรา?' : 'Which word was in your last story?';
+    }
+  };
+
+  const optionStyle = (option: Word): string => {
+    if (!chosen || !current) return 'bg-white hover:bg-purple-50 border-gray-200';
+    if (isCorrectAnswer(current, option)) return 'bg-green-100 border-green-500';
+    if (option === chosen) return 'bg-red-100 border-red-500';
+    return 'bg-white border-gray-200 opacity-60';
+  };
+
+  // A failed picture is a plain tile; its retry button is drawn by the caller,
+  // since the picture may sit inside an answer button
+  const renderPicture = (word: Word, className: string) => wordImages[word.english]
+    ? <img src={wordImages[word.english]} alt="" className={`${className} object-cover`} />
+    : <div className={`${className} bg-gray-200 flex items-center justify-center`}>
+        {!imageErrors[word.english] && <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>}
+      </div>;
+
+  const renderImageRetry = (word: Word, className: string) => imageErrors[word.english] && !wordImages[word.english] && (
+    <div className={`${className} flex items-center justify-center`}>
+      <RetryPanel code={imageErrors[word.english]} language={language} onRetry={() => loadImage(word.english)} compact />
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-purple-600 to-indigo-800">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-yellow-300"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col bg-gradient-to-br from-purple-600 to-indigo-800 overflow-y-auto">
+      <header className="p-4 bg-white/80 backdrop-blur-sm shadow-md z-10">
+        <button onClick={onBack} className="text-purple-600 font-semibold hover:underline">
+          &larr; {isThai ? 'กลับหน้าหลัก' : 'Back to Home'}
+        </button>
+        <h2 className="text-2xl font-bold text-center text-gray-800 mt-2">
+          {isThai ? 'เกมทายคำศัพท์' : 'Word Quiz'}
+          <span className="text-purple-600"> ⭐ {score}</span>
+        </h2>
+        {!isFinished && (
+          <p className="text-center text-sm font-semibold text-gray-600">{currentIndex + 1} / {questions.length}</p>
+        )}
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-center p-4 gap-6">
+        {isFinished ? (
+          <div className="bg-white rounded-2xl shadow-2xl p-8 text-center max-w-md w-full">
+            <p className="text-5xl mb-4">🏆</p>
+            <p className="text-2xl font-bold text-gray-800">
+              {isThai ? `ได้ ${score} จาก ${questions.length} คะแนน!` : `You scored ${score} out of ${questions.length}!`}
+            </p>
+            <div className="flex gap-3 mt-6">
+              <button onClick={onBack} className="flex-1 p-3 rounded-xl bg-gray-100 hover:bg-gray-200 font-bold">
+                {isThai ? 'กลับหน้าหลัก' : 'Home'}
+              </button>
+              <button onClick={startQuiz} className="flex-1 p-3 rounded-xl bg-gradient-to-r from-green-500 to-teal-500 text-white font-bold">
+                {isThai ? 'เล่นอีกครั้ง!' : 'Play again!'}
+              </button>
+            </div>
+          </div>
+        ) : current && (
+          <div className="bg-white/95 rounded-2xl shadow-2xl p-6 max-w-2xl w-full flex flex-col items-center gap-4">
+            <p className="text-xl font-bold text-gray-800 text-center">{promptText(current)}</p>
+
+            {current.type === QuizQuestionType.PICTURE_TO_WORD && (
+              <div className="relative">
+                {renderPicture(current.answer, 'w-64 h-64 rounded-xl')}
+                {renderImageRetry(current.answer, 'absolute inset-0')}
+              </div>
+            )}
+            {current.type === QuizQuestionType.AUDIO_TO_PICTURE && (
+              <button onClick={() => speak(current.answer.english)} className="p-4 rounded-full bg-purple-600 text-white shadow-lg hover:scale-110 transition-transform" aria-label="Play word">
+                <SpeakerIcon />
+              </button>
+            )}
+
+            <div className={`w-full grid gap-3 ${current.type === QuizQuestionType.AUDIO_TO_PICTURE ? 'grid-cols-3' : 'grid-cols-1'}`}>
+              {current.options.map(option => (
+                <div key={option.english} className="relative">
+                  <button
+                    onClick={() => handleChoose(option)}
+                    disabled={!!chosen}
+                    className={`w-full rounded-xl border-4 overflow-hidden font-bold text-xl text-gray-800 transition-all ${optionStyle(option)} ${current.type === QuizQuestionType.AUDIO_TO_PICTURE ? '' : 'p-4'}`}
+                  >
+                    {current.type === QuizQuestionType.AUDIO_TO_PICTURE
+                      ? renderPicture(option, 'w-full h-28')
+                      : current.type === QuizQuestionType.STORY_WORD
+                        ? `${option.english} (${option.thai})`
+                        : option.english}
+                  </button>
+                  {current.type === QuizQuestionType.AUDIO_TO_PICTURE && renderImageRetry(option, 'absolute inset-x-0 top-0 h-28')}
+                </div>
+              ))}
+            </div>
+
+            {chosen && (
+              <>
+                <p className={`text-xl font-bold ${isCorrectAnswer(current, chosen) ? 'text-green-600' : 'text-red-500'}`}>
+                  {isCorrectAnswer(current, chosen)
+                    ? (isThai ? 'ถูกต้อง! เก่งมาก 🎉' : 'Correct! 🎉')
+                    : (isThai ? `เกือบแล้ว! คำตอบคือ "${current.answer.english}"` : `Almost! The answer is "${current.answer.english}"`)}
+                </p>
+                <button onClick={handleNext} className="w-full px-4 py-3 text-white font-bold text-lg rounded-xl shadow-lg bg-gradient-to-br from-purple-500 to-indigo-600 border-b-4 border-purple-700 active:border-b-2">
+                  {isThai ? 'ข้อต่อไป' : 'Next'} &rarr;
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default VocabQuiz;
@@ -1,46 +1,190 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { Word, WordCategory, Language } from '../types';
-import { VOCABULARY, WORD_CATEGORY_THAI, MAX_WORDS_PER_ROUND } from '../constants';
-import { generateVocabImage } from '../services/geminiService';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Word, WordCategory, Language, AgeBand, CustomWord, CustomWordList } from '../types';
+import { VOCABULARY, WORD_CATEGORY_THAI, MAX_WORDS_PER_ROUND, VOCAB_PAGE_SIZE } from '../constants';
+import { ApiErrorCode, DEFAULT_AGE_BAND } from '../apiProtocol';
+import { ApiRequestError, fetchVocabImage } from '../services/geminiService';
+import { offlineVocabImageUrl } from '../services/offlineStoryPack';
+import { getDueWords } from '../services/wordProgress';
+import { getBestStars } from '../services/pronunciation';
+import { getVocabulary, fetchMoreWords } from '../services/vocabularySets';
+import { getAllCustomLists } from '../services/customWordLists';
+import PronunciationPractice from './PronunciationPractice';
+import CustomListEditor from './CustomListEditor';
+import RetryPanel from './RetryPanel';
 import SparkleIcon from './icons/SparkleIcon';
+import MicrophoneIcon from './icons/MicrophoneIcon';
 
 interface VocabTrainerProps {
+  profileId?: string;
+  ageBand?: AgeBand;
   onComplete: (words: Word[]) => void;
   language: Language;
+  speak: (text: string) => void;
+  isSpeaking: boolean;
 }
 
-const VocabTrainer: React.FC<VocabTrainerProps> = ({ onComplete, language }) => {
+const VocabTrainer: React.FC<VocabTrainerProps> = ({ profileId, ageBand = DEFAULT_AGE_BAND, onComplete, language, speak, isSpeaking }) => {
   const [selectedCategory, setSelectedCategory] = useState<WordCategory | null>(null);
+  const [selectedList, setSelectedList] = useState<CustomWordList | null>(null);
+  const [customLists, setCustomLists] = useState<CustomWordList[]>([]);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [listBeingEdited, setListBeingEdited] = useState<CustomWordList | null>(null);
   const [selectedWords, setSelectedWords] = useState<Word[]>([]);
   const [wordImages, setWordImages] = useState<Record<string, string>>({});
+  // Words whose picture couldn't be made; they get a retry button instead
+  const [imageErrors, setImageErrors] = useState<Record<string, ApiErrorCode>>({});
   const [isLoadingImages, setIsLoadingImages] = useState(false);
+  const [dueWordKeys, setDueWordKeys] = useState<Set<string>>(new Set());
+  const [bestStars, setBestStars] = useState<Record<string, number>>({});
+  const [practiceWord, setPracticeWord] = useState<CustomWord | null>(null);
+  const [vocabulary, setVocabulary] = useState<Record<WordCategory, Word[]>>(VOCABULARY);
+  const [page, setPage] = useState(0);
+  const [isFetchingWords, setIsFetchingWords] = useState(false);
+  const [noNewWords, setNoNewWords] = useState(false);
+  const [moreWordsError, setMoreWordsError] = useState<ApiErrorCode | null>(null);
 
-  const currentWords = useMemo(() => selectedCategory ? VOCABULARY[selectedCategory] : [], [selectedCategory]);
+  useEffect(() => {
+    getVocabulary(ageBand)
+      .then(setVocabulary)
+      .catch(error => console.error("Failed to load saved vocabulary:", error));
+  }, [ageBand]);
+
+  useEffect(() => {
+    getAllCustomLists()
+      .then(setCustomLists)
+      .catch(error => console.error("Failed to load custom word lists:", error));
+  }, []);
 
   useEffect(() => {
-    if (selectedCategory && currentWords.length > 0) {
-      setIsLoadingImages(true);
-      const fetchImages = async () => {
-        const imagePromises = currentWords.map(word => generateVocabImage(word.english));
-        try {
-            const urls = await Promise.all(imagePromises);
-            const newImageMap: Record<string, string> = {};
-            currentWords.forEach((word, index) => {
-              newImageMap[word.english] = urls[index];
-            });
-            setWordImages(prev => ({ ...prev, ...newImageMap }));
-        } catch (error) {
-            console.error("Failed to fetch all word images", error);
-        } finally {
-            setIsLoadingImages(false);
-        }
-      };
-      fetchImages();
+    if (!profileId) return;
+    getDueWords(profileId)
+      .then(due => setDueWordKeys(new Set(due.map(p => p.word.english.toLowerCase()))))
+      .catch(error => console.error("Failed to load due words:", error));
+    getBestStars(profileId)
+      .then(setBestStars)
+      .catch(error => console.error("Failed to load pronunciation history:", error));
+  }, [profileId]);
+
+  const handlePronunciationResult = useCallback((word: Word, stars: number) => {
+    setBestStars(prev => ({ ...prev, [word.english]: Math.max(prev[word.english] ?? 0, stars) }));
+  }, []);
+
+  const isWordDue = (word: Word) => dueWordKeys.has(word.english.toLowerCase());
+
+  // Words due for review come first, so using them in a story counts as practice
+  const categoryWords = useMemo((): CustomWord[] => {
+    const words = selectedList ? selectedList.words : selectedCategory ? vocabulary[selectedCategory] : [];
+    return [...words.filter(w => dueWordKeys.has(w.english.toLowerCase())), ...words.filter(w => !dueWordKeys.has(w.english.toLowerCase()))];
+  }, [selectedCategory, selectedList, vocabulary, dueWordKeys]);
+
+  const pageCount = Math.max(1, Math.ceil(categoryWords.length / VOCAB_PAGE_SIZE));
+  const isLastPage = page >= pageCount - 1;
+
+  const currentWords = useMemo(
+    () => categoryWords.slice(page * VOCAB_PAGE_SIZE, (page + 1) * VOCAB_PAGE_SIZE),
+    [categoryWords, page]
+  );
+
+  const dueCountByCategory = useMemo(() => {
+    const counts = {} as Record<WordCategory, number>;
+    for (const category of Object.values(WordCategory)) {
+      counts[category] = vocabulary[category].filter(w => dueWordKeys.has(w.english.toLowerCase())).length;
     }
-  }, [selectedCategory, currentWords]);
+    return counts;
+  }, [vocabulary, dueWordKeys]);
+
+  const loadImages = useCallback(async (words: Word[]) => {
+    setIsLoadingImages(true);
+    const results = await Promise.allSettled(words.map(word => fetchVocabImage(word.english)));
+    const newImageMap: Record<string, string> = {};
+    const newErrors: Record<string, ApiErrorCode> = {};
+    results.forEach((result, index) => {
+      const { english } = words[index];
+      // A built-in word falls back to its bundled picture instead of a retry button
+      const offlineUrl = offlineVocabImageUrl(english);
+      if (result.status === 'fulfilled') newImageMap[english] = result.value;
+      else if (offlineUrl) newImageMap[english] = offlineUrl;
+      else newErrors[english] = result.reason instanceof ApiRequestError ? result.reason.code : 'internal';
+    });
+    setWordImages(prev => ({ ...prev, ...newImageMap }));
+    setImageErrors(prev => ({ ...prev, ...newErrors }));
+    setIsLoadingImages(false);
+  }, []);
+
+  useEffect(() => {
+    // Only fetch pictures for this page's words that don't have one yet, and
+    // leave failed ones to their retry button
+    const missingWords = currentWords.filter(word => !word.imageUrl && !wordImages[word.english] && !imageErrors[word.english]);
+    if (missingWords.length > 0) loadImages(missingWords);
+  }, [currentWords]);
+
+  const retryImage = (word: Word) => {
+    setImageErrors(prev => {
+      const { [word.english]: _failed, ...rest } = prev;
+      return rest;
+    });
+    loadImages([word]);
+  };
+
+  // A teacher's own picture wins over the generated one
+  const imageFor = (word: CustomWord): string | undefined => word.imageUrl ?? wordImages[word.english];
   
   const handleSelectCategory = (category: WordCategory) => {
     setSelectedCategory(category);
+    setSelectedList(null);
+    setPage(0);
+    setNoNewWords(false);
+    setMoreWordsError(null);
+  };
+
+  const handleSelectList = (list: CustomWordList) => {
+    setSelectedList(list);
+    setSelectedCategory(null);
+    setPage(0);
+    setNoNewWords(false);
+  };
+
+  const handleBackToCategories = () => {
+    setSelectedCategory(null);
+    setSelectedList(null);
+  };
+
+  const openEditor = (list: CustomWordList | null) => {
+    setListBeingEdited(list);
+    setIsEditorOpen(true);
+  };
+
+  const handleListSaved = (list: CustomWordList) => {
+    setCustomLists(prev => prev.some(l => l.id === list.id) ? prev.map(l => l.id === list.id ? list : l) : [...prev, list]);
+    if (selectedList?.id === list.id) setSelectedList(list);
+    setIsEditorOpen(false);
+  };
+
+  const handleListDeleted = (id: string) => {
+    setCustomLists(prev => prev.filter(l => l.id !== id));
+    if (selectedList?.id === id) handleBackToCategories();
+    setIsEditorOpen(false);
+  };
+
+  const handleMoreWords = async () => {
+    if (!selectedCategory || isFetchingWords) return;
+    setIsFetchingWords(true);
+    setNoNewWords(false);
+    setMoreWordsError(null);
+    try {
+      const { words, addedCount } = await fetchMoreWords(selectedCategory, ageBand);
+      setVocabulary(prev => ({ ...prev, [selectedCategory]: words }));
+      if (addedCount > 0) {
+        setPage(Math.floor((words.length - addedCount) / VOCAB_PAGE_SIZE));
+      } else {
+        setNoNewWords(true);
+      }
+    } catch (error) {
+      console.error("Failed to fetch more words:", error);
+      setMoreWordsError(error instanceof ApiRequestError ? error.code : 'internal');
+    } finally {
+      setIsFetchingWords(false);
+    }
   };
 
   const handleSelectWord = (word: Word) => {
@@ -60,7 +204,7 @@ const VocabTrainer: React.FC<VocabTrainerProps> = ({ onComplete, language }) =>
   };
   
   const renderCategorySelection = () => (
-    <div className="w-full max-w-4xl mx-auto p-4 sm:p-6">
+    <div className="w-full max-w-4xl mx-auto p-4 sm:p-6 max-h-full overflow-y-auto">
       <h1 className="text-3xl sm:text-4xl font-bold text-white text-center mb-6" style={{ textShadow: '0 2px 4px rgba(0,0,0,0.5)' }}>
         {language === Language.TH ? 'เลือกหมวดหมู่คำศัพท์' : 'Choose a Word Category'}
       </h1>
@@ -69,19 +213,56 @@ const VocabTrainer: React.FC<VocabTrainerProps> = ({ onComplete, language }) =>
           <button
             key={category}
             onClick={() => handleSelectCategory(category)}
-            className="p-4 sm:p-6 bg-white/90 backdrop-blur-sm rounded-xl shadow-lg text-purple-800 font-semibold text-lg transition-transform transform hover:scale-105"
+            className="relative p-4 sm:p-6 bg-white/90 backdrop-blur-sm rounded-xl shadow-lg text-purple-800 font-semibold text-lg transition-transform transform hover:scale-105"
           >
             {WORD_CATEGORY_THAI[category]}
+            {dueCountByCategory[category] > 0 && (
+              <span className="absolute -top-2 -right-2 px-2 py-1 bg-orange-500 text-white text-xs font-bold rounded-full shadow">
+                {language === Language.TH ? `ทบทวน ${dueCountByCategory[category]}` : `${dueCountByCategory[category]} to review`}
+              </span>
+            )}
           </button>
         ))}
       </div>
+
+      <h2 className="text-2xl font-bold text-white text-center mt-8 mb-4" style={{ textShadow: '0 2px 4px rgba(0,0,0,0.5)' }}>
+        {language === Language.TH ? 'รายการคำของครู' : "Teacher's Word Lists"}
+      </h2>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+        {customLists.map(list => (
+          <div key={list.id} className="relative">
+            <button
+              onClick={() => handleSelectList(list)}
+              className="w-full h-full p-4 sm:p-6 bg-yellow-50/90 backdrop-blur-sm rounded-xl shadow-lg text-purple-800 font-semibold text-lg transition-transform transform hover:scale-105"
+            >
+              {list.name}
+              <span className="block text-sm font-normal text-gray-500">
+                {language === Language.TH ? `${list.words.length} คำ` : `${list.words.length} words`}
+              </span>
+            </button>
+            <button
+              onClick={() => openEditor(list)}
+              className="absolute top-2 right-2 p-1 text-lg rounded-full hover:bg-white"
+              aria-label={language === Language.TH ? `แก้ไข ${list.name}` : `Edit ${list.name}`}
+            >
+              ✏️
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => openEditor(null)}
+          className="p-4 sm:p-6 rounded-xl border-2 border-dashed border-white/70 text-white font-semibold text-lg hover:bg-white/10"
+        >
+          + {language === Language.TH ? 'สร้างรายการคำ' : 'New word list'}
+        </button>
+      </div>
     </div>
   );
   
   const renderWordSelection = () => (
     <div className="flex flex-col h-full w-full">
       <header className="p-4 bg-white/80 backdrop-blur-sm shadow-md z-10">
-        <button onClick={() => setSelectedCategory(null)} className="text-purple-600 font-semibold hover:underline">
+        <button onClick={handleBackToCategories} className="text-purple-600 font-semibold hover:underline">
            &larr; {language === Language.TH ? 'กลับไปเลือกหมวดหมู่' : 'Back to Categories'}
         </button>
          <h2 className="text-2xl font-bold text-center text-gray-800 mt-2">
@@ -94,35 +275,90 @@ const VocabTrainer: React.FC<VocabTrainerProps> = ({ onComplete, language }) =>
         {isLoadingImages && <div className="text-center text-white text-xl">กำลังโหลดรูปภาพ...</div>}
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
           {currentWords.map(word => (
-            <button
-              key={word.english}
-              onClick={() => handleSelectWord(word)}
-              className={`relative rounded-xl overflow-hidden shadow-lg transform transition-all duration-300 ${isWordSelected(word) ? 'scale-105 ring-4 ring-yellow-400' : 'hover:scale-105'}`}
-            >
-              <div className="absolute inset-0 bg-black/30"></div>
-              {wordImages[word.english] ? (
-                  <img src={wordImages[word.english]} alt={word.english} className="w-full h-48 object-cover" />
-              ) : (
-                <div className="w-full h-48 bg-gray-200 flex items-center justify-center">
-                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>
+            <div key={word.english} className="relative">
+              <button
+                onClick={() => handleSelectWord(word)}
+                className={`relative w-full rounded-xl overflow-hidden shadow-lg transform transition-all duration-300 ${isWordSelected(word) ? 'scale-105 ring-4 ring-yellow-400' : 'hover:scale-105'}`}
+              >
+                <div className="absolute inset-0 bg-black/30"></div>
+                {imageFor(word) ? (
+                    <img src={imageFor(word)} alt={word.english} className="w-full h-48 object-cover" />
+                ) : (
+                  <div className="w-full h-48 bg-gray-200 flex items-center justify-center">
+                     <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>
+                  </div>
+                )}
+                <div className="absolute bottom-0 left-0 right-0 p-2 pr-12 bg-gradient-to-t from-black/80 to-transparent text-left">
+                    <p className="text-white font-bold text-lg">{language === Language.TH ? word.thai : word.english}</p>
+                    {bestStars[word.english] > 0 && (
+                      <p className="text-sm" aria-label={`${bestStars[word.english]} stars`}>{'⭐'.repeat(bestStars[word.english])}</p>
+                    )}
                 </div>
-              )}
-              <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/80 to-transparent">
-                  <p className="text-white font-bold text-lg">{language === Language.TH ? word.thai : word.english}</p>
-              </div>
-               {isWordSelected(word) && (
-                <div className="absolute top-2 right-2 w-8 h-8 bg-yellow-400 rounded-full flex items-center justify-center shadow-lg">
-                  <svg className="w-6 h-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" /></svg>
+                {isWordDue(word) && (
+                  <div className="absolute top-2 left-2 px-2 py-1 bg-orange-500 text-white text-xs font-bold rounded-full shadow-lg">
+                    {language === Language.TH ? 'ทบทวน' : 'Review'}
+                  </div>
+                )}
+                 {isWordSelected(word) && (
+                  <div className="absolute top-2 right-2 w-8 h-8 bg-yellow-400 rounded-full flex items-center justify-center shadow-lg">
+                    <svg className="w-6 h-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" /></svg>
+                  </div>
+                )}
+              </button>
+              {imageErrors[word.english] && !imageFor(word) && (
+                <div className="absolute inset-x-0 top-0 h-48 flex items-center justify-center bg-gray-200 rounded-t-xl">
+                  <RetryPanel code={imageErrors[word.english]} language={language} onRetry={() => retryImage(word)} compact />
                 </div>
               )}
-            </button>
+              <button
+                onClick={() => setPracticeWord(word)}
+                className="absolute bottom-2 right-2 w-9 h-9 p-2 bg-blue-500 hover:bg-blue-600 text-white rounded-full shadow-lg"
+                aria-label={language === Language.TH ? `ฝึกพูดคำว่า ${word.english}` : `Say "${word.english}"`}
+              >
+                <MicrophoneIcon />
+              </button>
+            </div>
           ))}
         </div>
+
+        <div className="flex items-center justify-center gap-3 mt-6">
+          {page > 0 && (
+            <button onClick={() => setPage(prev => prev - 1)} className="px-4 py-2 bg-white/90 text-purple-700 font-semibold rounded-full shadow">
+              &larr; {language === Language.TH ? 'ก่อนหน้า' : 'Previous'}
+            </button>
+          )}
+          <span className="text-white font-semibold">{page + 1} / {pageCount}</span>
+          {isLastPage ? selectedCategory && (
+            <button
+              onClick={handleMoreWords}
+              disabled={isFetchingWords}
+              className="px-4 py-2 bg-yellow-400 text-purple-900 font-bold rounded-full shadow disabled:opacity-60"
+            >
+              {isFetchingWords
+                ? (language === Language.TH ? 'กำลังหาคำใหม่...' : 'Finding new words...')
+                : (language === Language.TH ? '✨ คำใหม่เพิ่มอีก' : '✨ More words')}
+            </button>
+          ) : (
+            <button onClick={() => setPage(prev => prev + 1)} className="px-4 py-2 bg-white/90 text-purple-700 font-semibold rounded-full shadow">
+              {language === Language.TH ? 'ถัดไป' : 'Next'} &rarr;
+            </button>
+          )}
+        </div>
+        {moreWordsError && (
+          <div className="max-w-sm mx-auto mt-3 bg-white/90 rounded-xl shadow">
+            <RetryPanel code={moreWordsError} language={language} onRetry={handleMoreWords} />
+          </div>
+        )}
+        {noNewWords && (
+          <p className="text-center text-white mt-2">
+            {language === Language.TH ? 'ยังหาคำใหม่ไม่ได้ ลองอีกครั้งนะ' : "Couldn't find new words this time. Try again!"}
+          </p>
+        )}
       </main>
       
       <footer className="p-4 bg-white/80 backdrop-blur-sm shadow-inner z-10">
          <button
-            onClick={() => onComplete(selectedWords)}
+            onClick={() => onComplete(selectedWords.map(({ thai, english }) => ({ thai, english })))}
             disabled={selectedWords.length < MAX_WORDS_PER_ROUND}
             className="w-full flex items-center justify-center gap-3 px-8 py-4 bg-gradient-to-r from-green-500 to-teal-500 text-white font-bold text-2xl rounded-xl shadow-lg disabled:opacity-50 disabled:cursor-not-allowed transition-transform transform hover:scale-105"
           >
@@ -135,7 +371,28 @@ const VocabTrainer: React.FC<VocabTrainerProps> = ({ onComplete, language }) =>
 
   return (
     <div className="w-full h-full flex flex-col items-center justify-center bg-gradient-to-br from-purple-600 to-indigo-800 p-4">
-      {selectedCategory ? renderWordSelection() : renderCategorySelection()}
+      {selectedCategory || selectedList ? renderWordSelection() : renderCategorySelection()}
+      {practiceWord && (
+        <PronunciationPractice
+          key={practiceWord.english}
+          word={practiceWord}
+          imageUrl={imageFor(practiceWord)}
+          profileId={profileId}
+          language={language}
+          speak={speak}
+          isSpeaking={isSpeaking}
+          onClose={() => setPracticeWord(null)}
+          onResult={handlePronunciationResult}
+        />
+      )}
+      {isEditorOpen && (
+        <CustomListEditor
+          list={listBeingEdited}
+          onClose={() => setIsEditorOpen(false)}
+          onSaved={handleListSaved}
+          onDeleted={handleListDeleted}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,169 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Language, WordProgress } from '../types';
+import { MAX_REVIEW_WORDS } from '../constants';
+import { ApiErrorCode } from '../apiProtocol';
+import { getDueWords, recordRecall } from '../services/wordProgress';
+import { ApiRequestError, fetchVocabImage } from '../services/geminiService';
+import { offlineVocabImageUrl } from '../services/offlineStoryPack';
+import RetryPanel from './RetryPanel';
+import SpeakerIcon from './icons/SpeakerIcon';
+
+interface WordReviewProps {
+  profileId: string;
+  language: Language;
+  speak: (text: string) => void;
+  onComplete: () => void;
+}
+
+const WordReview: React.FC<WordReviewProps> = ({ profileId, language, speak, onComplete }) => {
+  const [dueWords, setDueWords] = useState<WordProgress[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [rememberedCount, setRememberedCount] = useState(0);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [imageError, setImageError] = useState<ApiErrorCode | null>(null);
+  // Bumped per picture request, so a late answer for an earlier word is ignored
+  const imageRequest = useRef(0);
+
+  const isThai = language === Language.TH;
+  const current = dueWords[currentIndex];
+  const isFinished = !isLoading && currentIndex >= dueWords.length;
+
+  useEffect(() => {
+    getDueWords(profileId)
+      .then(words => setDueWords(words.slice(0, MAX_REVIEW_WORDS)))
+      .catch(error => console.error("Failed to load words due for review:", error))
+      .finally(() => setIsLoading(false));
+  }, [profileId]);
+
+  const loadImage = useCallback(async (english: string) => {
+    const id = ++imageRequest.current;
+    setImageUrl(null);
+    setImageError(null);
+    try {
+      const url = await fetchVocabImage(english);
+      if (id === imageRequest.current) setImageUrl(url);
+    } catch (error) {
+      if (id !== imageRequest.current) return;
+      // A built-in word falls back to its bundled picture instead of a retry button
+      const offlineUrl = offlineVocabImageUrl(english);
+      if (offlineUrl) setImageUrl(offlineUrl);
+      else setImageError(error instanceof ApiRequestError ? error.code : 'internal');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (current) loadImage(current.word.english);
+  }, [current, loadImage]);
+
+  // Nothing is due: go straight on to picking words
+  useEffect(() => {
+    if (!isLoading && dueWords.length === 0) onComplete();
+  }, [isLoading, dueWords, onComplete]);
+
+  const handleReveal = () => {
+    if (!current) return;
+    setIsRevealed(true);
+    speak(current.word.english);
+  };
+
+  const handleAnswer = async (remembered: boolean) => {
+    if (!current) return;
+    try {
+      await recordRecall(profileId, current.word, remembered);
+    } catch (error) {
+      console.error("Failed to record review result:", error);
+    }
+    if (remembered) setRememberedCount(prev => prev + 1);
+    setIsRevealed(false);
+    setCurrentIndex(prev => prev + 1);
+  };
+
+  if (isLoading || dueWords.length === 0) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-purple-600 to-indigo-800">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-yellow-300"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col bg-gradient-to-br from-purple-600 to-indigo-800">
+      <header className="p-4 bg-white/80 backdrop-blur-sm shadow-md z-10">
+        <button onClick={onComplete} className="text-purple-600 font-semibold hover:underline">
+          {isThai ? 'ข้ามการทบทวน' : 'Skip review'} &rarr;
+        </button>
+        <h2 className="text-2xl font-bold text-center text-gray-800 mt-2">
+          {isThai ? 'ทบทวนคำศัพท์วันนี้' : "Today's Word Review"}
+          {!isFinished && <span className="text-purple-600"> ({currentIndex + 1}/{dueWords.length})</span>}
+        </h2>
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-center p-4 gap-6">
+        {isFinished ? (
+          <div className="bg-white rounded-2xl shadow-2xl p-8 text-center max-w-md w-full">
+            <p className="text-5xl mb-4">🌟</p>
+            <p className="text-2xl font-bold text-gray-800">
+              {isThai ? `เก่งมาก! จำได้ ${rememberedCount} จาก ${dueWords.length} คำ` : `Great job! You remembered ${rememberedCount} of ${dueWords.length} words`}
+            </p>
+            <button
+              onClick={onComplete}
+              className="mt-6 w-full px-8 py-4 bg-gradient-to-r from-green-500 to-teal-500 text-white font-bold text-2xl rounded-xl shadow-lg transition-transform transform hover:scale-105"
+            >
+              {isThai ? 'ไปเลือกคำศัพท์กัน!' : "Let's pick words!"}
+            </button>
+          </div>
+        ) : current && (
+          <div className="bg-white rounded-2xl shadow-2xl overflow-hidden max-w-md w-full">
+            {imageUrl ? (
+              <img src={imageUrl} alt={current.word.thai} className="w-full h-64 object-cover" />
+            ) : imageError ? (
+              <div className="w-full h-64 bg-gray-200 flex items-center justify-center">
+                <RetryPanel code={imageError} language={language} onRetry={() => loadImage(current.word.english)} compact />
+              </div>
+            ) : (
+              <div className="w-full h-64 bg-gray-200 flex items-center justify-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>
+              </div>
+            )}
+            <div className="p-6 flex flex-col items-center gap-4">
+              <p className="text-3xl font-bold text-gray-800">{current.word.thai}</p>
+              {isRevealed ? (
+                <>
+                  <button onClick={() => speak(current.word.english)} className="flex items-center gap-2 text-3xl font-bold text-purple-700">
+                    {current.word.english}
+                    <SpeakerIcon />
+                  </button>
+                  <div className="w-full flex gap-3">
+                    <button
+                      onClick={() => handleAnswer(false)}
+                      className="flex-1 px-4 py-3 text-white font-bold rounded-xl shadow-lg bg-gradient-to-br from-orange-400 to-pink-500 border-b-4 border-pink-700 active:border-b-2"
+                    >
+                      {isThai ? 'ยังไม่แน่ใจ 🤔' : 'Not yet 🤔'}
+                    </button>
+                    <button
+                      onClick={() => handleAnswer(true)}
+                      className="flex-1 px-4 py-3 text-white font-bold rounded-xl shadow-lg bg-gradient-to-br from-green-500 to-teal-500 border-b-4 border-green-700 active:border-b-2"
+                    >
+                      {isThai ? 'จำได้! 👍' : 'I knew it! 👍'}
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <button
+                  onClick={handleReveal}
+                  className="w-full px-4 py-3 text-white font-bold text-lg rounded-xl shadow-lg bg-gradient-to-br from-purple-500 to-indigo-600 border-b-4 border-purple-700 active:border-b-2"
+                >
+                  {isThai ? 'ภาษาอังกฤษคือคำว่าอะไรนะ? ฟังเฉลย' : 'What is it in English? Listen'}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default WordReview;
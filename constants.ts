@@ -1,6 +1,35 @@
-import { WordCategory, Word, StoryTone } from './types';
+import { WordCategory, Word, StoryTone, AgeBand, Language, AIVoice, ProfileSettings } from './types';
 
 export const MAX_WORDS_PER_ROUND = 5;
+export const VOCAB_PAGE_SIZE = 10;
+
+// The most scenes one story may generate speculatively, used or not.
+export const SCENE_PREFETCH_BUDGET = 6;
+
+// How long the browser waits for the function, longer than the function's own
+// time limit for the model, and how often it retries a slow or busy model.
+export const API_TIMEOUT_MS = 30000;
+export const API_MAX_RETRIES = 2;
+export const API_RETRY_BASE_DELAY_MS = 800;
+
+// On-device cache sizes for generated pictures and narration.
+export const IMAGE_CACHE_MAX_BYTES = 30 * 1024 * 1024;
+export const AUDIO_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+// Recently played narration kept decoded in memory for instant replays.
+export const AUDIO_MEMORY_CACHE_ENTRIES = 30;
+
+// Limits for teacher-made word lists.
+export const MAX_CUSTOM_LIST_WORDS = 50;
+export const MAX_LIST_NAME_LENGTH = 30;
+
+// Days until the next review for a word in each Leitner box (box 1 first).
+export const LEITNER_INTERVAL_DAYS: number[] = [1, 2, 4, 7, 14];
+
+// The most words a single review session will ask about.
+export const MAX_REVIEW_WORDS = 10;
+
+export const QUIZ_LENGTH = 8;
+export const QUIZ_OPTION_COUNT = 3;
 
 export const WORD_CATEGORY_THAI: Record<WordCategory, string> = {
   [WordCategory.ANIMALS_NATURE]: "สัตว์และธรรมชาติ",
@@ -20,6 +49,32 @@ export const STORY_TONE_THAI: Record<StoryTone, string> = {
   [StoryTone.RELATIONSHIPS]: "ความสัมพันธ์และมิตรภาพ",
 };
 
+export const AGE_BAND_THAI: Record<AgeBand, string> = {
+  [AgeBand.TODDLER]: "3-4 ขวบ",
+  [AgeBand.PRESCHOOL]: "5-6 ขวบ",
+  [AgeBand.EARLY_READER]: "7-8 ขวบ",
+};
+
+export const PROFILE_AVATARS: string[] = ["🐶", "🐱", "🐰", "🦁", "🐼", "🦄", "🐸", "🐧", "🦖", "🐝"];
+
+export const DEFAULT_PROFILE_SETTINGS: ProfileSettings = {
+  language: Language.TH,
+  storyTone: StoryTone.ADVENTURE,
+  aiVoice: AIVoice.AURORA,
+  isImageGenerationEnabled: true,
+  storyLength: 5,
+  isScenePrefetchEnabled: true,
+};
+
+// Every length must stay within the protocol's MIN_STORY_SCENES..MAX_STORY_SCENES.
+export const STORY_LENGTHS: number[] = [3, 5, 8];
+
+export const STORY_LENGTH_THAI: Record<number, string> = {
+  3: "สั้น",
+  5: "ปานกลาง",
+  8: "ยาว",
+};
+
 export const STORY_FOLLOW_UP_QUESTIONS_TH: string[] = [
   "แล้วจะเกิดอะไรขึ้นต่อไปนะ?",
   "เล่าให้ฟังหน่อยสิ ว่าเรื่องราวจะเป็นยังไงต่อ",
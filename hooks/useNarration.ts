@@ -0,0 +1,142 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { AIVoice, Language } from '../types';
+import { ApiRequestError, generateSpeech } from '../services/geminiService';
+import { estimateWordTimings, timeOfCharIndex, wordAtTime } from '../services/readAlong';
+
+/** The word being read aloud, for read-along highlighting. */
+export interface ReadAlongPosition {
+  /** Everything being read. */
+  text: string;
+  /** Where the word being spoken starts in `text`. */
+  charIndex: number;
+}
+
+/**
+ * Reads text aloud in the chosen voice, falling back to the device's own voice
+ * when the storyteller can't be reached, and reports which word is being
+ * spoken as it goes.
+ */
+export const useNarration = (voice: AIVoice, language: Language) => {
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [readAlong, setReadAlong] = useState<ReadAlongPosition | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const frameRef = useRef<number | null>(null);
+  // Bumped whenever narration starts or stops, so a clip that arrives after
+  // it was stopped or replaced is never played
+  const playbackId = useRef(0);
+
+  const stopTracking = () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+  };
+
+  const halt = useCallback(() => {
+    playbackId.current++;
+    stopTracking();
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.currentTime = 0;
+    }
+    if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+    setReadAlong(null);
+  }, []);
+
+  useEffect(() => halt, [halt]);
+
+  /** Reads one line, resolving when it ends or is stopped. */
+  const readLine = useCallback(async (text: string, fromCharIndex: number, isCurrent: () => boolean) => {
+    setReadAlong({ text, charIndex: fromCharIndex });
+
+    try {
+      const { audioContent, mimeType } = await generateSpeech(text, voice, language);
+      if (!isCurrent()) return;
+
+      if (audioRef.current) {
+        audioRef.current.pause();
+        audioRef.current.src = '';
+      }
+      const audio = new Audio(`data:${mimeType};base64,${audioContent}`);
+      audioRef.current = audio;
+      await new Promise<void>((resolve, reject) => {
+        audio.onloadedmetadata = () => resolve();
+        audio.onerror = () => reject(new Error('The narration could not be loaded'));
+      });
+      if (!isCurrent()) return;
+
+      const timings = estimateWordTimings(text, language, audio.duration);
+      audio.currentTime = timeOfCharIndex(timings, fromCharIndex);
+      // A clip pauses when it ends, as well as when it's stopped
+      const stopped = new Promise<void>(resolve => { audio.onpause = () => resolve(); });
+      await audio.play();
+
+      // Follow the playhead, updating only when the word changes
+      let lastCharIndex = -1;
+      const track = () => {
+        if (!isCurrent()) return;
+        const word = wordAtTime(timings, audio.currentTime);
+        if (word && word.start !== lastCharIndex) {
+          lastCharIndex = word.start;
+          setReadAlong({ text, charIndex: word.start });
+        }
+        frameRef.current = requestAnimationFrame(track);
+      };
+      track();
+      await stopped;
+      stopTracking();
+    } catch (error) {
+      if (!isCurrent()) return;
+      console.error('Speech generation failed:', error);
+      // Offline, or the storyteller is resting: the device's own voice reads
+      // it instead, and says where each word starts. Text the safety check
+      // stopped isn't read at all.
+      const isBlocked = error instanceof ApiRequestError && error.code === 'safetyBlock';
+      if (!('speechSynthesis' in window) || isBlocked) return;
+      await new Promise<void>(resolve => {
+        const utterance = new SpeechSynthesisUtterance(text.slice(fromCharIndex));
+        utterance.lang = language === Language.TH ? 'th-TH' : 'en-US';
+        utterance.onboundary = event => {
+          if (isCurrent() && event.name === 'word') setReadAlong({ text, charIndex: fromCharIndex + event.charIndex });
+        };
+        utterance.onend = () => resolve();
+        utterance.onerror = () => resolve();
+        window.speechSynthesis.speak(utterance);
+      });
+    }
+  }, [voice, language]);
+
+  // Each line is its own clip, cached under its own text, so a scene read
+  // with a question after it is found again when the scene is read alone
+  const play = useCallback(async (lines: string[], fromCharIndex: number) => {
+    const id = ++playbackId.current;
+    const isCurrent = () => id === playbackId.current;
+    setIsSpeaking(true);
+    for (const [i, line] of lines.entries()) {
+      if (!isCurrent()) return;
+      await readLine(line, i === 0 ? fromCharIndex : 0, isCurrent);
+    }
+    if (!isCurrent()) return;
+    stopTracking();
+    setReadAlong(null);
+    setIsSpeaking(false);
+  }, [readLine]);
+
+  /** Reads `text`, then `followUp` if given, unless something is being read already. */
+  const speak = useCallback((text: string, followUp?: string) => {
+    if (isSpeaking || !text) return;
+    play(followUp ? [text, followUp] : [text], 0);
+  }, [isSpeaking, play]);
+
+  /** Reads `text` from the word at `charIndex`, cutting off anything being read now. */
+  const speakFrom = useCallback((text: string, charIndex: number) => {
+    if (!text) return;
+    halt();
+    play([text], charIndex);
+  }, [halt, play]);
+
+  const stopSpeech = useCallback(() => {
+    halt();
+    setIsSpeaking(false);
+  }, [halt]);
+
+  return { speak, speakFrom, stopSpeech, isSpeaking, readAlong };
+};
@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ChildProfile, ProfileSettings, AgeBand, Word } from '../types';
+import { DEFAULT_PROFILE_SETTINGS } from '../constants';
+import { DEFAULT_AGE_BAND } from '../apiProtocol';
+import {
+  getAllProfiles, saveProfile, deleteProfile, getActiveProfileId, setActiveProfileId, createProfileId, mergeLearnedWords,
+} from '../services/profiles';
+
+export interface NewProfile {
+  name: string;
+  avatar: string;
+  ageBand: AgeBand;
+}
+
+const buildProfile = ({ name, avatar, ageBand }: NewProfile): ChildProfile => ({
+  id: createProfileId(),
+  name,
+  avatar,
+  ageBand,
+  settings: { ...DEFAULT_PROFILE_SETTINGS },
+  learnedWords: [],
+  createdAt: Date.now(),
+});
+
+const DEFAULT_PROFILE: NewProfile = { name: 'นักผจญภัย', avatar: '🐰', ageBand: DEFAULT_AGE_BAND };
+
+/**
+ * Loads the child profiles and tracks which one is playing. Every change is
+ * written straight back to IndexedDB, so switching profiles never needs a reload.
+ */
+export const useProfiles = () => {
+  const [profiles, setProfiles] = useState<ChildProfile[]>([]);
+  const [activeProfileId, setActiveId] = useState<string | null>(null);
+  // Set when the profiles couldn't be read, e.g. while another tab holds up a database upgrade
+  const [loadError, setLoadError] = useState(false);
+  const hasLoaded = useRef(false);
+
+  const loadProfiles = useCallback(async () => {
+    setLoadError(false);
+    let stored: ChildProfile[];
+    try {
+      stored = await getAllProfiles();
+    } catch (error) {
+      // Nothing is written: a first-launch profile here would be a duplicate once the read works
+      console.error("Failed to load profiles:", error);
+      setLoadError(true);
+      return;
+    }
+    // The first launch gets a ready-to-play profile so nobody has to fill in a form.
+    if (stored.length === 0) {
+      const firstProfile = buildProfile(DEFAULT_PROFILE);
+      saveProfile(firstProfile).catch(error => console.error("Failed to save profile:", error));
+      stored = [firstProfile];
+    }
+    const rememberedId = getActiveProfileId();
+    setProfiles(stored);
+    setActiveId(stored.some(p => p.id === rememberedId) ? rememberedId : stored[0].id);
+  }, []);
+
+  useEffect(() => {
+    // Guard against StrictMode's double effect creating two first-launch profiles.
+    if (hasLoaded.current) return;
+    hasLoaded.current = true;
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? null;
+
+  const persist = useCallback((profile: ChildProfile) => {
+    setProfiles(prev => prev.map(p => p.id === profile.id ? profile : p));
+    saveProfile(profile).catch(error => console.error("Failed to save profile:", error));
+  }, []);
+
+  const selectProfile = useCallback((id: string) => {
+    setActiveId(id);
+    setActiveProfileId(id);
+  }, []);
+
+  const addProfile = useCallback((details: NewProfile) => {
+    const profile = buildProfile(details);
+    setProfiles(prev => [...prev, profile]);
+    saveProfile(profile).catch(error => console.error("Failed to save profile:", error));
+    selectProfile(profile.id);
+  }, [selectProfile]);
+
+  const removeProfile = useCallback(async (id: string) => {
+    try {
+      await deleteProfile(id);
+    } catch (error) {
+      console.error("Failed to delete profile:", error);
+      return;
+    }
+    const remaining = profiles.filter(p => p.id !== id);
+    if (remaining.length === 0) {
+      const replacement = buildProfile(DEFAULT_PROFILE);
+      saveProfile(replacement).catch(error => console.error("Failed to save profile:", error));
+      remaining.push(replacement);
+    }
+    setProfiles(remaining);
+    if (id === activeProfileId) selectProfile(remaining[0].id);
+  }, [profiles, activeProfileId, selectProfile]);
+
+  const updateSettings = useCallback((changes: Partial<ProfileSettings>) => {
+    if (!activeProfile) return;
+    persist({ ...activeProfile, settings: { ...activeProfile.settings, ...changes } });
+  }, [activeProfile, persist]);
+
+  const addLearnedWords = useCallback((words: Word[]) => {
+    if (!activeProfile) return;
+    persist({ ...activeProfile, learnedWords: mergeLearnedWords(activeProfile.learnedWords, words) });
+  }, [activeProfile, persist]);
+
+  return {
+    profiles,
+    activeProfile,
+    loadError,
+    retryLoad: loadProfiles,
+    // Defaults fill in settings added after the profile was created
+    settings: { ...DEFAULT_PROFILE_SETTINGS, ...activeProfile?.settings },
+    selectProfile,
+    addProfile,
+    removeProfile,
+    updateSettings,
+    addLearnedWords,
+  };
+};
@@ -13,3 +13,11 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// Offline support. sw.js only exists in production builds, so registering
+// fails quietly under the dev server.
+if ('serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => console.warn("Service worker registration failed:", error));
+  });
+}
@@ -1,252 +1,393 @@
 import type { Handler, HandlerEvent } from "@netlify/functions";
-import { GoogleGenAI, Type, Modality } from "@google/genai";
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
+import { ModerationEvent, StoryBible, Word } from "../../types";
+import { getAIProvider, ImageAspectRatio } from "../lib/aiProvider";
+import { assetKey, getAssetStore } from "../lib/assetCache";
+import { parseMimeType, createWavHeader } from "../lib/wav";
+import { chargeTask, clientFor, limitRequestRate } from "../lib/rateLimit";
+import { errorResponse } from "../lib/errors";
+import { signScene, signBible, isSceneTokenValid, isBibleTokenValid } from "../lib/sceneTokens";
+import { moderateText, moderationEvent, screenClientText, bibleText, REDIRECT_MESSAGES, SAFE_SCENES, SAFE_TITLES } from "../lib/moderation";
+import {
+    VOCABULARY_BATCH_SIZE, VOCAB_IMAGE_STYLE, SCENE_IMAGE_STYLE, getVocabularyPrompt, getVocabImagePrompt, getSceneImagePrompt, getStoryArcPrompt, getStoryScenePrompt, getStoryTitlePrompt, SAFER_RETRY_INSTRUCTION,
+} from "../lib/prompts";
+import {
+    parseTaskRequest, ProtocolValidationError, ApiErrorResponse, TaskName, TaskPayload, TaskResponse, DEFAULT_AGE_BAND, MAX_WORD_LENGTH, WORD_PATTERN, MAX_ARC_GOAL_LENGTH, MAX_BIBLE_CHARACTERS, MAX_BIBLE_FIELD_LENGTH, SceneType, arcStagesFor,
+} from "../../apiProtocol";
 
-// --- INITIALIZE CLIENT ---
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// --- INITIALIZE PROVIDER ---
+// Resolved lazily so a missing API key only fails the request that needs it,
+// and so AI_PROVIDER=local can run the whole function offline.
+const ai = () => getAIProvider();
 
+// Every handler receives a payload already validated against the shared
+// protocol, and a way to charge the task to the client's budget.
+type ChargeTask = () => Promise<void>;
+type TaskHandler<K extends TaskName> = (payload: TaskPayload<K>, charge: ChargeTask) => Promise<TaskResponse<K>>;
 
-// --- WAV CONVERSION HELPERS ---
-// These functions convert the raw audio data from Gemini TTS into a
-// browser-playable WAV file format.
-
-interface WavConversionOptions {
-  numChannels: number;
-  sampleRate: number;
-  bitsPerSample: number;
-}
-
-function parseMimeType(mimeType: string): WavConversionOptions {
-  const defaultOptions = { numChannels: 1, sampleRate: 24000, bitsPerSample: 16 };
-  if (!mimeType) return defaultOptions;
-  
-  try {
-    const [fileType, ...params] = mimeType.split(';').map(s => s.trim());
-    const [_, format] = fileType.split('/');
-
-    const options: Partial<WavConversionOptions> = {};
-
-    if (format && format.toLowerCase().startsWith('l')) {
-        const bits = parseInt(format.slice(1), 10);
-        if (!isNaN(bits)) options.bitsPerSample = bits;
-    }
-
-    for (const param of params) {
-        const [key, value] = param.split('=').map(s => s.trim());
-        if (key === 'rate' && !isNaN(parseInt(value, 10))) {
-            options.sampleRate = parseInt(value, 10);
-        }
-    }
-    return { ...defaultOptions, ...options };
-  } catch(e) {
-    console.error("Error parsing MIME type, using defaults:", e);
-    return defaultOptions;
-  }
-}
-
-function createWavHeader(dataLength: number, options: WavConversionOptions): Buffer {
-  const { numChannels, sampleRate, bitsPerSample } = options;
-  const byteRate = sampleRate * numChannels * (bitsPerSample / 8);
-  const blockAlign = numChannels * (bitsPerSample / 8);
-  const buffer = Buffer.alloc(44);
-
-  buffer.write('RIFF', 0);
-  buffer.writeUInt32LE(36 + dataLength, 4);
-  buffer.write('WAVE', 8);
-  buffer.write('fmt ', 12);
-  buffer.writeUInt32LE(16, 16); // PCM
-  buffer.writeUInt16LE(1, 20); // AudioFormat 1 = PCM
-  buffer.writeUInt16LE(numChannels, 22);
-  buffer.writeUInt32LE(sampleRate, 24);
-  buffer.writeUInt32LE(byteRate, 28);
-  buffer.writeUInt16LE(blockAlign, 32);
-  buffer.writeUInt16LE(bitsPerSample, 34);
-  buffer.write('data', 36);
-  buffer.writeUInt32LE(dataLength, 40);
-
-  return buffer;
-}
+// Charged by their handlers only on a cache miss, so a replay costs nothing;
+// every other task is charged before its handler runs
+const CHARGED_ON_CACHE_MISS = new Set<TaskName>(['generateGeminiSpeech', 'generateImage', 'generateSceneImage']);
 
 
 // --- HANDLER FOR GEMINI SPEECH ---
-const handleGenerateGeminiSpeech = async (payload: { text: string; voice: string; language: string }) => {
-    const { text, voice } = payload;
-    
-    // Using the Gemini TTS model as requested
-    const model = 'gemini-2.5-pro-preview-tts';
-    const contents = [{ role: 'user', parts: [{ text }] }];
-    const config = {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-            voiceConfig: {
-                prebuiltVoiceConfig: { voiceName: voice }
-            }
-        },
-    };
-
-    const response = await ai.models.generateContentStream({ model, config, contents });
+// The finished WAV is cached by text, voice and language, so replays and
+// other children hearing the same line don't synthesize it again. Only text
+// that passes the safety check is ever synthesized.
+const handleGenerateGeminiSpeech: TaskHandler<'generateGeminiSpeech'> = async (payload, charge) => {
+    const { text, voice, language } = payload;
+    const provider = ai();
+    const key = assetKey('speech', provider.name, voice, language, text);
+    const store = getAssetStore();
 
-    let audioBase64 = '';
-    let mimeType = '';
-    for await (const chunk of response) {
-        if (chunk.candidates?.[0]?.content?.parts?.[0]?.inlineData) {
-            const inlineData = chunk.candidates[0].content.parts[0].inlineData;
-            audioBase64 += inlineData.data;
-            if (!mimeType) mimeType = inlineData.mimeType;
-        }
-    }
+    const cached = await store.get(key).catch(error => {
+        console.error("Speech cache read failed:", error);
+        return null;
+    });
+    if (cached) return { audioContent: cached.data.toString('base64'), mimeType: cached.mimeType };
 
-    if (!audioBase64) throw new Error("Audio generation failed, no data received.");
+    await charge();
+    await screenClientText(provider, [text]);
+    const { pcm, mimeType } = await provider.generateSpeech(text, voice);
     
     // Convert raw audio to browser-playable WAV format
-    const audioBuffer = Buffer.from(audioBase64, 'base64');
     const wavOptions = parseMimeType(mimeType);
-    const wavHeader = createWavHeader(audioBuffer.length, wavOptions);
-    const wavBuffer = Buffer.concat([wavHeader, audioBuffer]);
+    const wavHeader = createWavHeader(pcm.length, wavOptions);
+    const wavBuffer = Buffer.concat([wavHeader, pcm]);
 
+    await store.put(key, { data: wavBuffer, mimeType: 'audio/wav' })
+        .catch(error => console.error("Speech cache write failed:", error));
     return { audioContent: wavBuffer.toString('base64'), mimeType: 'audio/wav' };
 };
 
 // --- HANDLER FOR VOCABULARY LIST ---
-const handleGenerateVocabulary = async (payload: { category: string }) => {
-    const { category } = payload;
-    const prompt = `Generate a list of 5 simple vocabulary words for a 3-6 year old child related to the category "${category}". For each word, provide both the Thai and English translation.`;
+const handleGenerateVocabulary: TaskHandler<'generateVocabularyList'> = async (payload) => {
+    const { category, ageBand = DEFAULT_AGE_BAND, exclude = [] } = payload;
+    await screenClientText(ai(), exclude);
+    const prompt = getVocabularyPrompt(category, ageBand, exclude);
     
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    words: {
-                        type: Type.ARRAY,
-                        description: "An array of 5 vocabulary words.",
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                thai: { type: Type.STRING, description: "The Thai word." },
-                                english: { type: Type.STRING, description: "The English word." },
-                            },
-                            required: ['thai', 'english'],
-                        },
+    const jsonResponse = await ai().generateJson<{ words: { thai: string; english: string }[] }>(prompt, {
+        type: Type.OBJECT,
+        properties: {
+            words: {
+                type: Type.ARRAY,
+                description: `An array of ${VOCABULARY_BATCH_SIZE} vocabulary words.`,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        thai: { type: Type.STRING, description: "The Thai word." },
+                        english: { type: Type.STRING, description: "The English word." },
                     },
+                    required: ['thai', 'english'],
                 },
-                required: ['words'],
             },
         },
+        required: ['words'],
     });
 
-    const jsonResponse = JSON.parse(response.text);
-    return jsonResponse.words;
+    // The model doesn't always honour the exclusion list or the word rules,
+    // so enforce them here
+    const seen = new Set(exclude.map(w => w.toLowerCase()));
+    const words = jsonResponse.words
+        .map(({ thai, english }) => ({ thai: String(thai ?? '').trim(), english: String(english ?? '').trim() }))
+        .filter(({ thai, english }) => {
+            const key = english.toLowerCase();
+            if (!isWellFormedWord(thai) || !isWellFormedWord(english) || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    return screenWords(words);
+};
+
+const isWellFormedWord = (text: string): boolean => text.length > 0 && text.length <= MAX_WORD_LENGTH && WORD_PATTERN.test(text);
+
+// New words go on cards and into picture prompts, so any that don't pass
+// moderation are dropped. The batch is checked in one go, and word by word
+// only if it was flagged.
+const screenWords = async (words: Word[]): Promise<Word[]> => {
+    const provider = ai();
+    const wordText = ({ thai, english }: Word) => `${english} (${thai})`;
+    if (words.length === 0 || !await moderateText(provider, words.map(wordText).join('\n'))) return words;
+
+    const passed: Word[] = [];
+    for (const word of words) {
+        const category = await moderateText(provider, wordText(word));
+        if (category) console.warn(`Dropped a vocabulary word flagged as ${category}:`, wordText(word));
+        else passed.push(word);
+    }
+    return passed;
+};
+
+// --- CACHED IMAGE GENERATION ---
+// Returns a data URL, reusing a stored picture when the same prompt, aspect
+// ratio, style and provider were seen before. A cache failure only costs a
+// regeneration, never the request. A new picture is charged to the client,
+// and `clientText`, what the browser put in the prompt, is screened first.
+const generateCachedImage = async (prompt: string, aspectRatio: ImageAspectRatio, style: string, charge: ChargeTask, clientText: string[] = []): Promise<string> => {
+    const provider = ai();
+    const key = assetKey('image', provider.name, style, aspectRatio, prompt);
+    const store = getAssetStore();
+
+    const cached = await store.get(key).catch(error => {
+        console.error("Image cache read failed:", error);
+        return null;
+    });
+    if (cached) return `data:${cached.mimeType};base64,${cached.data.toString('base64')}`;
+
+    await charge();
+    await screenClientText(provider, clientText);
+    const { imageBytes, mimeType } = await provider.generateImage(prompt, aspectRatio);
+    await store.put(key, { data: Buffer.from(imageBytes, 'base64'), mimeType })
+        .catch(error => console.error("Image cache write failed:", error));
+    return `data:${mimeType};base64,${imageBytes}`;
 };
 
 // --- HANDLER FOR IMAGE GENERATION ---
-const handleGenerateImage = async (payload: { prompt: string, aspectRatio: string }) => {
-    const { prompt, aspectRatio } = payload;
-    const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
-        prompt: prompt,
-        config: {
-            numberOfImages: 1,
-            outputMimeType: 'image/jpeg',
-            aspectRatio: aspectRatio as "1:1" | "16:9" | "9:16" | "4:3" | "3:4",
+const handleGenerateImage: TaskHandler<'generateImage'> = async (payload, charge) => {
+    const { word } = payload;
+    // "Dog" and "dog" are the same picture
+    const imageUrl = await generateCachedImage(getVocabImagePrompt(word.toLowerCase()), '1:1', VOCAB_IMAGE_STYLE, charge, [word]);
+    return { imageUrl };
+};
+
+// --- HANDLER FOR STORY ARC PLANNING ---
+// The stages are fixed here from the scene count; the model only writes what
+// happens in each, so a plan always has a setup and a proper ending.
+const handleGenerateStoryArc: TaskHandler<'generateStoryArc'> = async (payload) => {
+    const { storyTone, words, sceneCount } = payload;
+    const stages = arcStagesFor(sceneCount);
+    await screenClientText(ai(), words);
+
+    const plan = await ai().generateJson<{ scenes: string[] }>(getStoryArcPrompt(storyTone, words, stages), {
+        type: Type.OBJECT,
+        properties: {
+            scenes: {
+                type: Type.ARRAY,
+                description: `Exactly ${sceneCount} one-sentence plans, one per scene, in order.`,
+                items: { type: Type.STRING },
+            },
         },
+        required: ['scenes'],
     });
 
-    const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-    const imageUrl = `data:image/jpeg;base64,${base64ImageBytes}`;
-    return { imageUrl };
+    // A scene the model skipped keeps its stage without a goal; the scene prompt
+    // still describes what the stage is for.
+    return {
+        beats: stages.map((stage, i) => ({
+            stage,
+            goal: plan.scenes?.[i]?.trim().slice(0, MAX_ARC_GOAL_LENGTH) || undefined,
+        })),
+    };
 };
 
-// --- HANDLER FOR STORY SCENE GENERATION ---
-const handleGenerateFullStoryScene = async (payload: { prompt: string, isImageGenerationEnabled: boolean }) => {
-    const { prompt, isImageGenerationEnabled } = payload;
-    
-    const textResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: {
+// --- STORY BIBLE ---
+// The opening scene also returns a character sheet, which the browser sends
+// back with every later scene and picture. It is trimmed to the protocol's
+// limits here, and dropped entirely if the model left anything out.
+const BIBLE_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    description: "The character and setting sheet for the whole story, in English.",
+    properties: {
+        characters: {
+            type: Type.ARRAY,
+            description: `The main characters, at most ${MAX_BIBLE_CHARACTERS}.`,
+            items: {
                 type: Type.OBJECT,
                 properties: {
-                    text: { type: Type.STRING, description: "The paragraph for this scene of the story. Should be simple and for a young child." },
-                    choices: {
-                        type: Type.ARRAY,
-                        description: "A list of 2 simple, distinct choices for the child to continue the story. This array should be empty for the final scene.",
-                        items: { type: Type.STRING },
-                    },
+                    name: { type: Type.STRING, description: "The character's name, as used in the story." },
+                    species: { type: Type.STRING, description: "What kind of creature or person they are." },
+                    colors: { type: Type.STRING, description: "Their main colors." },
+                    clothing: { type: Type.STRING, description: "What they wear, or \"nothing\"." },
                 },
-                required: ['text', 'choices'],
+                required: ['name', 'species', 'colors', 'clothing'],
+            },
+        },
+        setting: { type: Type.STRING, description: "Where the story happens, in a few words." },
+        artStyle: { type: Type.STRING, description: "The illustration style for every picture, in a few words." },
+    },
+    required: ['characters', 'setting', 'artStyle'],
+};
+
+const toStoryBible = (raw: Partial<StoryBible> | undefined): StoryBible | undefined => {
+    const field = (value: unknown): string =>
+        typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().slice(0, MAX_BIBLE_FIELD_LENGTH) : '';
+    const characters = (raw?.characters ?? []).slice(0, MAX_BIBLE_CHARACTERS)
+        .map(c => ({ name: field(c?.name), species: field(c?.species), colors: field(c?.colors), clothing: field(c?.clothing) }))
+        .filter(c => c.name && c.species && c.colors && c.clothing);
+    const setting = field(raw?.setting);
+    const artStyle = field(raw?.artStyle);
+    return characters.length > 0 && setting && artStyle ? { characters, setting, artStyle } : undefined;
+};
+
+// --- HANDLER FOR STORY SCENE GENERATION ---
+// A scene that doesn't pass moderation is written again with a firmer
+// instruction; after that, a stock scene keeps the story going.
+const MAX_SCENE_REWRITES = 2;
+
+type GeneratedScene = { text: string; choices: string[]; bible?: StoryBible };
+
+const writeScene = async (prompt: string, sceneType: SceneType): Promise<GeneratedScene> => {
+    const isOpening = sceneType === 'initial';
+    const sceneContent = await ai().generateJson<{ text: string; choices: string[]; bible?: Partial<StoryBible> }>(prompt, {
+        type: Type.OBJECT,
+        properties: {
+            text: { type: Type.STRING, description: "The paragraph for this scene of the story. Should be simple and for a young child." },
+            choices: {
+                type: Type.ARRAY,
+                description: "A list of 2 simple, distinct choices for the child to continue the story. This array should be empty for the final scene.",
+                items: { type: Type.STRING },
             },
+            ...(isOpening ? { bible: BIBLE_SCHEMA } : {}),
         },
+        required: isOpening ? ['text', 'choices', 'bible'] : ['text', 'choices'],
     });
-    
-    const sceneContent = JSON.parse(textResponse.text);
-    const { text, choices } = sceneContent;
-
-    let imageUrl = `https://loremflickr.com/1280/720/storybook,illustration,${text.split(' ').slice(0, 3).join(',')}`;
-    if (isImageGenerationEnabled) {
-        const imagePrompt = `A beautiful and simple illustration for a children's storybook, in a whimsical and colorful style, with soft lighting. The scene is: "${text}"`;
-        try {
-            const imageResponse = await ai.models.generateImages({
-                model: 'imagen-4.0-generate-001',
-                prompt: imagePrompt,
-                config: {
-                    numberOfImages: 1,
-                    outputMimeType: 'image/jpeg',
-                    aspectRatio: '16:9',
-                },
-            });
-            const base64ImageBytes = imageResponse.generatedImages[0].image.imageBytes;
-            imageUrl = `data:image/jpeg;base64,${base64ImageBytes}`;
-        } catch (imgError) {
-            console.error("Image generation failed, using fallback:", imgError);
+    // The closing scene never offers choices, whatever the model returned.
+    const choices = sceneType === 'final' ? [] : (sceneContent.choices ?? []).slice(0, 2);
+    const bible = isOpening ? toStoryBible(sceneContent.bible) : undefined;
+    return { text: sceneContent.text, choices, bible };
+};
+
+// Everything the child will hear or see, including the names and looks in the sheet
+const sceneToScreen = ({ text, choices, bible }: GeneratedScene): string => [text, ...choices, ...bibleText(bible)].join('\n');
+
+const handleGenerateFullStoryScene: TaskHandler<'generateFullStoryScene'> = async (payload) => {
+    const { sceneType, language, storyTone, words, storySoFar, userChoice, arc, bible, bibleToken } = payload;
+    const provider = ai();
+
+    // Only a sheet the function wrote goes back into a prompt
+    if (bible && !isBibleTokenValid(bibleToken, bible)) {
+        throw new ProtocolValidationError([{ field: 'bibleToken', message: 'does not match the bible' }]);
+    }
+
+    // An unsuitable idea from the child is gently turned aside before anything
+    // is written. Every scene after the opening one follows an idea, the final
+    // one included, and the protocol requires it, so none goes unscreened.
+    if (userChoice) {
+        const category = await moderateText(provider, userChoice);
+        if (category) {
+            return {
+                text: REDIRECT_MESSAGES[language],
+                choices: [],
+                redirected: true,
+                moderation: [moderationEvent('input', category, 'redirected', userChoice)],
+            };
+        }
+    }
+
+    // The rest comes back from the browser too, so it is screened before it reaches the prompt
+    await screenClientText(provider, [storySoFar, arc?.goal, ...words, ...bibleText(bible)]);
+
+    const prompt = getStoryScenePrompt(language, storyTone, words, storySoFar ?? null, userChoice ?? null, sceneType, arc ?? null, bible ?? null);
+    const moderation: ModerationEvent[] = [];
+    let scene: GeneratedScene | null = null;
+
+    for (let attempt = 0; attempt <= MAX_SCENE_REWRITES; attempt++) {
+        const candidate = await writeScene(attempt === 0 ? prompt : prompt + SAFER_RETRY_INSTRUCTION, sceneType);
+        const category = await moderateText(provider, sceneToScreen(candidate));
+        if (!category) {
+            scene = candidate;
+            break;
         }
+        const isLastAttempt = attempt === MAX_SCENE_REWRITES;
+        moderation.push(moderationEvent('output', category, isLastAttempt ? 'replaced' : 'regenerated', candidate.text));
     }
 
-    return { text, choices, imageUrl };
+    if (!scene) {
+        const safe = SAFE_SCENES[language];
+        scene = sceneType === 'final' ? { text: safe.final, choices: [] } : { ...safe.next };
+    }
+
+    // The picture is a separate task, so the child can start reading straight
+    // away; the token lets that task draw this scene and nothing else.
+    const { text, choices, bible: storyBible } = scene;
+    return {
+        text,
+        choices,
+        ...(storyBible ? { bible: storyBible, bibleToken: signBible(storyBible) } : {}),
+        imageToken: signScene(text, storyBible ?? bible ?? null),
+        ...(moderation.length > 0 ? { moderation } : {}),
+    };
+};
+
+// --- HANDLER FOR SCENE ILLUSTRATION ---
+// The text and sheet were screened when the scene was written, and the token
+// proves they are that scene's, so this is never an open image generator.
+const handleGenerateSceneImage: TaskHandler<'generateSceneImage'> = async (payload, charge) => {
+    const { sceneText, bible, imageToken } = payload;
+    if (!isSceneTokenValid(imageToken, sceneText, bible ?? null)) {
+        throw new ProtocolValidationError([{ field: 'imageToken', message: 'does not match a scene written by the storyteller' }]);
+    }
+    const imageUrl = await generateCachedImage(getSceneImagePrompt(sceneText, bible ?? null), '16:9', SCENE_IMAGE_STYLE, charge);
+    return { imageUrl };
 };
 
 // --- HANDLER FOR STORY TITLE ---
-const handleGenerateStoryTitle = async (payload: { prompt: string }) => {
-    const { prompt } = payload;
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-    });
-    return { title: response.text.trim().replace(/"/g, '') };
+const handleGenerateStoryTitle: TaskHandler<'generateStoryTitle'> = async (payload) => {
+    const { storyText, language } = payload;
+    const provider = ai();
+
+    // The story comes back from the browser; a title is never written for one that doesn't pass
+    const storyCategory = await moderateText(provider, storyText);
+    if (storyCategory) {
+        return { title: SAFE_TITLES[language], moderation: [moderationEvent('input', storyCategory, 'replaced', storyText)] };
+    }
+
+    const title = (await provider.generateText(getStoryTitlePrompt(storyText, language))).trim().replace(/"/g, '');
+
+    const category = await moderateText(provider, title);
+    if (category) {
+        return { title: SAFE_TITLES[language], moderation: [moderationEvent('output', category, 'replaced', title)] };
+    }
+    return { title };
 };
 
 // --- MAIN NETLIFY FUNCTION HANDLER ---
 const handler: Handler = async (event: HandlerEvent) => {
     if (event.httpMethod !== 'POST') {
-        return { statusCode: 405, body: JSON.stringify({ message: 'Method Not Allowed' }) };
+        const notAllowed: ApiErrorResponse = { code: 'validation', message: 'Method Not Allowed' };
+        return { statusCode: 405, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(notAllowed) };
     }
 
+    let body: unknown;
     try {
-        const { task, payload } = JSON.parse(event.body || '{}');
+        body = JSON.parse(event.body || '{}');
+    } catch (e) {
+        const invalidJson: ApiErrorResponse = { code: 'validation', message: 'Request body must be valid JSON.' };
+        return { statusCode: 400, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(invalidJson) };
+    }
+
+    try {
+        const request = parseTaskRequest(body);
+        const client = clientFor(event);
+        await limitRequestRate(client);
+        // Charged after validation, so a malformed request costs nothing
+        const charge = () => chargeTask(request.task, client);
+        if (!CHARGED_ON_CACHE_MISS.has(request.task)) await charge();
 
         let result;
-        switch (task) {
+        switch (request.task) {
             case 'generateGeminiSpeech':
-                result = await handleGenerateGeminiSpeech(payload);
+                result = await handleGenerateGeminiSpeech(request.payload, charge);
                 break;
             case 'generateVocabularyList':
-                result = await handleGenerateVocabulary(payload);
+                result = await handleGenerateVocabulary(request.payload, charge);
                 break;
             case 'generateImage':
-                result = await handleGenerateImage(payload);
+                result = await handleGenerateImage(request.payload, charge);
+                break;
+            case 'generateStoryArc':
+                result = await handleGenerateStoryArc(request.payload, charge);
                 break;
             case 'generateFullStoryScene':
-                result = await handleGenerateFullStoryScene(payload);
+                result = await handleGenerateFullStoryScene(request.payload, charge);
+                break;
+            case 'generateSceneImage':
+                result = await handleGenerateSceneImage(request.payload, charge);
                 break;
             case 'generateStoryTitle':
-                result = await handleGenerateStoryTitle(payload);
+                result = await handleGenerateStoryTitle(request.payload, charge);
                 break;
-            default:
-                return { statusCode: 400, body: JSON.stringify({ message: `Unknown task: ${task}` }) };
         }
         
         return {
@@ -256,23 +397,7 @@ const handler: Handler = async (event: HandlerEvent) => {
         };
 
     } catch (error) {
-        console.error(`Error processing task:`, error);
-        // Attempt to parse Gemini API errors for clearer client-side messages
-        let errorMessage = (error as Error).message;
-        try {
-            const nestedError = JSON.parse(errorMessage);
-            if (nestedError.error && nestedError.error.message) {
-                errorMessage = nestedError.error.message;
-            }
-        } catch (e) { /* Not a JSON error, use original message */ }
-
-        return { 
-            statusCode: 500, 
-            body: JSON.stringify({ 
-                message: "An error occurred on the server.",
-                error: errorMessage
-            }) 
-        };
+        return errorResponse(error);
     }
 };
 
@@ -0,0 +1,93 @@
+import type { Schema } from "@google/genai";
+import { createGeminiProvider } from "./geminiProvider";
+import { createLocalProvider } from "./localProvider";
+import { UpstreamError, classifyUpstreamError } from "./errors";
+
+// --- AI PROVIDER INTERFACE ---
+// Every task handler talks to the model through this interface instead of a
+// concrete SDK client, so the function can run against Gemini in production
+// or against the deterministic local provider for offline demos and testing.
+
+export type ImageAspectRatio = "1:1" | "16:9" | "9:16" | "4:3" | "3:4";
+
+export interface GeneratedImage {
+  /** Base64-encoded image bytes. */
+  imageBytes: string;
+  mimeType: string;
+}
+
+export interface GeneratedSpeech {
+  /** Raw PCM samples, to be wrapped with a WAV header by the caller. */
+  pcm: Buffer;
+  /** The PCM MIME type, e.g. "audio/L16;rate=24000". */
+  mimeType: string;
+}
+
+// Each call may be given a signal; an aborted call should stop as soon as it can.
+export interface AIProvider {
+  name: string;
+  generateJson<T>(prompt: string, schema: Schema, signal?: AbortSignal): Promise<T>;
+  generateText(prompt: string, signal?: AbortSignal): Promise<string>;
+  generateImage(prompt: string, aspectRatio: ImageAspectRatio, signal?: AbortSignal): Promise<GeneratedImage>;
+  generateSpeech(text: string, voice: string, signal?: AbortSignal): Promise<GeneratedSpeech>;
+}
+
+const DEFAULT_UPSTREAM_TIMEOUT_MS = 20000;
+
+/**
+ * Gives every call a time limit, aborting it once the limit passes, and
+ * sorts whatever a call throws into the protocol's error codes.
+ */
+const withUpstreamGuards = (provider: AIProvider, timeoutMs: number): AIProvider => {
+  const run = async <R>(call: (signal: AbortSignal) => Promise<R>): Promise<R> => {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Raced rather than trusted to the signal, in case a call ignores it
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new UpstreamError('upstreamTimeout', `${provider.name} did not answer within ${timeoutMs}ms.`));
+      }, timeoutMs);
+    });
+    try {
+      return await Promise.race([call(controller.signal), timedOut]);
+    } catch (error) {
+      throw classifyUpstreamError(error);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    name: provider.name,
+    generateJson: <T>(prompt: string, schema: Schema) => run(signal => provider.generateJson<T>(prompt, schema, signal)),
+    generateText: (prompt) => run(signal => provider.generateText(prompt, signal)),
+    generateImage: (prompt, aspectRatio) => run(signal => provider.generateImage(prompt, aspectRatio, signal)),
+    generateSpeech: (text, voice) => run(signal => provider.generateSpeech(text, voice, signal)),
+  };
+};
+
+let cachedProvider: AIProvider | null = null;
+
+/**
+ * Returns the provider selected by the AI_PROVIDER environment variable
+ * ("gemini" or "local"), defaulting to Gemini. Every call is limited to
+ * UPSTREAM_TIMEOUT_MS (20 seconds by default).
+ */
+export const getAIProvider = (): AIProvider => {
+  if (cachedProvider) return cachedProvider;
+
+  const name = (process.env.AI_PROVIDER || 'gemini').toLowerCase();
+  switch (name) {
+    case 'gemini':
+      cachedProvider = createGeminiProvider(process.env.API_KEY);
+      break;
+    case 'local':
+      cachedProvider = createLocalProvider();
+      break;
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${name}". Expected "gemini" or "local".`);
+  }
+  cachedProvider = withUpstreamGuards(cachedProvider, Number(process.env.UPSTREAM_TIMEOUT_MS) || DEFAULT_UPSTREAM_TIMEOUT_MS);
+  return cachedProvider;
+};
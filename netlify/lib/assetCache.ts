@@ -0,0 +1,122 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// --- GENERATED ASSET CACHE ---
+// Generated images and speech are expensive and deterministic enough to
+// reuse, so they are stored under a hash of everything that went into making
+// them. The store is pluggable; the filesystem store is the stand-in used
+// locally and on a single function instance, and a shared blob store can
+// replace it.
+
+export interface CachedAsset {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface AssetStore {
+  get(key: string): Promise<CachedAsset | null>;
+  put(key: string, asset: CachedAsset): Promise<void>;
+}
+
+/** A stable, content-addressed key: the SHA-256 of every input, in order. */
+export const assetKey = (...parts: string[]): string =>
+  createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+
+const DEFAULT_MAX_BYTES = 200 * 1024 * 1024;
+
+// Evicting to below the limit leaves room for many writes before the next eviction
+const EVICT_TO_FRACTION = 0.8;
+
+/**
+ * Stores each asset as one file: the MIME type on the first line, then the
+ * raw bytes. File modification times double as last-access times, so the
+ * least recently used files are evicted once the directory grows past maxBytes.
+ * The directory is only listed on the first write and when the running total
+ * of written bytes goes over the limit, not on every write.
+ */
+export const createFileSystemStore = (directory: string, maxBytes: number): AssetStore => {
+  const ready = fs.mkdir(directory, { recursive: true });
+  const fileFor = (key: string) => path.join(directory, key);
+
+  // Files written by another instance aren't counted until the next listing
+  let totalBytes: number | null = null;
+
+  /** Lists the directory and, if over the limit, evicts; returns the new total. */
+  const evict = async (): Promise<number> => {
+    const names = await fs.readdir(directory);
+    const files = await Promise.all(names.map(async name => {
+      const stats = await fs.stat(path.join(directory, name)).catch(() => null);
+      return stats ? { name, size: stats.size, usedAt: stats.mtimeMs } : null;
+    }));
+    const existing = files.filter((f): f is NonNullable<typeof f> => f !== null).sort((a, b) => a.usedAt - b.usedAt);
+    let total = existing.reduce((sum, f) => sum + f.size, 0);
+    if (total <= maxBytes) return total;
+    for (const file of existing) {
+      if (total <= maxBytes * EVICT_TO_FRACTION) break;
+      await fs.rm(path.join(directory, file.name), { force: true });
+      total -= file.size;
+    }
+    return total;
+  };
+
+  return {
+    async get(key) {
+      await ready;
+      try {
+        const contents = await fs.readFile(fileFor(key));
+        const newline = contents.indexOf(0x0a);
+        if (newline < 0) return null;
+        const now = new Date();
+        await fs.utimes(fileFor(key), now, now).catch(() => undefined);
+        return { mimeType: contents.subarray(0, newline).toString('utf8'), data: contents.subarray(newline + 1) };
+      } catch {
+        return null;
+      }
+    },
+    async put(key, asset) {
+      await ready;
+      // Write then rename, so a concurrent read never sees a half-written file
+      const temporary = `${fileFor(key)}.${process.pid}.tmp`;
+      const contents = Buffer.concat([Buffer.from(`${asset.mimeType}\n`, 'utf8'), asset.data]);
+      await fs.writeFile(temporary, contents);
+      await fs.rename(temporary, fileFor(key));
+      totalBytes = totalBytes === null ? await evict() : totalBytes + contents.length;
+      if (totalBytes > maxBytes) totalBytes = await evict();
+    },
+  };
+};
+
+/** A store that never holds anything, for CACHE_STORE=none. */
+const noCache: AssetStore = {
+  get: async () => null,
+  put: async () => undefined,
+};
+
+let cachedStore: AssetStore | null = null;
+
+/**
+ * Returns the store selected by the CACHE_STORE environment variable
+ * ("filesystem" or "none"). Defaults to the filesystem under CACHE_DIR, or
+ * the system temp directory, capped at CACHE_MAX_BYTES.
+ */
+export const getAssetStore = (): AssetStore => {
+  if (cachedStore) return cachedStore;
+
+  const name = (process.env.CACHE_STORE || 'filesystem').toLowerCase();
+  switch (name) {
+    case 'filesystem': {
+      const directory = process.env.CACHE_DIR || path.join(os.tmpdir(), 'imagitale-cache');
+      const maxBytes = Number(process.env.CACHE_MAX_BYTES) || DEFAULT_MAX_BYTES;
+      cachedStore = createFileSystemStore(directory, maxBytes);
+      break;
+    }
+    case 'none':
+      cachedStore = noCache;
+      break;
+    default:
+      throw new Error(`Unknown CACHE_STORE "${name}". Expected "filesystem" or "none".`);
+  }
+  return cachedStore;
+};
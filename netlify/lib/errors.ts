@@ -0,0 +1,74 @@
+import { API_ERROR_STATUS, ApiErrorCode, ApiErrorResponse, ProtocolValidationError } from "../../apiProtocol";
+import { RateLimitError } from "./rateLimit";
+import { UnsafeInputError } from "./moderation";
+
+// --- ERROR TAXONOMY ---
+// Every failure leaves the function as an ApiErrorResponse with one of the
+// protocol's error codes. Model failures are sorted into codes as close to
+// the SDK call as possible, and the catch-all in the handler turns whatever
+// reaches it into a response.
+
+/** A failure of the model or the call to it, already given its error code. */
+export class UpstreamError extends Error {
+  constructor(public code: ApiErrorCode, message: string, public retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+// The model's quota doesn't say when it frees up, so ask for a short wait
+const UPSTREAM_QUOTA_RETRY_SECONDS = 60;
+
+/** Sorts an SDK or network failure into an error code by its HTTP status or message. */
+export const classifyUpstreamError = (error: unknown): UpstreamError => {
+  if (error instanceof UpstreamError) return error;
+  const status = (error as { status?: unknown } | null)?.status;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (status === 429 || /RESOURCE_EXHAUSTED/.test(message)) {
+    return new UpstreamError('quota', message, UPSTREAM_QUOTA_RETRY_SECONDS);
+  }
+  if (status === 504 || /DEADLINE_EXCEEDED/.test(message)) {
+    return new UpstreamError('upstreamTimeout', message);
+  }
+  if ((typeof status === 'number' && status >= 500) || /UNAVAILABLE|fetch failed|ECONNRESET|ECONNREFUSED|ENOTFOUND|ETIMEDOUT/.test(message)) {
+    return new UpstreamError('upstreamUnavailable', message);
+  }
+  return new UpstreamError('internal', message);
+};
+
+// What the browser is told; the details stay in the function log
+const MESSAGES: Record<ApiErrorCode, string> = {
+  validation: 'Invalid request.',
+  quota: 'The storyteller needs a rest.',
+  upstreamTimeout: 'The storyteller took too long to answer.',
+  safetyBlock: 'The storyteller could not write this one.',
+  upstreamUnavailable: 'The storyteller cannot be reached right now.',
+  internal: 'An error occurred on the server.',
+};
+
+const toApiError = (error: unknown): ApiErrorResponse => {
+  if (error instanceof ProtocolValidationError) {
+    return { code: 'validation', message: MESSAGES.validation, errors: error.errors };
+  }
+  if (error instanceof RateLimitError) {
+    return { code: 'quota', message: MESSAGES.quota, retryAfterSeconds: error.retryAfterSeconds };
+  }
+  if (error instanceof UnsafeInputError) {
+    console.warn(`Refused a request whose text was flagged as ${error.category}.`);
+    return { code: 'safetyBlock', message: MESSAGES.safetyBlock };
+  }
+  const upstream = classifyUpstreamError(error);
+  console.error(`Error processing task (${upstream.code}):`, error);
+  return upstream.retryAfterSeconds === undefined
+    ? { code: upstream.code, message: MESSAGES[upstream.code] }
+    : { code: upstream.code, message: MESSAGES[upstream.code], retryAfterSeconds: upstream.retryAfterSeconds };
+};
+
+/** Builds the HTTP response for any error thrown while handling a request. */
+export const errorResponse = (error: unknown) => {
+  const body = toApiError(error);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (body.retryAfterSeconds !== undefined) headers['Retry-After'] = String(body.retryAfterSeconds);
+  return { statusCode: API_ERROR_STATUS[body.code], headers, body: JSON.stringify(body) };
+};
@@ -0,0 +1,100 @@
+import { FinishReason, GoogleGenAI, Modality } from "@google/genai";
+import type { GenerateContentResponse, Schema } from "@google/genai";
+import type { AIProvider, GeneratedImage, GeneratedSpeech, ImageAspectRatio } from "./aiProvider";
+import { UpstreamError } from "./errors";
+
+const TEXT_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+const TTS_MODEL = 'gemini-2.5-pro-preview-tts';
+
+// --- GEMINI PROVIDER ---
+// The production backend: Gemini for text, Imagen for pictures and the
+// Gemini TTS model for narration.
+
+/** The response's text, or a safetyBlock error if the model refused the prompt or its own answer. */
+const textOf = (response: GenerateContentResponse): string => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === FinishReason.SAFETY || finishReason === FinishReason.PROHIBITED_CONTENT) {
+    throw new UpstreamError('safetyBlock', `Gemini blocked the response (${blockReason ?? finishReason}).`);
+  }
+  if (!response.text) throw new UpstreamError('internal', "Gemini returned an empty response.");
+  return response.text;
+};
+
+export const createGeminiProvider = (apiKey: string | undefined): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generateJson = async <T>(prompt: string, schema: Schema, signal?: AbortSignal): Promise<T> => {
+    const response = await ai.models.generateContent({
+      model: TEXT_MODEL,
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: schema,
+        abortSignal: signal,
+      },
+    });
+    return JSON.parse(textOf(response)) as T;
+  };
+
+  const generateText = async (prompt: string, signal?: AbortSignal): Promise<string> => {
+    const response = await ai.models.generateContent({
+      model: TEXT_MODEL,
+      contents: prompt,
+      config: { abortSignal: signal },
+    });
+    return textOf(response);
+  };
+
+  const generateImage = async (prompt: string, aspectRatio: ImageAspectRatio, signal?: AbortSignal): Promise<GeneratedImage> => {
+    const response = await ai.models.generateImages({
+      model: IMAGE_MODEL,
+      prompt,
+      config: {
+        numberOfImages: 1,
+        outputMimeType: 'image/jpeg',
+        aspectRatio,
+        abortSignal: signal,
+      },
+    });
+    // Imagen leaves a filtered picture out and says why
+    const generated = response.generatedImages?.[0];
+    if (!generated?.image?.imageBytes) {
+      throw generated?.raiFilteredReason
+        ? new UpstreamError('safetyBlock', `Imagen filtered the picture: ${generated.raiFilteredReason}`)
+        : new UpstreamError('internal', "Imagen returned no picture.");
+    }
+    return { imageBytes: generated.image.imageBytes, mimeType: 'image/jpeg' };
+  };
+
+  const generateSpeech = async (text: string, voice: string, signal?: AbortSignal): Promise<GeneratedSpeech> => {
+    const contents = [{ role: 'user', parts: [{ text }] }];
+    const config = {
+      responseModalities: [Modality.AUDIO],
+      abortSignal: signal,
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: voice }
+        }
+      },
+    };
+
+    const response = await ai.models.generateContentStream({ model: TTS_MODEL, config, contents });
+
+    let audioBase64 = '';
+    let mimeType = '';
+    for await (const chunk of response) {
+      if (chunk.candidates?.[0]?.content?.parts?.[0]?.inlineData) {
+        const inlineData = chunk.candidates[0].content.parts[0].inlineData;
+        audioBase64 += inlineData.data;
+        if (!mimeType) mimeType = inlineData.mimeType;
+      }
+    }
+
+    if (!audioBase64) throw new Error("Audio generation failed, no data received.");
+    return { pcm: Buffer.from(audioBase64, 'base64'), mimeType };
+  };
+
+  return { name: 'gemini', generateJson, generateText, generateImage, generateSpeech };
+};
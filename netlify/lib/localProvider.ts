@@ -0,0 +1,179 @@
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
+import type { AIProvider, GeneratedImage, GeneratedSpeech, ImageAspectRatio } from "./aiProvider";
+
+// --- LOCAL PROVIDER ---
+// A deterministic, network-free stand-in for Gemini. The same prompt always
+// produces the same output, which makes it suitable for demos and offline
+// end-to-end runs. Select it with AI_PROVIDER=local.
+
+const SAMPLE_RATE = 24000;
+
+const CANNED_SCENES = [
+  "Once upon a time, a little bunny named Pip found a shiny red ball under a big green tree.",
+  "Pip rolled the ball down the hill, and it bounced all the way to a sparkling blue pond.",
+  "A friendly duck swam over and asked, \"Can I play too?\" Pip smiled and said, \"Yes, let's play together!\"",
+  "The two friends played until the sun turned orange, laughing and splashing all afternoon.",
+  "As the stars came out, Pip and the duck said goodnight, happy to have found a new best friend.",
+];
+
+const CANNED_CHOICES = [
+  "Follow the butterfly",
+  "Look inside the box",
+  "Say hello to the bird",
+  "Climb the little hill",
+  "Sing a happy song",
+  "Share a snack with a friend",
+];
+
+const CANNED_WORDS = [
+  { thai: "กระต่าย", english: "rabbit" },
+  { thai: "ปลา", english: "fish" },
+  { thai: "นก", english: "bird" },
+  { thai: "ดวงดาว", english: "star" },
+  { thai: "ดวงอาทิตย์", english: "sun" },
+  { thai: "ต้นไม้", english: "tree" },
+  { thai: "ลูกบอล", english: "ball" },
+  { thai: "รองเท้า", english: "shoe" },
+];
+
+const PALETTES = [
+  ['#fde68a', '#f9a8d4'],
+  ['#bfdbfe', '#c4b5fd'],
+  ['#bbf7d0', '#fef08a'],
+  ['#fecaca', '#fed7aa'],
+  ['#a5f3fc', '#ddd6fe'],
+];
+
+const ASPECT_SIZES: Record<ImageAspectRatio, [number, number]> = {
+  "1:1": [512, 512],
+  "16:9": [1280, 720],
+  "9:16": [720, 1280],
+  "4:3": [1024, 768],
+  "3:4": [768, 1024],
+};
+
+/** FNV-1a hash, used to seed the generator from the prompt text. */
+const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/** Mulberry32: a tiny seeded PRNG so output is stable for a given prompt. */
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+const escapeXml = (value: string): string =>
+  value.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c] as string));
+
+/**
+ * Builds a value that satisfies the given response schema. Well-known
+ * property names are filled from the canned story content; anything else
+ * gets a neutral placeholder, so new schemas work without changes here.
+ */
+const fillSchema = (schema: Schema, propertyName: string, random: () => number): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(schema.properties ?? {})) {
+        result[key] = fillSchema(child, key, random);
+      }
+      return result;
+    }
+    case Type.ARRAY: {
+      const length = propertyName === 'words' ? 5 : Number(schema.minItems ?? 2);
+      const start = Math.floor(random() * CANNED_WORDS.length);
+      return Array.from({ length }, (_, i) => {
+        if (propertyName === 'words') return CANNED_WORDS[(start + i) % CANNED_WORDS.length];
+        if (propertyName === 'choices') return CANNED_CHOICES[(start + i) % CANNED_CHOICES.length];
+        return fillSchema(schema.items ?? { type: Type.STRING }, propertyName, random);
+      });
+    }
+    case Type.INTEGER:
+    case Type.NUMBER:
+      return Math.floor(random() * 10);
+    case Type.BOOLEAN:
+      return false;
+    default:
+      if (propertyName === 'text') return pick(CANNED_SCENES, random);
+      if (schema.enum?.length) return pick(schema.enum, random);
+      return `${propertyName || 'value'} ${Math.floor(random() * 1000)}`;
+  }
+};
+
+/** Renders a soft gradient card with the first words of the prompt as a caption. */
+const renderPlaceholderSvg = (prompt: string, aspectRatio: ImageAspectRatio, random: () => number): string => {
+  const [width, height] = ASPECT_SIZES[aspectRatio] ?? ASPECT_SIZES["1:1"];
+  const [from, to] = pick(PALETTES, random);
+  const caption = escapeXml(prompt.replace(/\s+/g, ' ').slice(0, 60));
+  const bubbles = Array.from({ length: 6 }, () => {
+    const cx = Math.round(random() * width);
+    const cy = Math.round(random() * height);
+    const r = Math.round(20 + random() * Math.min(width, height) / 6);
+    return `<circle cx="${cx}" cy="${cy}" r="${r}" fill="#ffffff" opacity="0.35"/>`;
+  }).join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/></linearGradient></defs>`
+    + `<rect width="${width}" height="${height}" fill="url(#bg)"/>${bubbles}`
+    + `<text x="50%" y="90%" text-anchor="middle" font-family="sans-serif" font-size="${Math.round(height / 24)}" fill="#4c1d95">${caption}</text>`
+    + `</svg>`;
+};
+
+/**
+ * Synthesizes a gentle sine-wave melody as 16-bit mono PCM, roughly as long
+ * as it would take to read the text aloud. The voice name picks the pitch.
+ */
+const synthesizeTones = (text: string, voice: string): Buffer => {
+  const random = createRandom(hashString(text));
+  const baseFrequency = 220 + (hashString(voice) % 6) * 40;
+  const durationSeconds = Math.min(8, Math.max(1, text.length * 0.06));
+  const noteSamples = Math.floor(SAMPLE_RATE * 0.25);
+  const totalSamples = Math.floor(SAMPLE_RATE * durationSeconds);
+  const pcm = Buffer.alloc(totalSamples * 2);
+
+  let frequency = baseFrequency;
+  for (let i = 0; i < totalSamples; i++) {
+    if (i % noteSamples === 0) frequency = baseFrequency * (1 + Math.floor(random() * 5) / 8);
+    const position = (i % noteSamples) / noteSamples;
+    const envelope = Math.sin(Math.PI * position); // fade each note in and out to avoid clicks
+    const sample = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * 0.3;
+    pcm.writeInt16LE(Math.round(sample * 32767), i * 2);
+  }
+  return pcm;
+};
+
+export const createLocalProvider = (): AIProvider => {
+  const generateJson = async <T>(prompt: string, schema: Schema): Promise<T> =>
+    fillSchema(schema, '', createRandom(hashString(prompt))) as T;
+
+  const generateText = async (prompt: string): Promise<string> => {
+    const random = createRandom(hashString(prompt));
+    return /Thai/.test(prompt) ? pick(["การผจญภัยของกระต่ายน้อย", "เพื่อนใหม่ริมสระน้ำ"], random) : pick(["Pip's Big Day", "The Bunny and the Duck"], random);
+  };
+
+  const generateImage = async (prompt: string, aspectRatio: ImageAspectRatio): Promise<GeneratedImage> => {
+    const svg = renderPlaceholderSvg(prompt, aspectRatio, createRandom(hashString(prompt)));
+    return { imageBytes: Buffer.from(svg, 'utf-8').toString('base64'), mimeType: 'image/svg+xml' };
+  };
+
+  const generateSpeech = async (text: string, voice: string): Promise<GeneratedSpeech> => ({
+    pcm: synthesizeTones(text, voice),
+    mimeType: `audio/L16;codec=pcm;rate=${SAMPLE_RATE}`,
+  });
+
+  return { name: 'local', generateJson, generateText, generateImage, generateSpeech };
+};
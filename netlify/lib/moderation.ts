@@ -0,0 +1,172 @@
+import { Type } from "@google/genai";
+import { Language, ModerationAction, ModerationCategory, ModerationEvent, StoryBible } from "../../types";
+import { MAX_MODERATION_EXCERPT_LENGTH, MODERATION_CATEGORIES } from "../../apiProtocol";
+import type { AIProvider } from "./aiProvider";
+import { getSafetyCheckPrompt } from "./prompts";
+
+// --- CHILD-SAFETY MODERATION ---
+// Screens what children say and what the model writes, in three steps:
+//   1. a blocklist of words that are never acceptable,
+//   2. theme rules for subjects that aren't right for 3-8 year olds,
+//   3. a safety classification by the model, for what word lists can't catch.
+// The first two are instant and always run; the classifier can be turned off
+// with MODERATION_CLASSIFIER=off.
+
+/** Words that are never acceptable, whatever the story. */
+const BLOCKLIST: { category: ModerationCategory; english: string[]; thai: string[] }[] = [
+  {
+    category: 'profanity',
+    english: ['fuck', 'shit', 'bitch', 'bastard', 'asshole', 'damn', 'crap', 'idiot'],
+    thai: ['เหี้ย', 'สัส', 'ควย', 'มึง', 'ระยำ', 'ชาติหมา', 'อีดอก', 'สันดาน'],
+  },
+  {
+    category: 'adult',
+    english: ['sex', 'sexy', 'porn', 'nude', 'boobs'],
+    thai: ['เย็ด', 'เซ็กส์', 'โป๊', 'ลามก', 'อนาจาร'],
+  },
+];
+
+/** Themes that don't belong in stories for young children. */
+const THEME_RULES: { category: ModerationCategory; english: string[]; thai: string[] }[] = [
+  {
+    category: 'violence',
+    english: ['kill', 'murder', 'blood', 'bloody', 'stab', 'beat up', 'torture', 'kidnap', 'war'],
+    thai: ['ฆ่า', 'ฆาตกร', 'เลือด', 'แทง', 'ทำร้าย', 'ทรมาน', 'ลักพาตัว', 'สงคราม'],
+  },
+  {
+    category: 'weapons',
+    english: ['gun', 'rifle', 'pistol', 'bomb', 'grenade'],
+    thai: ['ปืน', 'ระเบิด', 'อาวุธ'],
+  },
+  {
+    category: 'substances',
+    english: ['beer', 'wine', 'vodka', 'whisky', 'drunk', 'cigarette', 'smoke weed', 'drug', 'cocaine'],
+    thai: ['เหล้า', 'เบียร์', 'บุหรี่', 'ยาเสพติด', 'ยาบ้า', 'กัญชา'],
+  },
+  {
+    category: 'selfHarm',
+    english: ['suicide', 'kill myself', 'kill yourself', 'hang myself'],
+    thai: ['ฆ่าตัวตาย', 'ผูกคอ', 'อยากตาย'],
+  },
+  {
+    category: 'frightening',
+    english: ['corpse', 'dead body', 'demon', 'zombie', 'gore'],
+    thai: ['ศพ', 'ซากศพ', 'ปีศาจ', 'ซอมบี้'],
+  },
+];
+
+// Harmless phrases that contain a listed word, removed before matching.
+const ALLOWED_PHRASES = ['water gun', 'bubble gun', 'glue gun', 'root beer', 'ปืนฉีดน้ำ', 'ปืนเป่าฟอง', 'เบียร์ขิง'];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// English matches whole words with common endings ("kill" catches "killed"
+// but not "skill"); Thai is written without spaces, so it matches anywhere.
+const compileRules = (rules: typeof BLOCKLIST) => rules.map(({ category, english, thai }) => ({
+  category,
+  english: new RegExp(`\\b(${english.map(escapeRegExp).join('|')})(s|es|ed|ing|er|ers)?\\b`, 'i'),
+  thai,
+}));
+
+const LEXICAL_RULES = compileRules([...BLOCKLIST, ...THEME_RULES]);
+
+const normalize = (text: string): string => {
+  let result = text.toLowerCase().replace(/\s+/g, ' ');
+  for (const phrase of ALLOWED_PHRASES) result = result.split(phrase).join(' ');
+  return result;
+};
+
+/** The first blocklist or theme rule the text breaks, if any. */
+export const screenText = (text: string): ModerationCategory | null => {
+  const normalized = normalize(text);
+  const rule = LEXICAL_RULES.find(({ english, thai }) => english.test(normalized) || thai.some(term => normalized.includes(term)));
+  return rule?.category ?? null;
+};
+
+const isClassifierEnabled = (): boolean => (process.env.MODERATION_CLASSIFIER || 'on').toLowerCase() !== 'off';
+
+/**
+ * Runs every moderation step and returns the category the text was flagged
+ * for, or null if it's fine. If the classifier itself fails, the word lists'
+ * verdict stands, so a model outage doesn't stop every story.
+ */
+export const moderateText = async (provider: AIProvider, text: string): Promise<ModerationCategory | null> => {
+  const lexical = screenText(text);
+  if (lexical || !isClassifierEnabled()) return lexical;
+
+  try {
+    const verdict = await provider.generateJson<{ flagged: boolean; category: string }>(getSafetyCheckPrompt(text), {
+      type: Type.OBJECT,
+      properties: {
+        flagged: { type: Type.BOOLEAN, description: "True if the text is not suitable for a young child." },
+        category: { type: Type.STRING, enum: [...MODERATION_CATEGORIES], description: "Why it was flagged; 'unsafe' if none fits." },
+      },
+      required: ['flagged', 'category'],
+    });
+    if (!verdict.flagged) return null;
+    return MODERATION_CATEGORIES.includes(verdict.category as ModerationCategory) ? verdict.category as ModerationCategory : 'unsafe';
+  } catch (error) {
+    console.error("Safety classification failed; using the word lists only:", error);
+    return null;
+  }
+};
+
+/** Text from the browser that didn't pass, where there is no gentler answer than refusing. */
+export class UnsafeInputError extends Error {
+  constructor(public category: ModerationCategory) {
+    super(`Request text was flagged as ${category}.`);
+    this.name = 'UnsafeInputError';
+  }
+}
+
+/** Every string in a character sheet, for screening. */
+export const bibleText = (bible: StoryBible | null | undefined): string[] =>
+  bible ? [...bible.characters.flatMap(c => [c.name, c.species, c.colors, c.clothing]), bible.setting, bible.artStyle] : [];
+
+/**
+ * Screens text the browser sent that will go into a prompt or be read aloud,
+ * all parts in one check, and throws UnsafeInputError if it is flagged.
+ */
+export const screenClientText = async (provider: AIProvider, parts: (string | undefined)[]): Promise<void> => {
+  const text = parts.filter(Boolean).join('\n');
+  if (!text) return;
+  const category = await moderateText(provider, text);
+  if (category) throw new UnsafeInputError(category);
+};
+
+/** Builds an event for the parents' log and writes it to the function log too. */
+export const moderationEvent = (direction: ModerationEvent['direction'], category: ModerationCategory, action: ModerationAction, text: string): ModerationEvent => {
+  const event: ModerationEvent = { direction, category, action, excerpt: text.replace(/\s+/g, ' ').trim().slice(0, MAX_MODERATION_EXCERPT_LENGTH) };
+  console.warn("Moderation event:", JSON.stringify(event));
+  return event;
+};
+
+/** Said instead of writing a scene when the child's idea isn't suitable. */
+export const REDIRECT_MESSAGES: Record<Language, string> = {
+  [Language.TH]: "อืม... เรามาคิดเรื่องอื่นกันดีกว่านะ! ลองเลือกทางใหม่ดูสิ",
+  [Language.EN]: "Hmm, let's think of something else! What else could happen?",
+};
+
+/** Stock scenes used when a regenerated scene still doesn't pass. */
+export const SAFE_SCENES: Record<Language, { next: { text: string; choices: string[] }; final: string }> = {
+  [Language.TH]: {
+    next: {
+      text: "แล้วทุกคนก็หายใจลึกๆ ยิ้มให้กัน แล้วมองหาการผจญภัยครั้งใหม่ที่สนุกสนาน",
+      choices: ["ไปเดินเล่นในสวน", "ไปหาเพื่อนใหม่"],
+    },
+    final: "แล้วทุกคนก็กลับบ้านอย่างมีความสุข พร้อมฝันดีกันทั้งคืน จบแล้วจ้า",
+  },
+  [Language.EN]: {
+    next: {
+      text: "Then everyone took a deep breath, smiled at each other, and looked around for a new and happy adventure.",
+      choices: ["Go for a walk in the garden", "Find a new friend"],
+    },
+    final: "And so everyone went home happy, ready for sweet dreams. The end.",
+  },
+};
+
+/** Used when a generated title doesn't pass. */
+export const SAFE_TITLES: Record<Language, string> = {
+  [Language.TH]: "นิทานมหัศจรรย์",
+  [Language.EN]: "A Wonderful Story",
+};
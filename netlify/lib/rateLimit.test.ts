@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Client } from './rateLimit';
+
+const NOW = Date.parse('2026-03-02T10:00:30Z');
+const session = (id: string): Client => ({ ip: '203.0.113.7', session: `session-${id}` });
+
+// The counter store is chosen once per module, so each test loads a fresh copy
+const loadRateLimit = async () => {
+  vi.resetModules();
+  return import('./rateLimit');
+};
+
+describe('rate limits', () => {
+  beforeEach(() => {
+    vi.stubEnv('RATE_LIMIT_STORE', 'memory');
+    vi.useFakeTimers({ now: NOW });
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it('keeps a daily budget per session', async () => {
+    vi.stubEnv('CLIENT_DAILY_BUDGET', '4');
+    const { chargeTask, RateLimitError } = await loadRateLimit();
+    await chargeTask('generateImage', session('a'), NOW);
+    await expect(chargeTask('generateStoryTitle', session('a'), NOW)).rejects.toBeInstanceOf(RateLimitError);
+    await expect(chargeTask('generateImage', session('b'), NOW)).resolves.toBeUndefined();
+  });
+
+  it('takes back a charge that went over a limit, so cheaper tasks still fit', async () => {
+    vi.stubEnv('CLIENT_DAILY_BUDGET', '5');
+    const { chargeTask, RateLimitError } = await loadRateLimit();
+    await chargeTask('generateImage', session('a'), NOW);
+    await expect(chargeTask('generateImage', session('a'), NOW)).rejects.toBeInstanceOf(RateLimitError);
+    await expect(chargeTask('generateStoryTitle', session('a'), NOW)).resolves.toBeUndefined();
+  });
+
+  it("takes back the client's charge when the deployment's budget is spent", async () => {
+    vi.stubEnv('DAILY_BUDGET', '5');
+    const { chargeTask, RateLimitError } = await loadRateLimit();
+    await chargeTask('generateImage', session('a'), NOW);
+    await expect(chargeTask('generateImage', session('b'), NOW)).rejects.toBeInstanceOf(RateLimitError);
+    // Session b was refused, so its own spend is still 0
+    vi.stubEnv('DAILY_BUDGET', '0');
+    vi.stubEnv('CLIENT_DAILY_BUDGET', '4');
+    await expect(chargeTask('generateImage', session('b'), NOW)).resolves.toBeUndefined();
+  });
+
+  it('says when to retry: the next minute for the burst limit', async () => {
+    vi.stubEnv('RATE_LIMIT_PER_MINUTE', '1');
+    const { limitRequestRate } = await loadRateLimit();
+    await limitRequestRate(session('a'), NOW);
+    await expect(limitRequestRate(session('a'), NOW)).rejects.toMatchObject({ retryAfterSeconds: 30 });
+  });
+
+  it('gives an IP address more room than one session, as tablets can share it', async () => {
+    vi.stubEnv('RATE_LIMIT_PER_MINUTE', '1');
+    vi.stubEnv('RATE_LIMIT_PER_MINUTE_PER_IP', '2');
+    const { limitRequestRate, RateLimitError } = await loadRateLimit();
+    await limitRequestRate(session('a'), NOW);
+    await limitRequestRate(session('b'), NOW);
+    await expect(limitRequestRate(session('c'), NOW)).rejects.toBeInstanceOf(RateLimitError);
+  });
+});
@@ -0,0 +1,203 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { HandlerEvent } from "@netlify/functions";
+import { SESSION_HEADER, TaskName } from "../../apiProtocol";
+
+// --- RATE LIMITS AND SPEND BUDGET ---
+// Every request counts against a per-minute burst limit, for its session and,
+// with more room since a school's tablets can share one, its IP address. Its
+// estimated cost is charged to a daily budget for its session (or its address,
+// when the caller sends no session) and for the whole deployment, before any
+// model is called; narration and pictures served from the cache cost nothing.
+// Counters live in a pluggable store; memory and the filesystem are the
+// stand-ins for a single function instance, and a shared key-value store can
+// replace them.
+
+/** Estimated cost units per task, roughly in proportion to what each one costs to run. */
+export const TASK_COSTS: Record<TaskName, number> = {
+  generateGeminiSpeech: 3,
+  generateVocabularyList: 1,
+  generateImage: 4,
+  generateStoryArc: 1,
+  // A scene is also run past the safety check
+  generateFullStoryScene: 2,
+  generateSceneImage: 4,
+  generateStoryTitle: 1,
+};
+
+const DEFAULT_REQUESTS_PER_MINUTE = 40;
+const DEFAULT_IP_REQUESTS_PER_MINUTE = 300;
+const DEFAULT_CLIENT_DAILY_BUDGET = 400;
+const DEFAULT_DAILY_BUDGET = 10000;
+
+export interface CounterStore {
+  /**
+   * Adds `amount` (which may be negative) to the counter under `key` and
+   * returns the new total. The counter starts from zero again after `expiresAt`.
+   */
+  increment(key: string, amount: number, expiresAt: number): Promise<number>;
+}
+
+type Counter = { total: number; expiresAt: number };
+
+export const createMemoryCounterStore = (): CounterStore => {
+  const counters = new Map<string, Counter>();
+  return {
+    async increment(key, amount, expiresAt) {
+      const now = Date.now();
+      counters.forEach((counter, k) => { if (counter.expiresAt <= now) counters.delete(k); });
+      const total = (counters.get(key)?.total ?? 0) + amount;
+      counters.set(key, { total, expiresAt });
+      return total;
+    },
+  };
+};
+
+/**
+ * Keeps each counter in its own small JSON file, so counts survive a
+ * restart of the local dev server. Updates are queued, so concurrent
+ * requests on one instance never lose a count.
+ */
+export const createFileSystemCounterStore = (directory: string): CounterStore => {
+  const ready = fs.mkdir(directory, { recursive: true });
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const update = async (key: string, amount: number, expiresAt: number): Promise<number> => {
+    await ready;
+    const file = path.join(directory, `${key.replace(/[^\w.-]/g, '_')}.json`);
+    const now = Date.now();
+    const existing = await fs.readFile(file, 'utf8').then(text => JSON.parse(text) as Counter).catch(() => null);
+    const total = (existing && existing.expiresAt > now ? existing.total : 0) + amount;
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify({ total, expiresAt }));
+    await fs.rename(temporary, file);
+
+    // Expired counters are only ever read as zero, so sweep them now and then
+    if (Math.random() < 0.01) {
+      for (const name of await fs.readdir(directory)) {
+        const counter = await fs.readFile(path.join(directory, name), 'utf8').then(text => JSON.parse(text) as Counter).catch(() => null);
+        if (counter && counter.expiresAt <= now) await fs.rm(path.join(directory, name), { force: true });
+      }
+    }
+    return total;
+  };
+
+  return {
+    increment(key, amount, expiresAt) {
+      const result = queue.then(() => update(key, amount, expiresAt));
+      queue = result.catch(() => undefined);
+      return result;
+    },
+  };
+};
+
+let cachedStore: CounterStore | null | undefined;
+
+/**
+ * Returns the store selected by the RATE_LIMIT_STORE environment variable
+ * ("memory", "filesystem" or "none"), or null when limits are off. The
+ * filesystem store lives under RATE_LIMIT_DIR, or the system temp directory.
+ */
+export const getCounterStore = (): CounterStore | null => {
+  if (cachedStore !== undefined) return cachedStore;
+
+  const name = (process.env.RATE_LIMIT_STORE || 'memory').toLowerCase();
+  switch (name) {
+    case 'memory':
+      cachedStore = createMemoryCounterStore();
+      break;
+    case 'filesystem':
+      cachedStore = createFileSystemCounterStore(process.env.RATE_LIMIT_DIR || path.join(os.tmpdir(), 'imagitale-rate-limits'));
+      break;
+    case 'none':
+      cachedStore = null;
+      break;
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${name}". Expected "memory", "filesystem" or "none".`);
+  }
+  return cachedStore;
+};
+
+export class RateLimitError extends Error {
+  constructor(public retryAfterSeconds: number) {
+    super(`Rate limit reached; retry after ${retryAfterSeconds}s.`);
+    this.name = 'RateLimitError';
+  }
+}
+
+/** Who a request comes from: its IP address, and its session if the browser sent one. */
+export interface Client {
+  ip: string;
+  session: string | null;
+}
+
+export const clientFor = (event: HandlerEvent): Client => {
+  const headers = event.headers ?? {};
+  const ip = headers['x-nf-client-connection-ip'] || headers['x-forwarded-for']?.split(',')[0].trim() || 'unknown';
+  const session = headers[SESSION_HEADER.toLowerCase()];
+  return { ip, session: session && /^[\w-]{8,64}$/.test(session) ? session : null };
+};
+
+// A limit of 0 turns that limit off
+const limitFromEnv = (name: string, fallback: number): number => {
+  const value = process.env[name] ? Number(process.env[name]) : NaN;
+  return Number.isFinite(value) ? Math.max(0, value) : fallback;
+};
+
+interface Charge {
+  key: string;
+  amount: number;
+  limit: number;
+  resetsAt: number;
+}
+
+/**
+ * Adds each charge to its counter, or throws RateLimitError and takes the
+ * charges back if any counter is over its limit. A failing counter store lets
+ * the request through rather than stopping every story.
+ */
+const applyCharges = async (charges: Charge[], now: number): Promise<void> => {
+  const store = getCounterStore();
+  if (!store) return;
+
+  const charged: Charge[] = [];
+  try {
+    for (const charge of charges.filter(c => c.limit > 0)) {
+      const total = await store.increment(charge.key, charge.amount, charge.resetsAt);
+      charged.push(charge);
+      if (total > charge.limit) {
+        await Promise.all(charged.map(c => store.increment(c.key, -c.amount, c.resetsAt)));
+        throw new RateLimitError(Math.max(1, Math.ceil((charge.resetsAt - now) / 1000)));
+      }
+    }
+  } catch (error) {
+    if (error instanceof RateLimitError) throw error;
+    console.error("Rate limit store failed; letting the request through:", error);
+  }
+};
+
+/** Counts a request against the per-minute limits of its session and its IP address. */
+export const limitRequestRate = (client: Client, now = Date.now()): Promise<void> => {
+  const minute = Math.floor(now / 60_000);
+  const resetsAt = (minute + 1) * 60_000;
+  const charges: Charge[] = [
+    { key: `rate:${minute}:ip:${client.ip}`, amount: 1, limit: limitFromEnv('RATE_LIMIT_PER_MINUTE_PER_IP', DEFAULT_IP_REQUESTS_PER_MINUTE), resetsAt },
+  ];
+  if (client.session) {
+    charges.push({ key: `rate:${minute}:session:${client.session}`, amount: 1, limit: limitFromEnv('RATE_LIMIT_PER_MINUTE', DEFAULT_REQUESTS_PER_MINUTE), resetsAt });
+  }
+  return applyCharges(charges, now);
+};
+
+/** Charges a task's cost to the client's daily budget and the deployment's, just before it calls a model. */
+export const chargeTask = (task: TaskName, client: Client, now = Date.now()): Promise<void> => {
+  const day = new Date(now).toISOString().slice(0, 10);
+  const resetsAt = Date.parse(`${day}T00:00:00Z`) + 24 * 60 * 60 * 1000;
+  const cost = TASK_COSTS[task];
+  const payer = client.session ? `session:${client.session}` : `ip:${client.ip}`;
+  return applyCharges([
+    { key: `spend:${day}:${payer}`, amount: cost, limit: limitFromEnv('CLIENT_DAILY_BUDGET', DEFAULT_CLIENT_DAILY_BUDGET), resetsAt },
+    { key: `spend:${day}:all`, amount: cost, limit: limitFromEnv('DAILY_BUDGET', DEFAULT_DAILY_BUDGET), resetsAt },
+  ], now);
+};
@@ -0,0 +1,52 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import type { StoryBible } from "../../types";
+import { cleanText } from "../../apiProtocol";
+
+// --- SCENE TOKENS ---
+// Scene pictures are drawn from the scene's text and the story's character
+// sheet, both of which come back from the browser. So the function signs what
+// it wrote, and only draws a picture, or takes a sheet back into a prompt,
+// when the signature matches: it never illustrates text it didn't write and
+// screen itself.
+
+let cachedSecret: Buffer | null = null;
+
+/**
+ * SCENE_TOKEN_SECRET, or else a key derived from API_KEY, so every instance
+ * of the function accepts the others' tokens. Without either (the local
+ * provider), a random key per instance.
+ */
+const secret = (): Buffer => {
+  if (cachedSecret) return cachedSecret;
+  const configured = process.env.SCENE_TOKEN_SECRET || process.env.API_KEY;
+  cachedSecret = configured
+    ? createHash('sha256').update(`imagitale-scene-token:${configured}`).digest()
+    : randomBytes(32);
+  return cachedSecret;
+};
+
+const sign = (kind: string, ...parts: unknown[]): string =>
+  createHmac('sha256', secret()).update(JSON.stringify([kind, ...parts])).digest('base64url');
+
+const matches = (token: string | undefined, expected: string): boolean =>
+  !!token && token.length === expected.length && timingSafeEqual(Buffer.from(token), Buffer.from(expected));
+
+// Signed as the protocol's validators will hand them back, with fields in a fixed order
+const canonicalBible = (bible: StoryBible | null) => bible && [
+  bible.characters.map(c => [c.name, c.species, c.colors, c.clothing].map(cleanText)),
+  cleanText(bible.setting),
+  cleanText(bible.artStyle),
+];
+
+/** Signs a scene the function wrote, with the sheet its picture should follow. */
+export const signScene = (text: string, bible: StoryBible | null): string =>
+  sign('scene', cleanText(text), canonicalBible(bible));
+
+export const isSceneTokenValid = (token: string | undefined, text: string, bible: StoryBible | null): boolean =>
+  matches(token, signScene(text, bible));
+
+/** Signs the character sheet returned with an opening scene. */
+export const signBible = (bible: StoryBible): string => sign('bible', canonicalBible(bible));
+
+export const isBibleTokenValid = (token: string | undefined, bible: StoryBible): boolean =>
+  matches(token, signBible(bible));
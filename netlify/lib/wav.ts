@@ -0,0 +1,60 @@
+// --- WAV CONVERSION HELPERS ---
+// These functions convert raw PCM audio (from Gemini TTS or the local
+// provider) into a browser-playable WAV file format.
+
+export interface WavConversionOptions {
+  numChannels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+}
+
+export function parseMimeType(mimeType: string): WavConversionOptions {
+  const defaultOptions = { numChannels: 1, sampleRate: 24000, bitsPerSample: 16 };
+  if (!mimeType) return defaultOptions;
+
+  try {
+    const [fileType, ...params] = mimeType.split(';').map(s => s.trim());
+    const [_, format] = fileType.split('/');
+
+    const options: Partial<WavConversionOptions> = {};
+
+    if (format && format.toLowerCase().startsWith('l')) {
+        const bits = parseInt(format.slice(1), 10);
+        if (!isNaN(bits)) options.bitsPerSample = bits;
+    }
+
+    for (const param of params) {
+        const [key, value] = param.split('=').map(s => s.trim());
+        if (key === 'rate' && !isNaN(parseInt(value, 10))) {
+            options.sampleRate = parseInt(value, 10);
+        }
+    }
+    return { ...defaultOptions, ...options };
+  } catch(e) {
+    console.error("Error parsing MIME type, using defaults:", e);
+    return defaultOptions;
+  }
+}
+
+export function createWavHeader(dataLength: number, options: WavConversionOptions): Buffer {
+  const { numChannels, sampleRate, bitsPerSample } = options;
+  const byteRate = sampleRate * numChannels * (bitsPerSample / 8);
+  const blockAlign = numChannels * (bitsPerSample / 8);
+  const buffer = Buffer.alloc(44);
+
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + dataLength, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16); // PCM
+  buffer.writeUInt16LE(1, 20); // AudioFormat 1 = PCM
+  buffer.writeUInt16LE(numChannels, 22);
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(byteRate, 28);
+  buffer.writeUInt16LE(blockAlign, 32);
+  buffer.writeUInt16LE(bitsPerSample, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(dataLength, 40);
+
+  return buffer;
+}
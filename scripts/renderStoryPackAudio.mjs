@@ -0,0 +1,56 @@
+// Records the offline story pack's narration into public/story-pack/narration
+// with eSpeak NG, so pack stories can be read aloud without a network. Run it
+// with `npm run render-story-pack-audio` after changing storyPack.ts, the
+// follow-up questions or PACK_RECORDING. Clips are named by a hash of their
+// line and how it's recorded, so a changed line gets a new clip, and clips no
+// line uses any more are deleted.
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+import ESpeakNg from 'espeak-ng';
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const publicDir = path.join(root, 'public');
+const narrationDir = path.join(publicDir, 'story-pack', 'narration');
+
+// The encoder takes samples in blocks of one MP3 frame
+const FRAME_LENGTH = 1152;
+
+const encodeMp3 = (samples, { sampleRate, kbps }) => {
+  const encoder = new Mp3Encoder(1, sampleRate, kbps);
+  const pcm = Int16Array.from(samples, sample => Math.round(Math.max(-1, Math.min(1, sample)) * 32767));
+  const frames = [];
+  for (let i = 0; i < pcm.length; i += FRAME_LENGTH) frames.push(encoder.encodeBuffer(pcm.subarray(i, i + FRAME_LENGTH)));
+  frames.push(encoder.flush());
+  return Buffer.concat(frames.map(frame => Buffer.from(frame.buffer, frame.byteOffset, frame.byteLength)));
+};
+
+// The pack and its clip list are TypeScript, so Vite loads them (and needn't
+// look for the app's dependencies to do it)
+const vite = await createServer({ root, configFile: false, logLevel: 'error', server: { middlewareMode: true }, appType: 'custom', optimizeDeps: { noDiscovery: true, include: [] } });
+try {
+  const { OFFLINE_NARRATION_LINES, PACK_RECORDING, narrationClipUrl } = await vite.ssrLoadModule('/services/offlineStoryPack.ts');
+  const { decodeWav, resample } = await vite.ssrLoadModule('/services/wav.ts');
+
+  const files = new Set();
+  let recorded = 0;
+  for (const { text, language } of OFFLINE_NARRATION_LINES) {
+    const file = path.join(publicDir, ...(await narrationClipUrl(text, language)).split('/'));
+    if (files.has(file)) continue;
+    files.add(file);
+    if (fs.existsSync(file)) continue;
+    const espeak = await ESpeakNg({ arguments: ['-v', PACK_RECORDING.voices[language], '-s', String(PACK_RECORDING.wordsPerMinute), '-w', 'clip.wav', text] });
+    const audio = decodeWav(espeak.FS.readFile('clip.wav'));
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, encodeMp3(resample(audio, PACK_RECORDING.sampleRate), PACK_RECORDING));
+    recorded++;
+  }
+
+  const stale = fs.readdirSync(narrationDir).map(name => path.join(narrationDir, name)).filter(file => !files.has(file));
+  stale.forEach(file => fs.rmSync(file));
+  console.log(`Recorded ${recorded} of ${files.size} clips, deleted ${stale.length} unused.`);
+} finally {
+  await vite.close();
+}
@@ -0,0 +1,108 @@
+// --- SERVICE WORKER ---
+// Built into sw.js by the serviceWorker plugin in vite.config.ts, which fills
+// in the precache list and cache version. The app shell, the built-in word
+// pictures and the offline story pack are cached at install, so the app opens
+// and tells stories without a network. Requests to the Netlify function are
+// POSTs and always go to the network.
+
+const CACHE_VERSION = '__CACHE_VERSION__';
+const PRECACHE_URLS = [/* precache */];
+
+// Loaded by index.html from CDNs. They can't be read across origins, so they
+// are cached as opaque responses, on a best-effort basis.
+const CDN_URLS = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Lilita+One&family=Open+Sans:wght@400;700;800&display=swap',
+];
+
+// The only other origins whose files are cached as they're used: the CDN
+// script, the fonts (including the book font) and the import map's modules.
+// Anything else, such as a picture from another host, is left to the
+// browser's own cache.
+const RUNTIME_ORIGINS = new Set([
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com',
+  'https://fonts.gstatic.com',
+  'https://aistudiocdn.com',
+]);
+// Well above what the app loads, so the oldest are only dropped as versions change
+const RUNTIME_CACHE_MAX_ENTRIES = 80;
+
+const SHELL_CACHE = `imagitale-shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = 'imagitale-runtime';
+
+// Drops files from other origins, and the oldest once there are too many.
+// Entries are kept in the order they were last stored.
+const trimRuntimeCache = async () => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const requests = await cache.keys();
+  const isAllowed = request => RUNTIME_ORIGINS.has(new URL(request.url).origin);
+  const allowed = requests.filter(isAllowed);
+  const dropped = [
+    ...requests.filter(request => !isAllowed(request)),
+    ...allowed.slice(0, Math.max(0, allowed.length - RUNTIME_CACHE_MAX_ENTRIES)),
+  ];
+  await Promise.all(dropped.map(request => cache.delete(request)));
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(PRECACHE_URLS);
+    await Promise.allSettled(CDN_URLS.map(async url => {
+      const response = await fetch(url, { mode: 'no-cors' });
+      await cache.put(url, response);
+    }));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith('imagitale-shell-') && name !== SHELL_CACHE)
+      .map(name => caches.delete(name)));
+    await trimRuntimeCache();
+    await self.clients.claim();
+  })());
+});
+
+// Pages: the network first, so a new deploy shows up, then the cached shell
+const handleNavigation = async request => {
+  try {
+    return await fetch(request);
+  } catch {
+    return (await caches.match('/index.html')) || (await caches.match('/')) || Response.error();
+  }
+};
+
+// Other files: the cache first. Cross-origin ones (fonts) are refreshed in the
+// background, since their URLs don't change when their contents do.
+const handleAsset = async request => {
+  const cached = await caches.match(request);
+  const isSameOrigin = new URL(request.url).origin === self.location.origin;
+  if (cached && isSameOrigin) return cached;
+
+  const refreshed = fetch(request).then(async response => {
+    if (!isSameOrigin && (response.ok || response.type === 'opaque')) {
+      const cache = await caches.open(RUNTIME_CACHE);
+      await cache.put(request, response.clone());
+      await trimRuntimeCache();
+    }
+    return response;
+  });
+  if (cached) {
+    refreshed.catch(() => undefined);
+    return cached;
+  }
+  return refreshed;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || !request.url.startsWith('http')) return;
+  const { origin } = new URL(request.url);
+  if (origin !== self.location.origin && !RUNTIME_ORIGINS.has(origin)) return;
+  event.respondWith(request.mode === 'navigate' ? handleNavigation(request) : handleAsset(request));
+});
@@ -0,0 +1,77 @@
+import { CachedAsset } from '../types';
+import { StoreName, withStore } from './db';
+
+// --- On-Device Asset Cache ---
+// Generated files (pictures, audio) are stored as Blobs under a hash of what
+// produced them. Each cache has a byte budget; when a write goes over it, the
+// least recently used entries are dropped until the cache is back down to
+// EVICT_TO_FRACTION of it.
+
+// Don't rewrite an entry on every read just to bump its timestamp.
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Evicting to below the budget leaves room for many writes before the next eviction
+const EVICT_TO_FRACTION = 0.8;
+
+/** SHA-256 of the parts, hex-encoded. Falls back to the raw text where Web Crypto is unavailable. */
+export const hashKey = async (...parts: string[]): Promise<string> => {
+  const text = JSON.stringify(parts);
+  if (!globalThis.crypto?.subtle) return text;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export interface AssetCache {
+  get(key: string): Promise<Blob | null>;
+  put(key: string, blob: Blob): Promise<void>;
+}
+
+export const createAssetCache = (storeName: StoreName, maxBytes: number): AssetCache => {
+  // The size of everything stored, counted from the store on the first write
+  // and then kept up to date by each one. Rewriting a key counts it twice,
+  // which only brings the next eviction (and recount) forward.
+  let totalBytes: number | null = null;
+
+  /** Counts the stored bytes and, if over budget, evicts; returns the new total. */
+  const evict = async (): Promise<number> => {
+    // Blobs are loaded lazily, so listing every entry only reads the metadata
+    const entries = await withStore<CachedAsset[]>(storeName, 'readonly', store => store.getAll());
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    if (total <= maxBytes) return total;
+    for (const entry of entries.sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)) {
+      if (total <= maxBytes * EVICT_TO_FRACTION) break;
+      await withStore(storeName, 'readwrite', store => store.delete(entry.key));
+      total -= entry.size;
+    }
+    return total;
+  };
+
+  return {
+    async get(key) {
+      const entry = await withStore<CachedAsset | undefined>(storeName, 'readonly', store => store.get(key));
+      if (!entry) return null;
+      const now = Date.now();
+      if (now - entry.lastAccessedAt > TOUCH_INTERVAL_MS) {
+        await withStore(storeName, 'readwrite', store => store.put({ ...entry, lastAccessedAt: now }));
+      }
+      return entry.blob;
+    },
+    async put(key, blob) {
+      if (blob.size > maxBytes) return;
+      const entry: CachedAsset = { key, blob, size: blob.size, lastAccessedAt: Date.now() };
+      await withStore(storeName, 'readwrite', store => store.put(entry));
+      totalBytes = totalBytes === null ? await evict() : totalBytes + blob.size;
+      if (totalBytes > maxBytes) totalBytes = await evict();
+    },
+  };
+};
@@ -0,0 +1,116 @@
+import { AIVoice, Language, StoryTone } from '../types';
+import { generateSpeech } from './geminiService';
+import { dataUrlToBlob } from './assetCache';
+import { BookStory } from './bookExport';
+import { decodeWav, encodeWav, resample, WavCue } from './wav';
+
+// --- Audiobook Export ---
+// Stitches the narration of the title and every scene into one WAV file to
+// listen to with the screen off. Each part is a chapter, marked with a
+// labelled cue point, with a short silence in between, and the story can
+// open with a little tune in its tone. A scene's clip is the one cached when
+// it was read in the story, under the scene's text alone, so only the title
+// and scenes never heard are synthesized. Whatever their format, clips are
+// brought to one sample rate and bit depth.
+
+// The rate the narration voices speak at, so most clips need no resampling
+const AUDIOBOOK_SAMPLE_RATE = 24000;
+const GAP_SECONDS = 1.2;
+const INTRO_GAP_SECONDS = 0.6;
+
+interface IntroMelody {
+  /** The first note's pitch, in Hz. */
+  baseFrequency: number;
+  /** Each note, in semitones above the base. */
+  notes: number[];
+  noteSeconds: number;
+}
+
+const INTRO_MELODIES: Record<StoryTone, IntroMelody> = {
+  [StoryTone.ADVENTURE]: { baseFrequency: 392, notes: [0, 4, 7, 12, 7, 12], noteSeconds: 0.22 },
+  [StoryTone.HEARTWARMING]: { baseFrequency: 349.23, notes: [0, 4, 7, 9, 7, 4, 0], noteSeconds: 0.4 },
+  [StoryTone.FUNNY]: { baseFrequency: 440, notes: [0, 7, 0, 7, 5, 4, 2, 0], noteSeconds: 0.16 },
+  [StoryTone.DREAMY]: { baseFrequency: 261.63, notes: [0, 7, 12, 16, 12, 7, 12], noteSeconds: 0.5 },
+  [StoryTone.MYSTERY]: { baseFrequency: 220, notes: [0, 3, 7, 6, 3, 0], noteSeconds: 0.38 },
+  [StoryTone.RELATIONSHIPS]: { baseFrequency: 293.66, notes: [0, 2, 4, 7, 4, 2, 0], noteSeconds: 0.32 },
+};
+
+/** A soft, bell-like tune for the tone, each note ringing on under the next. */
+const synthesizeIntro = (tone: StoryTone, sampleRate: number): Float32Array => {
+  const { baseFrequency, notes, noteSeconds } = INTRO_MELODIES[tone];
+  const ringSeconds = noteSeconds * 3;
+  const samples = new Float32Array(Math.ceil((notes.length * noteSeconds + ringSeconds) * sampleRate));
+  notes.forEach((semitones, n) => {
+    const frequency = baseFrequency * 2 ** (semitones / 12);
+    const start = Math.floor(n * noteSeconds * sampleRate);
+    const length = Math.floor(ringSeconds * sampleRate);
+    for (let i = 0; i < length && start + i < samples.length; i++) {
+      const t = i / sampleRate;
+      // A quick attack to avoid a click, then a gentle decay
+      const envelope = Math.min(1, t / 0.01) * Math.exp(-t * 3 / ringSeconds);
+      const tone = Math.sin(2 * Math.PI * frequency * t) + 0.3 * Math.sin(4 * Math.PI * frequency * t);
+      samples[start + i] += tone * envelope * 0.18;
+    }
+  });
+  return samples;
+};
+
+/** A clip's samples at the audiobook's rate, read from any format the browser can decode. */
+const toSamples = async (audio: Uint8Array): Promise<Float32Array> => {
+  const wav = decodeWav(audio);
+  if (wav) return resample(wav, AUDIOBOOK_SAMPLE_RATE);
+  const context = new OfflineAudioContext(1, 1, AUDIOBOOK_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(audio.slice().buffer);
+  return buffer.getChannelData(0);
+};
+
+const narrationSamples = async (text: string, voice: AIVoice, language: Language): Promise<Float32Array> => {
+  const speech = await generateSpeech(text, voice, language);
+  const blob = await dataUrlToBlob(`data:${speech.mimeType};base64,${speech.audioContent}`);
+  return toSamples(new Uint8Array(await blob.arrayBuffer()));
+};
+
+export interface AudiobookOptions {
+  /** Opens the book with a tune in the story's tone. */
+  withIntroMusic: boolean;
+}
+
+/**
+ * Builds the audiobook, narrated in the given voice. Unlike the EPUB, a part
+ * without narration would leave a hole in the story, so any clip that can't
+ * be had rejects the whole export for the child to try again.
+ */
+export const buildAudiobook = async (story: BookStory, voice: AIVoice, { withIntroMusic }: AudiobookOptions): Promise<Blob> => {
+  const chapters = [
+    { label: story.title, text: story.title },
+    ...story.scenes.map((scene, i) => ({ label: `${story.language === Language.TH ? 'ฉากที่' : 'Scene'} ${i + 1}`, text: scene.text })),
+  ];
+
+  const parts: Float32Array[] = [];
+  const cues: WavCue[] = [];
+  let length = 0;
+  const append = (samples: Float32Array) => {
+    parts.push(samples);
+    length += samples.length;
+  };
+  const silence = (seconds: number) => new Float32Array(Math.round(seconds * AUDIOBOOK_SAMPLE_RATE));
+
+  if (withIntroMusic) {
+    append(synthesizeIntro(story.storyTone, AUDIOBOOK_SAMPLE_RATE));
+    append(silence(INTRO_GAP_SECONDS));
+  }
+  // One at a time, so a long story doesn't use up the narration rate limit at once
+  for (const [i, chapter] of chapters.entries()) {
+    if (i > 0) append(silence(GAP_SECONDS));
+    cues.push({ sampleOffset: length, label: chapter.label });
+    append(await narrationSamples(chapter.text, voice, story.language));
+  }
+
+  const samples = new Float32Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    samples.set(part, offset);
+    offset += part.length;
+  }
+  return encodeWav(samples, AUDIOBOOK_SAMPLE_RATE, { title: story.title, cues });
+};
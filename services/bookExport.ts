@@ -0,0 +1,75 @@
+import { Language, StoryScene, StoryTone } from '../types';
+
+// --- Book Export ---
+// What the downloadable books (HTML, PDF, EPUB) share: the story they are
+// made from, the page formats on offer, and fetching pictures to embed.
+
+/** A finished story, along the path to the ending being exported. */
+export interface BookStory {
+  id: string;
+  title: string;
+  scenes: StoryScene[];
+  language: Language;
+  storyTone: StoryTone;
+}
+
+export type BookLayoutId = 'a4Landscape' | 'a5Booklet' | 'square';
+
+export interface BookLayout {
+  id: BookLayoutId;
+  label: Record<Language, string>;
+  widthMm: number;
+  heightMm: number;
+  marginMm: number;
+  /** The share of the page inside its margins that the picture takes, above the text. */
+  pictureShare: number;
+  /** The size of a scene's text; titles are set larger. */
+  textSizePt: number;
+  /**
+   * For a booklet, the sheet the PDF puts two pages on, in folding order.
+   * The HTML book keeps its pages in reading order, one to a sheet.
+   */
+  bookletSheet?: { widthMm: number; heightMm: number };
+}
+
+export const BOOK_LAYOUTS: Record<BookLayoutId, BookLayout> = {
+  a4Landscape: {
+    id: 'a4Landscape',
+    label: { [Language.TH]: 'A4 แนวนอน', [Language.EN]: 'A4 landscape' },
+    widthMm: 297, heightMm: 210, marginMm: 12, pictureShare: 0.64, textSizePt: 20,
+  },
+  // A5 pages, two to a landscape sheet of A4 that is folded in half
+  a5Booklet: {
+    id: 'a5Booklet',
+    label: { [Language.TH]: 'สมุดเล่มเล็ก A5', [Language.EN]: 'A5 booklet' },
+    widthMm: 148, heightMm: 210, marginMm: 10, pictureShare: 0.5, textSizePt: 14,
+    bookletSheet: { widthMm: 297, heightMm: 210 },
+  },
+  square: {
+    id: 'square',
+    label: { [Language.TH]: 'หนังสือภาพจัตุรัส', [Language.EN]: 'Square picture book' },
+    widthMm: 210, heightMm: 210, marginMm: 10, pictureShare: 0.6, textSizePt: 16,
+  },
+};
+
+/** Escapes text for HTML or XML, in content and in quoted attributes. */
+export const escapeMarkup = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+/**
+ * A scene's picture, or null if it can't be fetched: a stock picture from a
+ * host that doesn't allow cross-origin downloads, or anything offline that
+ * isn't cached.
+ */
+export const fetchPictureBlob = async (imageUrl: string): Promise<Blob | null> => {
+  if (!imageUrl) return null;
+  try {
+    const response = await fetch(imageUrl);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return blob.type.startsWith('image/') ? blob : null;
+  } catch (error) {
+    console.warn(`Leaving the picture ${imageUrl.slice(0, 80)} out of the book:`, error);
+    return null;
+  }
+};
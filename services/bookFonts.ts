@@ -0,0 +1,74 @@
+import { blobToDataUrl } from './assetCache';
+
+// --- Book Fonts ---
+// Downloaded books carry their own font, so Thai text looks the same on any
+// device and printer. Mali is a rounded, child-friendly face with Thai and
+// Latin glyphs. Its files are fetched from Google Fonts when a book is first
+// made, and the service worker keeps them for offline use. Without them the
+// book falls back to the device's own Thai fonts.
+
+export const BOOK_FONT_FAMILY = 'Mali';
+export const BOOK_FONT_STACK = `"${BOOK_FONT_FAMILY}", "Sarabun", "Noto Sans Thai", "Leelawadee UI", Tahoma, sans-serif`;
+
+const BOOK_FONT_CSS_URL = 'https://fonts.googleapis.com/css2?family=Mali:wght@400;700&display=swap';
+
+// Google Fonts splits each weight by script; only these are used in stories
+const BOOK_FONT_SUBSETS = new Set(['thai', 'latin']);
+
+export interface EmbeddedFontFace {
+  weight: string;
+  unicodeRange?: string;
+  /** The font file, as a data URL. */
+  src: string;
+}
+
+let loading: Promise<EmbeddedFontFace[]> | null = null;
+
+const fetchFontFaces = async (): Promise<EmbeddedFontFace[]> => {
+  const response = await fetch(BOOK_FONT_CSS_URL);
+  if (!response.ok) throw new Error(`Font stylesheet request failed with ${response.status}`);
+  const css = await response.text();
+
+  // Each face is preceded by a comment naming its subset: /* thai */ @font-face { ... }
+  const blocks = [...css.matchAll(/\/\*\s*([\w-]+)\s*\*\/\s*@font-face\s*{([^}]*)}/g)]
+    .filter(([, subset]) => BOOK_FONT_SUBSETS.has(subset))
+    .map(([, , body]) => body);
+
+  return Promise.all(blocks.map(async body => {
+    const url = body.match(/src:\s*url\(([^)]+)\)/)?.[1];
+    if (!url) throw new Error('Font face without a source');
+    const file = await fetch(url);
+    if (!file.ok) throw new Error(`Font file request failed with ${file.status}`);
+    return {
+      weight: body.match(/font-weight:\s*(\d+)/)?.[1] ?? '400',
+      unicodeRange: body.match(/unicode-range:\s*([^;]+);/)?.[1].trim(),
+      src: await blobToDataUrl(await file.blob()),
+    };
+  }));
+};
+
+/** The book font's faces, fetched once per page load. Empty when they can't be had. */
+export const loadBookFontFaces = (): Promise<EmbeddedFontFace[]> => {
+  loading ??= fetchFontFaces().catch(error => {
+    console.warn("Books will use the device's fonts:", error);
+    // Try again for the next book
+    loading = null;
+    return [];
+  });
+  return loading;
+};
+
+/** @font-face rules that embed the faces in a stylesheet. */
+export const fontFaceCss = (faces: EmbeddedFontFace[]): string =>
+  faces.map(face => `@font-face { font-family: '${BOOK_FONT_FAMILY}'; font-weight: ${face.weight}; src: url(${face.src}) format('woff2');${face.unicodeRange ? ` unicode-range: ${face.unicodeRange};` : ''} }`).join('\n');
+
+const registered = new Set<string>();
+
+/** Makes the faces available to this page, e.g. for drawing on a canvas. */
+export const registerBookFontFaces = async (faces: EmbeddedFontFace[]): Promise<void> => {
+  await Promise.all(faces.filter(face => !registered.has(face.src)).map(async face => {
+    registered.add(face.src);
+    const fontFace = new FontFace(BOOK_FONT_FAMILY, `url(${face.src})`, face.unicodeRange ? { weight: face.weight, unicodeRange: face.unicodeRange } : { weight: face.weight });
+    document.fonts.add(await fontFace.load());
+  }));
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { exportWordListCsv, importWordList } from './customWordLists';
+
+describe('importWordList from CSV', () => {
+  it('skips the header row and blank lines', () => {
+    const { name, words } = importWordList('farm.csv', '﻿thai,english,imageUrl\r\nแมว,cat,\r\n\r\nหมา,dog,\r\n');
+    expect(name).toBe('farm');
+    expect(words).toEqual([{ thai: 'แมว', english: 'cat' }, { thai: 'หมา', english: 'dog' }]);
+  });
+
+  it('keeps commas, doubled quotes and newlines inside quoted fields', () => {
+    const { words } = importWordList('list.csv', 'ไก่,"hen, chicken",\n"ลูก\nเป็ด","the ""duck""",\n');
+    expect(words).toEqual([{ thai: 'ไก่', english: 'hen, chicken' }, { thai: 'ลูก เป็ด', english: 'the "duck"' }]);
+  });
+
+  it('reads a last row without a line break', () => {
+    expect(importWordList('list.csv', 'ปลา,fish').words).toEqual([{ thai: 'ปลา', english: 'fish' }]);
+  });
+
+  it('reads back what it exports', () => {
+    const words = [{ thai: 'ม้า', english: 'horse' }, { thai: 'วัว', english: 'cow, "moo"', imageUrl: 'https://example.com/cow.png' }];
+    const csv = exportWordListCsv({ id: 'list-1', name: 'Farm', words, createdAt: 0, updatedAt: 0 });
+    expect(importWordList('Farm.csv', csv).words).toEqual(words);
+  });
+});
@@ -0,0 +1,179 @@
+import { CustomWord, CustomWordList } from '../types';
+import { MAX_CUSTOM_LIST_WORDS, MAX_LIST_NAME_LENGTH } from '../constants';
+import { MAX_WORD_LENGTH, WORD_PATTERN } from '../apiProtocol';
+import { STORES, withStore } from './db';
+
+// --- Teacher Word Lists ---
+// Custom lists sit next to the built-in categories. They are shared by every
+// profile on the device, and can be moved between devices as CSV or JSON.
+
+export const createListId = (): string =>
+  `list-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getAllCustomLists = async (): Promise<CustomWordList[]> => {
+  const lists = await withStore<CustomWordList[]>(STORES.CUSTOM_WORD_LISTS, 'readonly', store => store.getAll());
+  return lists.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveCustomList = async (list: CustomWordList): Promise<void> => {
+  await withStore(STORES.CUSTOM_WORD_LISTS, 'readwrite', store => store.put(list));
+};
+
+export const deleteCustomList = async (id: string): Promise<void> => {
+  await withStore(STORES.CUSTOM_WORD_LISTS, 'readwrite', store => store.delete(id));
+};
+
+// --- Validation ---
+
+export interface WordListIssue {
+  /** The row the issue is about, or null for the list as a whole. */
+  index: number | null;
+  message: string;
+  isDuplicate?: boolean;
+}
+
+const IMAGE_URL_PATTERN = /^(data:image\/[\w.+-]+;base64,|https:\/\/)/;
+
+const normalizeWord = (word: CustomWord): CustomWord => {
+  const normalized: CustomWord = {
+    thai: word.thai.replace(/\s+/g, ' ').trim(),
+    english: word.english.replace(/\s+/g, ' ').trim(),
+  };
+  const imageUrl = word.imageUrl?.trim();
+  return imageUrl ? { ...normalized, imageUrl } : normalized;
+};
+
+/**
+ * Checks a list before it is saved. Story words are sent to the server, so
+ * each English word must pass the same rules the API protocol enforces.
+ */
+export const validateCustomList = (name: string, words: CustomWord[]): WordListIssue[] => {
+  const issues: WordListIssue[] = [];
+  const trimmedName = name.trim();
+  if (!trimmedName) issues.push({ index: null, message: 'กรุณาตั้งชื่อรายการคำ' });
+  if (trimmedName.length > MAX_LIST_NAME_LENGTH) issues.push({ index: null, message: `ชื่อรายการต้องยาวไม่เกิน ${MAX_LIST_NAME_LENGTH} ตัวอักษร` });
+  if (words.length === 0) issues.push({ index: null, message: 'ต้องมีอย่างน้อย 1 คำ' });
+  if (words.length > MAX_CUSTOM_LIST_WORDS) issues.push({ index: null, message: `มีได้ไม่เกิน ${MAX_CUSTOM_LIST_WORDS} คำ` });
+
+  const firstSeen = new Map<string, number>();
+  words.map(normalizeWord).forEach((word, index) => {
+    if (!word.thai) issues.push({ index, message: 'ยังไม่ได้ใส่คำภาษาไทย' });
+    else if (word.thai.length > MAX_WORD_LENGTH) issues.push({ index, message: `คำภาษาไทยยาวเกิน ${MAX_WORD_LENGTH} ตัวอักษร` });
+
+    if (!word.english) issues.push({ index, message: 'ยังไม่ได้ใส่คำภาษาอังกฤษ' });
+    else if (word.english.length > MAX_WORD_LENGTH) issues.push({ index, message: `คำภาษาอังกฤษยาวเกิน ${MAX_WORD_LENGTH} ตัวอักษร` });
+    else if (!WORD_PATTERN.test(word.english)) issues.push({ index, message: 'คำภาษาอังกฤษต้องเป็นตัวอักษรเท่านั้น' });
+
+    if (word.imageUrl && !IMAGE_URL_PATTERN.test(word.imageUrl)) issues.push({ index, message: 'ลิงก์รูปภาพต้องขึ้นต้นด้วย https://' });
+
+    const keys = [word.english && `en:${word.english.toLowerCase()}`, word.thai && `th:${word.thai}`].filter(Boolean);
+    for (const key of keys) {
+      const earlier = firstSeen.get(key);
+      if (earlier === undefined) {
+        firstSeen.set(key, index);
+      } else {
+        issues.push({ index, message: `ซ้ำกับคำที่ ${earlier + 1}`, isDuplicate: true });
+        break;
+      }
+    }
+  });
+  return issues;
+};
+
+/** Trims every word and drops rows that are completely empty. */
+export const cleanCustomWords = (words: CustomWord[]): CustomWord[] =>
+  words.map(normalizeWord).filter(word => word.thai || word.english || word.imageUrl);
+
+// --- Import / Export ---
+
+export interface ImportedWordList {
+  name: string;
+  words: CustomWord[];
+}
+
+const CSV_HEADER = ['thai', 'english', 'imageUrl'];
+
+/** Splits CSV text into rows of fields, honouring quoted fields with commas, quotes and newlines. */
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const parseCsv = (text: string): CustomWord[] => {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const hasHeader = rows.length > 0 && rows[0][0]?.trim().toLowerCase() === 'thai';
+  return (hasHeader ? rows.slice(1) : rows).map(([thai = '', english = '', imageUrl = '']) => ({ thai, english, imageUrl }));
+};
+
+const parseJson = (text: string): { name?: string; words: CustomWord[] } => {
+  const data: unknown = JSON.parse(text);
+  const source = Array.isArray(data) ? { words: data } : data as { name?: unknown; words?: unknown };
+  if (typeof source !== 'object' || source === null || !Array.isArray(source.words)) {
+    throw new Error('JSON must be an array of words or an object with a "words" array');
+  }
+  const words = source.words.map((entry: unknown) => {
+    const { thai, english, imageUrl } = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    return {
+      thai: typeof thai === 'string' ? thai : '',
+      english: typeof english === 'string' ? english : '',
+      imageUrl: typeof imageUrl === 'string' ? imageUrl : undefined,
+    };
+  });
+  return { name: typeof source.name === 'string' ? source.name : undefined, words };
+};
+
+/**
+ * Reads a word list from a .csv or .json file's text. The words are not
+ * validated here; the editor shows any problems before the list is saved.
+ */
+export const importWordList = (fileName: string, text: string): ImportedWordList => {
+  const baseName = fileName.replace(/\.[^.]+$/, '').slice(0, MAX_LIST_NAME_LENGTH);
+  if (/\.json$/i.test(fileName)) {
+    const { name, words } = parseJson(text);
+    return { name: name ?? baseName, words: cleanCustomWords(words) };
+  }
+  return { name: baseName, words: cleanCustomWords(parseCsv(text)) };
+};
+
+const csvField = (value: string): string => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const exportWordListCsv = (list: CustomWordList): string =>
+  [CSV_HEADER, ...list.words.map(w => [w.thai, w.english, w.imageUrl ?? ''])]
+    .map(row => row.map(csvField).join(','))
+    .join('\r\n');
+
+export const exportWordListJson = (list: CustomWordList): string =>
+  JSON.stringify({ name: list.name, words: list.words }, null, 2);
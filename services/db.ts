@@ -0,0 +1,89 @@
+// --- IndexedDB Helpers ---
+// A thin promise wrapper around the browser's IndexedDB. Every persistent
+// store the app uses is declared here so schema upgrades live in one place.
+
+const DB_NAME = 'imagitale';
+const DB_VERSION = 9;
+
+export const STORES = {
+  STORIES: 'stories',
+  PROFILES: 'profiles',
+  WORD_PROGRESS: 'wordProgress',
+  PRONUNCIATION: 'pronunciation',
+  VOCABULARY_SETS: 'vocabularySets',
+  CUSTOM_WORD_LISTS: 'customWordLists',
+  IMAGE_CACHE: 'imageCache',
+  AUDIO_CACHE: 'audioCache',
+  MODERATION_LOG: 'moderationLog',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.STORIES)) {
+        const stories = db.createObjectStore(STORES.STORIES, { keyPath: 'id' });
+        stories.createIndex('createdAt', 'createdAt');
+      }
+      if (!db.objectStoreNames.contains(STORES.PROFILES)) {
+        db.createObjectStore(STORES.PROFILES, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.WORD_PROGRESS)) {
+        const progress = db.createObjectStore(STORES.WORD_PROGRESS, { keyPath: 'id' });
+        progress.createIndex('profileId', 'profileId');
+      }
+      if (!db.objectStoreNames.contains(STORES.PRONUNCIATION)) {
+        const attempts = db.createObjectStore(STORES.PRONUNCIATION, { keyPath: 'id' });
+        attempts.createIndex('profileId', 'profileId');
+      }
+      if (!db.objectStoreNames.contains(STORES.VOCABULARY_SETS)) {
+        db.createObjectStore(STORES.VOCABULARY_SETS, { keyPath: 'category' });
+      }
+      if (!db.objectStoreNames.contains(STORES.CUSTOM_WORD_LISTS)) {
+        db.createObjectStore(STORES.CUSTOM_WORD_LISTS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.IMAGE_CACHE)) {
+        db.createObjectStore(STORES.IMAGE_CACHE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(STORES.AUDIO_CACHE)) {
+        db.createObjectStore(STORES.AUDIO_CACHE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(STORES.MODERATION_LOG)) {
+        const log = db.createObjectStore(STORES.MODERATION_LOG, { keyPath: 'id' });
+        log.createIndex('profileId', 'profileId');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Runs a single request against one object store and resolves with its result. */
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return promisify(operation(transaction.objectStore(storeName)));
+};
@@ -0,0 +1,21 @@
+// --- File Downloads ---
+
+/** Characters that aren't allowed in file names on some systems. */
+const UNSAFE_FILE_NAME = /[\\/:*?"<>|\u0000-\u001f]/g;
+
+/** A file name for a story, from its title. */
+export const storyFileName = (title: string, extension: string): string =>
+  `${title.replace(UNSAFE_FILE_NAME, '').trim() || 'story'}.${extension}`;
+
+/** Saves the blob as a file, without opening a window. */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers read the file after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
@@ -0,0 +1,242 @@
+import { AIVoice, Language } from '../types';
+import { SpeechResponse } from '../apiProtocol';
+import { generateSpeech } from './geminiService';
+import { dataUrlToBlob } from './assetCache';
+import { BookStory, escapeMarkup, fetchPictureBlob } from './bookExport';
+import { createZip, ZipEntry } from './zip';
+
+// --- EPUB Export ---
+// Packages a finished story as an EPUB 3 book: a title page and one page per
+// scene with its picture. Each page has a Media Overlay (SMIL) that plays its
+// narration while the reader highlights the text, so e-readers that support
+// overlays read the book aloud. A scene's narration is the clip cached when
+// it was read in the story, which is cached under the scene's text alone
+// (its follow-up question is a clip of its own). Only the title, never read
+// aloud in the app, and scenes never heard are fetched, and each counts
+// against the narration rate limit. A page whose picture or narration can't
+// be had is still included, without it.
+
+// The class e-readers put on the text being read aloud
+const ACTIVE_CLASS = '-epub-media-overlay-active';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/ogg': 'ogg',
+};
+
+/** A SMIL clock value in seconds, e.g. "12.345s". */
+const clipTime = (seconds: number): string => `${seconds.toFixed(3)}s`;
+
+/** A full clock value for the package's media:duration, e.g. "0:01:02.500". */
+const clockValue = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${hours}:${String(minutes).padStart(2, '0')}:${(seconds % 60).toFixed(3).padStart(6, '0')}`;
+};
+
+const bytesOf = async (blob: Blob): Promise<Uint8Array> => new Uint8Array(await blob.arrayBuffer());
+
+interface Picture { data: Uint8Array; mediaType: string; extension: string }
+interface Narration { data: Uint8Array; mediaType: string; extension: string; duration: number }
+
+const fetchPicture = async (imageUrl: string): Promise<Picture | null> => {
+  const blob = await fetchPictureBlob(imageUrl);
+  const mediaType = blob?.type.split(';')[0] ?? '';
+  const extension = IMAGE_EXTENSIONS[mediaType];
+  return blob && extension ? { data: await bytesOf(blob), mediaType, extension } : null;
+};
+
+/** How long the clip plays, in seconds, as the browser decodes it. */
+const audioDuration = async (data: Uint8Array): Promise<number> => {
+  const context = new OfflineAudioContext(1, 1, 44100);
+  const buffer = await context.decodeAudioData(data.slice().buffer);
+  return buffer.duration;
+};
+
+const narrate = async (text: string, voice: AIVoice, language: Language): Promise<Narration | null> => {
+  try {
+    const speech: SpeechResponse = await generateSpeech(text, voice, language);
+    const mediaType = speech.mimeType.split(';')[0];
+    const data = await bytesOf(await dataUrlToBlob(`data:${mediaType};base64,${speech.audioContent}`));
+    return { data, mediaType, extension: AUDIO_EXTENSIONS[mediaType] ?? 'wav', duration: await audioDuration(data) };
+  } catch (error) {
+    console.warn("Leaving narration out of the EPUB:", error);
+    return null;
+  }
+};
+
+interface Page {
+  id: string;
+  heading?: string;
+  text: string;
+  /** A picture stored with this page. */
+  picture: Picture | null;
+  /** Where the page's picture is in the book, which may be another page's. */
+  imageHref: string | null;
+  narration: Narration | null;
+}
+
+const pictureHref = (id: string, picture: Picture | null): string | null =>
+  picture && `images/${id}.${picture.extension}`;
+
+const pageXhtml = (page: Page, story: BookStory): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${story.language}" lang="${story.language}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeMarkup(story.title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+<section class="page${page.heading ? ' title-page' : ''}" epub:type="${page.heading ? 'titlepage' : 'chapter'}">
+${page.imageHref ? `<img src="${page.imageHref}" alt=""/>\n` : ''}${page.heading
+  ? `<h1 id="text">${escapeMarkup(page.heading)}</h1>`
+  : `<p id="text">${escapeMarkup(page.text)}</p>`}
+</section>
+</body>
+</html>
+`;
+
+const overlaySmil = (page: Page, narration: Narration): string => `<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/ns/SMIL" xmlns:epub="http://www.idpf.org/2007/ops" version="3.0">
+<body>
+<seq id="seq-${page.id}" epub:textref="${page.id}.xhtml">
+<par id="par-${page.id}">
+<text src="${page.id}.xhtml#text"/>
+<audio src="audio/${page.id}.${narration.extension}" clipBegin="0.000s" clipEnd="${clipTime(narration.duration)}"/>
+</par>
+</seq>
+</body>
+</smil>
+`;
+
+const navXhtml = (pages: Page[], story: BookStory): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${story.language}" lang="${story.language}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeMarkup(story.title)}</title>
+</head>
+<body>
+<nav epub:type="toc" id="toc">
+<ol>
+${pages.map((page, i) => `<li><a href="${page.id}.xhtml">${escapeMarkup(i === 0 ? story.title : `${story.language === Language.TH ? 'ฉากที่' : 'Scene'} ${i}`)}</a></li>`).join('\n')}
+</ol>
+</nav>
+</body>
+</html>
+`;
+
+const packageOpf = (pages: Page[], story: BookStory, modifiedAt: Date): string => {
+  const narrated = pages.filter(page => page.narration);
+  const totalDuration = narrated.reduce((sum, page) => sum + page.narration!.duration, 0);
+  const cover = pages.find(page => page.picture);
+
+  const metadata = [
+    `<dc:identifier id="book-id">imagitale:story:${escapeMarkup(story.id)}</dc:identifier>`,
+    `<dc:title>${escapeMarkup(story.title)}</dc:title>`,
+    `<dc:language>${story.language}</dc:language>`,
+    `<meta property="dcterms:modified">${modifiedAt.toISOString().replace(/\.\d{3}Z$/, 'Z')}</meta>`,
+    ...(narrated.length > 0 ? [
+      `<meta property="media:active-class">${ACTIVE_CLASS}</meta>`,
+      `<meta property="media:duration">${clockValue(totalDuration)}</meta>`,
+      ...narrated.map(page => `<meta property="media:duration" refines="#overlay-${page.id}">${clockValue(page.narration!.duration)}</meta>`),
+    ] : []),
+  ];
+
+  const items = [
+    `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+    `<item id="style" href="style.css" media-type="text/css"/>`,
+    ...pages.flatMap(page => [
+      `<item id="${page.id}" href="${page.id}.xhtml" media-type="application/xhtml+xml"${page.narration ? ` media-overlay="overlay-${page.id}"` : ''}/>`,
+      ...(page.picture ? [`<item id="image-${page.id}" href="${page.imageHref}" media-type="${page.picture.mediaType}"${page === cover ? ' properties="cover-image"' : ''}/>`] : []),
+      ...(page.narration ? [
+        `<item id="audio-${page.id}" href="audio/${page.id}.${page.narration.extension}" media-type="${page.narration.mediaType}"/>`,
+        `<item id="overlay-${page.id}" href="${page.id}.smil" media-type="application/smil+xml"/>`,
+      ] : []),
+    ]),
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${story.language}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${metadata.join('\n')}
+</metadata>
+<manifest>
+${items.join('\n')}
+</manifest>
+<spine>
+${pages.map(page => `<itemref idref="${page.id}"/>`).join('\n')}
+</spine>
+</package>
+`;
+};
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`;
+
+const STYLE_CSS = `body { margin: 0; font-family: sans-serif; }
+.page { text-align: center; padding: 1em; }
+.page img { max-width: 100%; max-height: 60vh; border-radius: 0.5em; }
+.page p { font-size: 1.4em; line-height: 1.6; }
+.title-page h1 { font-size: 2.2em; margin-top: 1em; }
+.${ACTIVE_CLASS} { background-color: #fde68a; }
+`;
+
+/** Builds the EPUB file for a story, narrated in the given voice. */
+export const buildStoryEpub = async (story: BookStory, voice: AIVoice): Promise<Blob> => {
+  // One at a time, so a long story doesn't use up the narration rate limit at once
+  const scenePages: Page[] = [];
+  for (const [i, scene] of story.scenes.entries()) {
+    const id = `scene-${i + 1}`;
+    const picture = await fetchPicture(scene.imageUrl);
+    scenePages.push({ id, text: scene.text, picture, imageHref: pictureHref(id, picture), narration: await narrate(scene.text, voice, story.language) });
+  }
+  // The title page shows the opening scene's picture, which is also the cover
+  const titlePage: Page = {
+    id: 'title',
+    heading: story.title,
+    text: story.title,
+    picture: null,
+    imageHref: scenePages[0]?.imageHref ?? null,
+    narration: await narrate(story.title, voice, story.language),
+  };
+  const pages = [titlePage, ...scenePages];
+
+  const encoder = new TextEncoder();
+  const text = (path: string, contents: string): ZipEntry => ({ path, data: encoder.encode(contents) });
+  const modifiedAt = new Date();
+  const entries: ZipEntry[] = [
+    // Must come first, stored and without extra fields, so readers can sniff the type
+    text('mimetype', 'application/epub+zip'),
+    text('META-INF/container.xml', CONTAINER_XML),
+    text('OEBPS/content.opf', packageOpf(pages, story, modifiedAt)),
+    text('OEBPS/nav.xhtml', navXhtml(pages, story)),
+    text('OEBPS/style.css', STYLE_CSS),
+  ];
+  for (const page of pages) {
+    entries.push(text(`OEBPS/${page.id}.xhtml`, pageXhtml(page, story)));
+    if (page.picture) entries.push({ path: `OEBPS/${page.imageHref}`, data: page.picture.data });
+    if (page.narration) {
+      entries.push({ path: `OEBPS/audio/${page.id}.${page.narration.extension}`, data: page.narration.data });
+      entries.push(text(`OEBPS/${page.id}.smil`, overlaySmil(page, page.narration)));
+    }
+  }
+  return createZip(entries, 'application/epub+zip', modifiedAt);
+};
@@ -1,125 +1,196 @@
-import { Word, WordCategory, Language, StoryTone, StoryScene } from '../types';
+import { Word, WordCategory, Language, StoryTone, AIVoice, AgeBand, StoryBible } from '../types';
+import { API_ENDPOINT, API_ERROR_STATUS, RETRYABLE_ERROR_CODES, SESSION_HEADER, ApiErrorCode, ApiErrorResponse, TaskName, TaskPayload, TaskResponse, StorySceneRequest, SceneContentResponse, SpeechResponse, StoryTitleResponse, ArcBeat, parseTaskResponse, arcStagesFor } from '../apiProtocol';
+import { API_MAX_RETRIES, API_RETRY_BASE_DELAY_MS, API_TIMEOUT_MS, IMAGE_CACHE_MAX_BYTES } from '../constants';
+import { STORES } from './db';
+import { createAssetCache, hashKey, blobToDataUrl, dataUrlToBlob } from './assetCache';
+import { speechCacheKey, getCachedSpeech, cacheSpeech } from './speechCache';
+import { offlineNarration } from './offlineStoryPack';
+
+/** A failed call to the function, with the protocol's error code. */
+export class ApiRequestError extends Error {
+  constructor(public code: ApiErrorCode, message: string, public retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
 
-// This is our new single point of contact with our secure backend.
-const API_ENDPOINT = '/.netlify/functions/generate-speech';
+type RestingListener = (retryAfterSeconds: number) => void;
+const restingListeners = new Set<RestingListener>();
 
-/**
- * A generic helper function to call our backend.
- * It sends a task name and a payload, and our backend decides what to do.
- */
-async function callApi<T>(task: string, payload: any): Promise<T> {
+/** Calls `listener` whenever the server asks the app to slow down. Returns an unsubscribe function. */
+export const onStorytellerResting = (listener: RestingListener): (() => void) => {
+  restingListeners.add(listener);
+  return () => { restingListeners.delete(listener); };
+};
+
+// One id per page load, so the server can tell this session's requests apart
+const sessionId = crypto.randomUUID();
+
+const isApiErrorCode = (value: unknown): value is ApiErrorCode =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(API_ERROR_STATUS, value);
+
+// Gateways in front of the function can answer without a protocol body
+const codeForStatus = (status: number): ApiErrorCode =>
+  status === 429 ? 'quota' : status === 504 ? 'upstreamTimeout' : status === 502 || status === 503 ? 'upstreamUnavailable' : 'internal';
+
+const toApiRequestError = async (response: Response): Promise<ApiRequestError> => {
+  const body: Partial<ApiErrorResponse> = await response.json().catch(() => ({}));
+  const code = isApiErrorCode(body.code) ? body.code : codeForStatus(response.status);
+  const retryAfterSeconds = code === 'quota' ? Number(response.headers.get('Retry-After')) || body.retryAfterSeconds || 60 : undefined;
+  return new ApiRequestError(code, body.message || `Server returned ${response.status}.`, retryAfterSeconds);
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+/** One attempt, abandoned after API_TIMEOUT_MS or when the caller's signal aborts. */
+async function callApiOnce<K extends TaskName>(task: K, payload: TaskPayload<K>, signal?: AbortSignal): Promise<TaskResponse<K>> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort);
+  const timer = setTimeout(abort, API_TIMEOUT_MS);
   try {
     const response = await fetch(API_ENDPOINT, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', [SESSION_HEADER]: sessionId },
       body: JSON.stringify({ task, payload }),
+      signal: controller.signal,
     });
 
     if (!response.ok) {
-      const errorBody = await response.json();
-      console.error(`API Error for task "${task}":`, errorBody);
-      throw new Error(`Server returned an error: ${errorBody.message || 'Unknown error'}`);
+      const error = await toApiRequestError(response);
+      if (error.code === 'quota') restingListeners.forEach(listener => listener(error.retryAfterSeconds!));
+      throw error;
     }
-    return response.json();
+    return parseTaskResponse(task, await response.json());
   } catch (error) {
-    console.error(`Failed to fetch from API for task "${task}":`, error);
-    // Rethrow to be caught by the calling function's own error handling
-    throw error;
+    if (signal?.aborted || error instanceof ApiRequestError) throw error;
+    if (controller.signal.aborted) throw new ApiRequestError('upstreamTimeout', `No answer within ${API_TIMEOUT_MS}ms.`);
+    // fetch rejects with a TypeError when the network is down
+    if (error instanceof TypeError) throw new ApiRequestError('upstreamUnavailable', error.message);
+    throw new ApiRequestError('internal', (error as Error).message);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
   }
 }
 
-// --- Vocabulary Generation ---
-
-export const generateVocabularyList = async (category: WordCategory): Promise<Word[]> => {
-  try {
-    return await callApi<Word[]>('generateVocabularyList', { category });
-  } catch (error) {
-    console.error("Fallback for generateVocabularyList:", error);
-    return [{ thai: "ข้อผิดพลาด", english: "error" }];
+/**
+ * A generic helper function to call our backend.
+ * It sends a task name and a payload, and our backend decides what to do.
+ * The response is validated against the shared protocol before it is returned.
+ * Slow or busy answers are retried with exponential backoff; anything else,
+ * or the last failed retry, rejects with an ApiRequestError. A 'quota' error
+ * also tells every resting listener.
+ * Pass a signal to abandon the request; an aborted call rejects quietly.
+ */
+async function callApi<K extends TaskName>(task: K, payload: TaskPayload<K>, signal?: AbortSignal): Promise<TaskResponse<K>> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await callApiOnce(task, payload, signal);
+    } catch (error) {
+      const isRetryable = error instanceof ApiRequestError && RETRYABLE_ERROR_CODES.includes(error.code);
+      if (signal?.aborted || !isRetryable || attempt >= API_MAX_RETRIES) {
+        if (!signal?.aborted) console.error(`Failed to fetch from API for task "${task}":`, error);
+        // Rethrow to be caught by the calling function's own error handling
+        throw error;
+      }
+      // Jittered, so a busy model isn't hit by every waiting tab at once
+      await wait(API_RETRY_BASE_DELAY_MS * 2 ** attempt * (0.5 + Math.random()), signal);
+    }
   }
-};
+}
 
-export const generateVocabImage = async (word: string): Promise<string> => {
-  try {
-    const prompt = `A simple, cute, and colorful illustration of a "${word}" for a children's book. The style should be minimalist, with a plain white background, clear outlines, and friendly features. The object should be the main focus.`;
-    const result = await callApi<{ imageUrl: string }>('generateImage', { prompt, aspectRatio: '1:1' });
-    return result.imageUrl;
-  } catch (error) {
-    console.error(`Fallback for generateVocabImage for "${word}":`, error);
-    return `https://loremflickr.com/400/300/${word},illustration,simple?lock=${word.replace(/\s/g, '')}`;
-  }
+// --- Speech Generation ---
+
+export const generateSpeech = async (text: string, voice: AIVoice, language: Language): Promise<SpeechResponse> => {
+  // Pack stories have their own recordings, which play without a network
+  const recorded = await offlineNarration(text, language).catch(error => {
+    console.error("Failed to load recorded narration:", error);
+    return null;
+  });
+  if (recorded) return recorded;
+
+  const key = await speechCacheKey(text, voice, language);
+  const cached = await getCachedSpeech(key);
+  if (cached) return cached;
+
+  const speech = await callApi('generateGeminiSpeech', { text, voice, language });
+  cacheSpeech(key, speech).catch(error => console.error("Failed to cache speech:", error));
+  return speech;
 };
 
-// --- Story Generation ---
+// --- Vocabulary Generation ---
 
-const getStoryScenePrompt = (
-    language: Language,
-    storyTone: StoryTone,
-    words: string[],
-    storySoFar: string | null,
-    userChoice: string | null,
-    sceneType: 'initial' | 'next' | 'final'
-): string => {
-    const langInstructions = language === Language.TH
-        ? "The story must be in Thai. The choices must be in Thai. Respond ONLY with the JSON object."
-        : "The story must be in English. The choices must be in English. Respond ONLY with the JSON object.";
-    
-    const basePrompt = `
-You are a creative storyteller for children aged 3-6. Your task is to generate a scene for a short, interactive story.
-The story should be very simple, positive, and easy for a young child to understand.
-The overall tone of the story should be: ${storyTone}.
-The story must incorporate some of these vocabulary words: ${words.join(', ')}.
-Your response must be a single JSON object with the specified schema. Do not include any other text or markdown formatting.
-${langInstructions}
-`;
-
-    if (sceneType === 'initial') {
-        return `${basePrompt}This is the very first scene. Introduce a character and a setting. Create a gentle, inviting start to the story. Provide 2 simple, distinct choices for the child.`;
-    }
+// Fetched words are cached, so there is no placeholder fallback that would be
+// saved alongside the real ones; a failure rejects and the picker offers a retry.
+export const generateVocabularyList = (category: WordCategory, ageBand: AgeBand, exclude: string[]): Promise<Word[]> =>
+  callApi('generateVocabularyList', { category, ageBand, exclude });
 
-    if (sceneType === 'final') {
-        return `${basePrompt}This is the FINAL scene. Write a concluding paragraph that provides a happy and satisfying resolution. Do not introduce new problems. The story should feel complete. Do NOT provide any choices. The "choices" array in the JSON should be empty. Story so far: """${storySoFar}"""`;
-    }
+// Vocabulary pictures are the same every time, so they're kept on the device.
+const imageCache = createAssetCache(STORES.IMAGE_CACHE, IMAGE_CACHE_MAX_BYTES);
 
-    // 'next' scene
-    return `${basePrompt}Continue the story from where it left off. Provide 2 simple, distinct choices. Story so far: """${storySoFar}""". The child chose: "${userChoice}". Now, write the next scene based on their choice.`;
+/**
+ * Fetches a word's picture. There is no stand-in picture: a failure rejects
+ * with an ApiRequestError, and callers show the built-in word's bundled
+ * picture or offer a retry.
+ */
+export const fetchVocabImage = async (word: string): Promise<string> => {
+  const key = await hashKey('vocabImage', word.toLowerCase());
+  const cached = await imageCache.get(key).catch(() => null);
+  if (cached) return await blobToDataUrl(cached);
+
+  const { imageUrl } = await callApi('generateImage', { word });
+  if (imageUrl.startsWith('data:')) {
+    dataUrlToBlob(imageUrl)
+      .then(blob => imageCache.put(key, blob))
+      .catch(cacheError => console.error(`Failed to cache the picture for "${word}":`, cacheError));
+  }
+  return imageUrl;
 };
 
-const generateScene = async (prompt: string, isImageGenerationEnabled: boolean): Promise<StoryScene> => {
+// --- Story Generation ---
+
+/** Plans what each scene is for. Without a plan, scenes still follow the bare arc stages. */
+export const generateStoryArc = async (storyTone: StoryTone, words: string[], sceneCount: number): Promise<ArcBeat[]> => {
     try {
-        return await callApi<StoryScene>('generateFullStoryScene', { prompt, isImageGenerationEnabled });
+        const { beats } = await callApi('generateStoryArc', { storyTone, words, sceneCount });
+        return beats;
     } catch (error) {
-        console.error("Fallback for generateScene:", error);
-        return {
-            text: "Oh no! The storyteller got a little lost. Let's try again.",
-            imageUrl: `https://loremflickr.com/1280/720/error,sad,robot`,
-            choices: ["Start over"],
-        };
+        console.error("Fallback for generateStoryArc:", error);
+        return arcStagesFor(sceneCount).map(stage => ({ stage }));
     }
 };
 
-export const generateInitialStoryScene = (words: string[], language: Language, storyTone: StoryTone, isImageGenerationEnabled: boolean): Promise<StoryScene> => {
-    const prompt = getStoryScenePrompt(language, storyTone, words, null, null, 'initial');
-    return generateScene(prompt, isImageGenerationEnabled);
-};
-
-export const generateNextStoryScene = (storySoFar: string, userChoice: string, language: Language, storyTone: StoryTone, words: string[], isImageGenerationEnabled: boolean): Promise<StoryScene> => {
-    const prompt = getStoryScenePrompt(language, storyTone, words, storySoFar, userChoice, 'next');
-    return generateScene(prompt, isImageGenerationEnabled);
-};
+/** Fetches a scene. There is no stand-in scene: a failure rejects with an ApiRequestError to offer a retry for. */
+export const fetchStoryScene = (request: StorySceneRequest, signal?: AbortSignal): Promise<SceneContentResponse> =>
+    callApi('generateFullStoryScene', request, signal);
 
-export const generateFinalStoryScene = (storySoFar: string, language: Language, storyTone: StoryTone, words: string[], isImageGenerationEnabled: boolean): Promise<StoryScene> => {
-    const prompt = getStoryScenePrompt(language, storyTone, words, storySoFar, null, 'final');
-    return generateScene(prompt, isImageGenerationEnabled);
+/**
+ * Resolves with the scene's AI picture, or null if it couldn't be made. The
+ * bible must be the one the scene was written with, which its token signs.
+ */
+export const generateSceneImage = async (sceneText: string, imageToken: string, bible: StoryBible | null): Promise<string | null> => {
+    try {
+        const result = await callApi('generateSceneImage', { sceneText, bible: bible ?? undefined, imageToken });
+        return result.imageUrl;
+    } catch (error) {
+        console.error("Scene image generation failed:", error);
+        return null;
+    }
 };
 
-export const generateStoryTitle = async (fullStory: string, language: Language): Promise<string> => {
+export const generateStoryTitle = async (fullStory: string, language: Language): Promise<StoryTitleResponse> => {
     try {
-        const prompt = `Based on the following children's story, create a short, magical, and fitting title. The title should be in ${language === Language.TH ? "Thai" : "English"}. Respond with only the title text, nothing else. Story: """${fullStory}""" Title:`;
-        const result = await callApi<{ title: string }>('generateStoryTitle', { prompt });
-        return result.title;
+        return await callApi('generateStoryTitle', { storyText: fullStory, language });
     } catch (error) {
         console.error("Fallback for generateStoryTitle:", error);
-        return language === Language.TH ? "นิทานมหัศจรรย์" : "A Wonderful Story";
+        return { title: language === Language.TH ? "นิทานมหัศจรรย์" : "A Wonderful Story" };
     }
 };
\ No newline at end of file
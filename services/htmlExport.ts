@@ -0,0 +1,66 @@
+import { blobToDataUrl } from './assetCache';
+import { BookLayout, BookStory, escapeMarkup, fetchPictureBlob } from './bookExport';
+import { BOOK_FONT_STACK, fontFaceCss, loadBookFontFaces } from './bookFonts';
+
+// --- HTML Export ---
+// A single .html file holding the whole book: its pictures and font are
+// embedded as data URLs, so it opens anywhere without a network and can be
+// shared as it is. On screen the pages are laid out one after another; in
+// print each takes a sheet of the layout's size.
+
+interface HtmlPage {
+  text: string;
+  isTitle: boolean;
+  picture: string | null;
+}
+
+const pageHtml = (page: HtmlPage): string => `<section class="page${page.isTitle ? ' title-page' : ''}">
+${page.picture ? `<div class="picture"><img src="${page.picture}" alt=""></div>\n` : ''}<div class="text">${page.isTitle ? `<h1>${escapeMarkup(page.text)}</h1>` : `<p>${escapeMarkup(page.text)}</p>`}</div>
+</section>`;
+
+const stylesheet = (layout: BookLayout, fontCss: string): string => `${fontCss}
+@page { size: ${layout.widthMm}mm ${layout.heightMm}mm; margin: 0; }
+* { box-sizing: border-box; }
+body { margin: 0; background: #e5e7eb; color: #1f2937; font-family: ${BOOK_FONT_STACK}; }
+.page { width: ${layout.widthMm}mm; height: ${layout.heightMm}mm; padding: ${layout.marginMm}mm; margin: 10mm auto; background: #fff; display: flex; flex-direction: column; overflow: hidden; box-shadow: 0 2mm 6mm rgba(0, 0, 0, 0.15); break-after: page; }
+.picture { height: ${Math.round(layout.pictureShare * 100)}%; display: flex; align-items: center; justify-content: center; }
+.picture img { max-width: 100%; max-height: 100%; object-fit: contain; border-radius: 4mm; }
+.text { flex: 1; display: flex; align-items: center; justify-content: center; text-align: center; padding-top: 4mm; }
+.text p { margin: 0; font-size: ${layout.textSizePt}pt; line-height: 1.6; }
+.text h1 { margin: 0; font-size: ${layout.textSizePt * 1.8}pt; line-height: 1.3; }
+@media print {
+  body { background: none; }
+  .page { margin: 0; box-shadow: none; }
+}`;
+
+export const buildStoryHtml = async (story: BookStory, layout: BookLayout): Promise<Blob> => {
+  const picturesLoading = Promise.all(story.scenes.map(async scene => {
+    const blob = await fetchPictureBlob(scene.imageUrl);
+    return blob && await blobToDataUrl(blob);
+  }));
+  const faces = await loadBookFontFaces();
+  const pictures = await picturesLoading;
+
+  // The title page shows the opening scene's picture
+  const pages: HtmlPage[] = [
+    { text: story.title, isTitle: true, picture: pictures[0] ?? null },
+    ...story.scenes.map((scene, i) => ({ text: scene.text, isTitle: false, picture: pictures[i] })),
+  ];
+
+  const html = `<!DOCTYPE html>
+<html lang="${story.language}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeMarkup(story.title)}</title>
+<style>
+${stylesheet(layout, fontFaceCss(faces))}
+</style>
+</head>
+<body>
+${pages.map(pageHtml).join('\n')}
+</body>
+</html>
+`;
+  return new Blob([html], { type: 'text/html;charset=utf-8' });
+};
@@ -0,0 +1,27 @@
+import { ModerationEvent, ModerationLogEntry } from '../types';
+import { STORES, withStore } from './db';
+
+// --- Moderation Log ---
+// Every time the server turned aside a child's idea or rewrote a scene, the
+// event is kept on this device so parents can see what happened. Nothing
+// here is shown to the child.
+
+export const recordModerationEvents = async (profileId: string | undefined, events: ModerationEvent[] | undefined): Promise<void> => {
+  if (!events?.length) return;
+  const createdAt = Date.now();
+  await Promise.all(events.map((event, i) => {
+    const entry: ModerationLogEntry = { ...event, id: `${profileId ?? 'guest'}:${createdAt}:${i}`, profileId, createdAt };
+    return withStore(STORES.MODERATION_LOG, 'readwrite', store => store.put(entry));
+  }));
+};
+
+/** A child's moderation events, newest first. */
+export const getModerationLog = async (profileId: string): Promise<ModerationLogEntry[]> => {
+  const entries = await withStore<ModerationLogEntry[]>(STORES.MODERATION_LOG, 'readonly', store => store.index('profileId').getAll(profileId));
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteModerationLog = async (profileId: string): Promise<void> => {
+  const entries = await getModerationLog(profileId);
+  await Promise.all(entries.map(e => withStore(STORES.MODERATION_LOG, 'readwrite', store => store.delete(e.id))));
+};
@@ -0,0 +1,86 @@
+import { Language, OfflineStory, StoryTone } from '../types';
+import { SpeechResponse } from '../apiProtocol';
+import { VOCABULARY, STORY_FOLLOW_UP_QUESTIONS_TH, STORY_FOLLOW_UP_QUESTIONS_EN } from '../constants';
+import { OFFLINE_STORY_PACK } from '../storyPack';
+import { blobToDataUrl, hashKey } from './assetCache';
+
+// --- Offline Story Pack ---
+// What the app falls back on when the storyteller can't be reached: the
+// pre-written stories in storyPack.ts, recorded narration for every line of
+// them, and a bundled picture for every built-in word. All are precached by
+// the service worker.
+
+/** A story from the pack, in the chosen tone if the pack has one. */
+export const chooseOfflineStory = (storyTone: StoryTone): OfflineStory => {
+  const matching = OFFLINE_STORY_PACK.filter(story => story.storyTone === storyTone);
+  const candidates = matching.length > 0 ? matching : OFFLINE_STORY_PACK;
+  return candidates[Math.floor(Math.random() * candidates.length)];
+};
+
+const BUILT_IN_WORDS = new Set(Object.values(VOCABULARY).flat().map(word => word.english.toLowerCase()));
+
+/** The bundled picture for a built-in word, or null for any other word. */
+export const offlineVocabImageUrl = (word: string): string | null => {
+  const key = word.toLowerCase();
+  return BUILT_IN_WORDS.has(key) ? `/vocabulary/${encodeURIComponent(key)}.svg` : null;
+};
+
+/** A recorded line of a pack story. */
+export interface NarrationLine {
+  text: string;
+  language: Language;
+}
+
+/**
+ * How scripts/renderStoryPackAudio.mjs records the pack: eSpeak NG's voice
+ * for each language, its speed, and the MP3 it's saved as. Part of every
+ * clip's name, with the line itself, so changing either records it again.
+ */
+export const PACK_RECORDING = {
+  voices: { [Language.TH]: 'th', [Language.EN]: 'en-us' } as Record<Language, string>,
+  wordsPerMinute: 150,
+  sampleRate: 16000,
+  kbps: 24,
+};
+
+const FOLLOW_UP_QUESTIONS: Record<Language, string[]> = {
+  [Language.TH]: STORY_FOLLOW_UP_QUESTIONS_TH,
+  [Language.EN]: STORY_FOLLOW_UP_QUESTIONS_EN,
+};
+
+/** Every scene and choice of the pack, and the follow-up questions read after a scene, in both languages. */
+export const OFFLINE_NARRATION_LINES: NarrationLine[] = Object.values(Language).flatMap(language => [
+  ...OFFLINE_STORY_PACK.flatMap(story => Object.values(story.scenes).flatMap(scene => [
+    scene.text[language],
+    ...scene.choices.map(choice => choice.label[language]),
+  ])),
+  ...FOLLOW_UP_QUESTIONS[language],
+].map(text => ({ text, language })));
+
+const lineKey = (text: string, language: Language) => `${language}:${text}`;
+const RECORDED_LINES = new Set(OFFLINE_NARRATION_LINES.map(line => lineKey(line.text, line.language)));
+
+/** Where a line's recording is, named by a hash of the line and how it was recorded. */
+export const narrationClipUrl = async (text: string, language: Language): Promise<string> => {
+  const hash = await hashKey('narration', JSON.stringify(PACK_RECORDING), language, text);
+  return `/story-pack/narration/${hash.slice(0, 16)}.mp3`;
+};
+
+const fetchClip = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Couldn't load ${url}: ${response.status}`);
+  return response.blob();
+};
+
+/**
+ * The recorded narration of a pack story's line, in the same shape as the
+ * function's, or null for any other text. The pack is read in its recorded
+ * voice whichever voice is chosen, so it sounds the same with or without a
+ * network.
+ */
+export const offlineNarration = async (text: string, language: Language): Promise<SpeechResponse | null> => {
+  // Clips are found by hash, which needs a secure context
+  if (!RECORDED_LINES.has(lineKey(text, language)) || !globalThis.crypto?.subtle) return null;
+  const dataUrl = await blobToDataUrl(await fetchClip(await narrationClipUrl(text, language)));
+  return { audioContent: dataUrl.slice(dataUrl.indexOf(',') + 1), mimeType: 'audio/mpeg' };
+};
@@ -0,0 +1,229 @@
+// --- PDF Writer ---
+// Just enough of PDF to make a book of pictures: each page is one or more
+// JPEGs placed on it, under an invisible text layer. Pages are rendered by
+// the caller, which keeps text shaping (Thai above all) in the browser's
+// hands; the text layer only lets the words be selected, searched and read
+// by a screen reader, so its font has no glyphs to draw.
+
+export interface PdfPicture {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  /** Where it is drawn, in points from the page's bottom-left corner. */
+  xPt: number;
+  yPt: number;
+  widthPt: number;
+  heightPt: number;
+}
+
+/** A line of text where it appears in a picture, for the invisible text layer. */
+export interface PdfTextLine {
+  text: string;
+  /** The start of its baseline, in points from the page's bottom-left corner. */
+  xPt: number;
+  yPt: number;
+  sizePt: number;
+  /** How wide it is drawn, so a selection covers it. */
+  widthPt: number;
+}
+
+export interface PdfPage {
+  /** Page size in points (1/72 inch). */
+  widthPt: number;
+  heightPt: number;
+  pictures: PdfPicture[];
+  text: PdfTextLine[];
+}
+
+/** A PDF text string, UTF-16 with a byte order mark, so any script survives. */
+const pdfTextString = (text: string): string => {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  return `<${hex}>`;
+};
+
+const pdfDate = (date: Date): string => `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+// The text layer's font maps each UTF-16 code unit to a character id of the
+// same value, and every id back to that code unit, so copied text is exact
+const TEXT_CMAP = `/CIDInit /ProcSet findresource begin
+12 dict begin
+begincmap
+/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def
+/CMapName /Adobe-Identity-UCS def
+/CMapType 2 def
+1 begincodespacerange
+<0000> <FFFF>
+endcodespacerange
+1 beginbfrange
+<0000> <FFFF> <0000>
+endbfrange
+endcmap
+CMapName currentdict /CMap defineresource pop
+end
+end
+`;
+
+// Every character of the text layer is this wide, in thousandths of its size;
+// each line is then stretched to the width it's drawn at
+const TEXT_CHARACTER_WIDTH = 500;
+
+/**
+ * The smallest TrueType font a PDF reader accepts: a single empty glyph.
+ * Text set in it is invisible anyway, so it needs nothing more.
+ */
+const glyphlessFont = (): Uint8Array => {
+  const table = (size: number, fill: (view: DataView) => void): Uint8Array => {
+    const bytes = new Uint8Array(size);
+    fill(new DataView(bytes.buffer));
+    return bytes;
+  };
+  const tables: [string, Uint8Array][] = [
+    // Format 4, with only the segment that ends every table
+    ['cmap', table(36, v => {
+      v.setUint16(2, 1); v.setUint16(4, 3); v.setUint16(6, 1); v.setUint32(8, 12);
+      v.setUint16(12, 4); v.setUint16(14, 24); v.setUint16(18, 2); v.setUint16(20, 2);
+      v.setUint16(26, 0xffff); v.setUint16(30, 0xffff); v.setUint16(32, 1);
+    })],
+    // The empty glyph takes no room, but readers want the table to have some
+    ['glyf', new Uint8Array(4)],
+    ['head', table(54, v => {
+      v.setUint32(0, 0x00010000); v.setUint32(4, 0x00010000); v.setUint32(12, 0x5f0f3cf5);
+      v.setUint16(18, 1000); v.setUint16(46, 3); v.setInt16(48, 2);
+    })],
+    ['hhea', table(36, v => {
+      v.setUint32(0, 0x00010000); v.setInt16(4, 800); v.setInt16(6, -200); v.setUint16(10, 1000);
+      v.setInt16(18, 1); v.setUint16(34, 1);
+    })],
+    ['hmtx', table(4, v => v.setUint16(0, 1000))],
+    ['loca', new Uint8Array(4)],
+    ['maxp', table(32, v => { v.setUint32(0, 0x00010000); v.setUint16(4, 1); v.setUint16(14, 2); })],
+    ['name', table(6, v => v.setUint16(4, 6))],
+    ['post', table(32, v => { v.setUint32(0, 0x00030000); v.setInt16(8, -100); v.setInt16(10, 50); })],
+  ];
+
+  const checksum = (bytes: Uint8Array): number => {
+    const padded = new Uint8Array(Math.ceil(bytes.length / 4) * 4);
+    padded.set(bytes);
+    const view = new DataView(padded.buffer);
+    let sum = 0;
+    for (let i = 0; i < padded.length; i += 4) sum = (sum + view.getUint32(i)) >>> 0;
+    return sum;
+  };
+
+  const directoryLength = 12 + tables.length * 16;
+  let offset = directoryLength;
+  const placed = tables.map(([tag, data]) => {
+    const entry = { tag, data, offset };
+    offset += Math.ceil(data.length / 4) * 4;
+    return entry;
+  });
+  const font = new Uint8Array(offset);
+  const view = new DataView(font.buffer);
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, tables.length);
+  view.setUint16(6, 128);
+  view.setUint16(8, 3);
+  view.setUint16(10, tables.length * 16 - 128);
+  placed.forEach(({ tag, data, offset }, i) => {
+    const entry = 12 + i * 16;
+    for (let c = 0; c < 4; c++) view.setUint8(entry + c, tag.charCodeAt(c));
+    view.setUint32(entry + 4, checksum(data));
+    view.setUint32(entry + 8, offset);
+    view.setUint32(entry + 12, data.length);
+    font.set(data, offset);
+  });
+  return font;
+};
+
+const textLayer = (lines: PdfTextLine[]): string => lines
+  .filter(line => line.text.length > 0)
+  .map(line => {
+    // Stretched so the line's selection box covers the drawn words
+    const scale = line.widthPt / (line.text.length * TEXT_CHARACTER_WIDTH / 1000);
+    let hex = '';
+    for (let i = 0; i < line.text.length; i++) hex += line.text.charCodeAt(i).toString(16).padStart(4, '0');
+    return `BT 3 Tr /Text 1 Tf ${scale.toFixed(3)} 0 0 ${line.sizePt.toFixed(2)} ${line.xPt.toFixed(2)} ${line.yPt.toFixed(2)} Tm <${hex}> Tj ET\n`;
+  })
+  .join('');
+
+export const createPdf = (pages: PdfPage[], title: string, createdAt = new Date()): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  let nextId = 1;
+  const reserveId = () => nextId++;
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+  const writeStream = (id: number, dictionary: string, data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    startObject(id);
+    write(`<< ${dictionary}${dictionary ? ' ' : ''}/Length ${bytes.length} >>\nstream\n`);
+    write(bytes);
+    write('\nendstream\nendobj\n');
+  };
+
+  const catalogId = reserveId();
+  const pagesId = reserveId();
+  const infoId = reserveId();
+  const fontId = reserveId();
+  const pageIds = pages.map(() => reserveId());
+
+  // The comment's high bytes mark the file as binary
+  write('%PDF-1.4\n%âãÏÓ\n');
+  startObject(catalogId);
+  write(`<< /Type /Catalog /Pages ${pagesId} 0 R >>\nendobj\n`);
+  startObject(pagesId);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+  startObject(infoId);
+  write(`<< /Title ${pdfTextString(title)} /Producer (ImagiTale) /CreationDate (${pdfDate(createdAt)}) >>\nendobj\n`);
+
+  // The text layer's font: a composite font over the glyphless TrueType one
+  const cidFontId = reserveId();
+  const descriptorId = reserveId();
+  const fontFileId = reserveId();
+  const cmapId = reserveId();
+  startObject(fontId);
+  write(`<< /Type /Font /Subtype /Type0 /BaseFont /GlyphLessFont /Encoding /Identity-H /DescendantFonts [${cidFontId} 0 R] /ToUnicode ${cmapId} 0 R >>\nendobj\n`);
+  startObject(cidFontId);
+  write(`<< /Type /Font /Subtype /CIDFontType2 /BaseFont /GlyphLessFont /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${descriptorId} 0 R /DW ${TEXT_CHARACTER_WIDTH} /CIDToGIDMap /Identity >>\nendobj\n`);
+  startObject(descriptorId);
+  write(`<< /Type /FontDescriptor /FontName /GlyphLessFont /Flags 5 /FontBBox [0 -200 1000 800] /ItalicAngle 0 /Ascent 800 /Descent -200 /CapHeight 800 /StemV 80 /FontFile2 ${fontFileId} 0 R >>\nendobj\n`);
+  const font = glyphlessFont();
+  writeStream(fontFileId, `/Length1 ${font.length}`, font);
+  writeStream(cmapId, '', TEXT_CMAP);
+
+  pages.forEach((page, i) => {
+    const width = page.widthPt.toFixed(2);
+    const height = page.heightPt.toFixed(2);
+    const pictureIds = page.pictures.map(() => reserveId());
+    const contentId = reserveId();
+    const content = page.pictures
+      .map((picture, n) => `q ${picture.widthPt.toFixed(2)} 0 0 ${picture.heightPt.toFixed(2)} ${picture.xPt.toFixed(2)} ${picture.yPt.toFixed(2)} cm /Picture${n} Do Q\n`)
+      .join('') + textLayer(page.text);
+    const pictureResources = pictureIds.map((id, n) => `/Picture${n} ${id} 0 R`).join(' ');
+
+    startObject(pageIds[i]);
+    write(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << ${pictureResources} >> /Font << /Text ${fontId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+    writeStream(contentId, '', content);
+    page.pictures.forEach((picture, n) => writeStream(pictureIds[n],
+      `/Type /XObject /Subtype /Image /Width ${picture.pixelWidth} /Height ${picture.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+      picture.jpeg));
+  });
+
+  const objectCount = nextId;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${objectCount} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
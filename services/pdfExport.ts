@@ -0,0 +1,196 @@
+import { Language } from '../types';
+import { BookLayout, BookStory, fetchPictureBlob } from './bookExport';
+import { BOOK_FONT_STACK, loadBookFontFaces, registerBookFontFaces } from './bookFonts';
+import { createPdf, PdfPage, PdfTextLine } from './pdf';
+
+// --- PDF Export ---
+// Each page is drawn on a canvas in the book font, then stored as a picture
+// in the PDF. The browser does the text shaping, so Thai vowels and tone
+// marks land where they belong, and the PDF needs no font of its own (the
+// book font only comes as WOFF2, which a PDF can't hold). An invisible copy
+// of each line lies over the picture of it, so the text can still be
+// selected, searched and read aloud by a screen reader. A booklet's pages
+// are then laid out two to a sheet in the order that folds into a book.
+
+// Print resolution, in pixels per inch
+const PAGE_DPI = 150;
+const JPEG_QUALITY = 0.88;
+const LINE_HEIGHT = 1.5;
+// Long scenes shrink their text to fit, but no further than this
+const MIN_TEXT_SCALE = 0.45;
+
+const mmToPixels = (mm: number): number => Math.round(mm / 25.4 * PAGE_DPI);
+const mmToPoints = (mm: number): number => mm / 25.4 * 72;
+const pixelsToPoints = (pixels: number): number => pixels / PAGE_DPI * 72;
+// Where the alphabetic baseline sits below the middle of a line, as a share of the text size
+const BASELINE_BELOW_MIDDLE = 0.3;
+
+const loadImage = async (blob: Blob): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * The places a line may break. Thai has no spaces between words, so words
+ * come from the browser's word segmenter where it has one.
+ */
+const splitIntoWords = (text: string, language: Language): string[] =>
+  typeof Intl.Segmenter === 'function'
+    ? Array.from(new Intl.Segmenter(language, { granularity: 'word' }).segment(text), part => part.segment)
+    : text.split(/(\s+)/);
+
+const wrapLines = (context: CanvasRenderingContext2D, words: string[], maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  const pushLine = () => {
+    if (line.trim()) lines.push(line.trim());
+    line = '';
+  };
+  for (const word of words) {
+    if (context.measureText(line + word).width <= maxWidth) {
+      line += word;
+      continue;
+    }
+    pushLine();
+    if (context.measureText(word).width <= maxWidth) {
+      line = word.trimStart();
+      continue;
+    }
+    // A single word wider than the page is broken between characters
+    for (const character of Array.from(word)) {
+      if (context.measureText(line + character).width > maxWidth) pushLine();
+      line += character;
+    }
+  }
+  pushLine();
+  return lines;
+};
+
+interface PdfPageContent {
+  text: string;
+  isTitle: boolean;
+  picture: HTMLImageElement | null;
+}
+
+const renderPage = async (page: PdfPageContent, layout: BookLayout, language: Language): Promise<PdfPage> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = mmToPixels(layout.widthMm);
+  canvas.height = mmToPixels(layout.heightMm);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D is not available');
+
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  const margin = mmToPixels(layout.marginMm);
+  const innerWidth = canvas.width - margin * 2;
+  const innerHeight = canvas.height - margin * 2;
+  let textTop = margin;
+
+  if (page.picture) {
+    const boxHeight = innerHeight * layout.pictureShare;
+    const scale = Math.min(innerWidth / page.picture.naturalWidth, boxHeight / page.picture.naturalHeight);
+    const width = page.picture.naturalWidth * scale;
+    const height = page.picture.naturalHeight * scale;
+    context.drawImage(page.picture, margin + (innerWidth - width) / 2, margin + (boxHeight - height) / 2, width, height);
+    textTop = margin + boxHeight + mmToPixels(4);
+  }
+
+  const textHeight = margin + innerHeight - textTop;
+  const words = splitIntoWords(page.text, language);
+  const fullSize = layout.textSizePt * (page.isTitle ? 1.8 : 1) / 72 * PAGE_DPI;
+  let size = fullSize;
+  let lines: string[];
+  for (;;) {
+    context.font = `${page.isTitle ? 700 : 400} ${size}px ${BOOK_FONT_STACK}`;
+    lines = wrapLines(context, words, innerWidth);
+    if (lines.length * size * LINE_HEIGHT <= textHeight || size <= fullSize * MIN_TEXT_SCALE) break;
+    size *= 0.9;
+  }
+
+  context.fillStyle = '#1f2937';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  const blockTop = textTop + (textHeight - lines.length * size * LINE_HEIGHT) / 2;
+  const heightPt = mmToPoints(layout.heightMm);
+  const text: PdfTextLine[] = lines.map((line, i) => {
+    const middle = blockTop + (i + 0.5) * size * LINE_HEIGHT;
+    context.fillText(line, canvas.width / 2, middle);
+    const width = context.measureText(line).width;
+    return {
+      text: line,
+      xPt: pixelsToPoints((canvas.width - width) / 2),
+      yPt: heightPt - pixelsToPoints(middle + size * BASELINE_BELOW_MIDDLE),
+      sizePt: pixelsToPoints(size),
+      widthPt: pixelsToPoints(width),
+    };
+  });
+
+  const jpeg = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the page')), 'image/jpeg', JPEG_QUALITY));
+  const widthPt = mmToPoints(layout.widthMm);
+  return {
+    widthPt,
+    heightPt,
+    pictures: [{ jpeg: new Uint8Array(await jpeg.arrayBuffer()), pixelWidth: canvas.width, pixelHeight: canvas.height, xPt: 0, yPt: 0, widthPt, heightPt }],
+    text,
+  };
+};
+
+/**
+ * Lays pages out two to a sheet for a saddle-stitched booklet: printed on
+ * both sides (flipped on the short edge), stacked, folded and stapled, the
+ * sheets read in order. Blank pages make up the count to a multiple of four.
+ */
+export const imposeBooklet = (pages: PdfPage[], sheetWidthPt: number, sheetHeightPt: number): PdfPage[] => {
+  const pageCount = Math.ceil(pages.length / 4) * 4;
+  const place = (index: number, xPt: number): Pick<PdfPage, 'pictures' | 'text'> => {
+    const page = pages[index];
+    if (!page) return { pictures: [], text: [] };
+    const yPt = (sheetHeightPt - page.heightPt) / 2;
+    return {
+      pictures: page.pictures.map(picture => ({ ...picture, xPt: picture.xPt + xPt, yPt: picture.yPt + yPt })),
+      text: page.text.map(line => ({ ...line, xPt: line.xPt + xPt, yPt: line.yPt + yPt })),
+    };
+  };
+  const side = (left: number, right: number): PdfPage => {
+    // The pair sits in the middle of the sheet, meeting at the fold
+    const pageWidthPt = pages[0]?.widthPt ?? sheetWidthPt / 2;
+    const leftX = sheetWidthPt / 2 - pageWidthPt;
+    const [l, r] = [place(left, leftX), place(right, sheetWidthPt / 2)];
+    return { widthPt: sheetWidthPt, heightPt: sheetHeightPt, pictures: [...l.pictures, ...r.pictures], text: [...l.text, ...r.text] };
+  };
+  const sheets: PdfPage[] = [];
+  for (let sheet = 0; sheet < pageCount / 4; sheet++) {
+    sheets.push(side(pageCount - 1 - 2 * sheet, 2 * sheet));
+    sheets.push(side(2 * sheet + 1, pageCount - 2 - 2 * sheet));
+  }
+  return sheets;
+};
+
+export const buildStoryPdf = async (story: BookStory, layout: BookLayout): Promise<Blob> => {
+  const picturesLoading = Promise.all(story.scenes.map(async scene => {
+    const blob = await fetchPictureBlob(scene.imageUrl);
+    return blob && await loadImage(blob).catch(() => null);
+  }));
+  await registerBookFontFaces(await loadBookFontFaces()).catch(error => console.warn("Drawing the PDF in the device's fonts:", error));
+  const pictures = await picturesLoading;
+
+  // The title page shows the opening scene's picture
+  const contents: PdfPageContent[] = [
+    { text: story.title, isTitle: true, picture: pictures[0] ?? null },
+    ...story.scenes.map((scene, i) => ({ text: scene.text, isTitle: false, picture: pictures[i] })),
+  ];
+  // One page at a time, so only one full-size canvas is held at once
+  const pages: PdfPage[] = [];
+  for (const content of contents) pages.push(await renderPage(content, layout, story.language));
+  const { bookletSheet } = layout;
+  return createPdf(bookletSheet ? imposeBooklet(pages, mmToPoints(bookletSheet.widthMm), mmToPoints(bookletSheet.heightMm)) : pages, story.title);
+};
@@ -0,0 +1,56 @@
+import { ChildProfile, Word } from '../types';
+import { STORES, withStore } from './db';
+import { getAllStories, deleteStory } from './storyLibrary';
+import { deleteWordProgress } from './wordProgress';
+import { deletePronunciationHistory } from './pronunciation';
+import { deleteModerationLog } from './moderationLog';
+
+// --- Child Profiles ---
+// Profiles live in IndexedDB; the active profile id is kept in localStorage
+// so the same child is picked again after a reload.
+
+const ACTIVE_PROFILE_KEY = 'imagitale.activeProfileId';
+
+export const createProfileId = (): string =>
+  `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getAllProfiles = async (): Promise<ChildProfile[]> => {
+  const profiles = await withStore<ChildProfile[]>(STORES.PROFILES, 'readonly', store => store.getAll());
+  return profiles.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveProfile = async (profile: ChildProfile): Promise<void> => {
+  await withStore(STORES.PROFILES, 'readwrite', store => store.put(profile));
+};
+
+/** Deletes a profile together with every story it saved, all of its learning history and its moderation log. */
+export const deleteProfile = async (id: string): Promise<void> => {
+  const stories = await getAllStories(id);
+  await Promise.all(stories.filter(s => s.profileId === id).map(s => deleteStory(s.id)));
+  await deleteWordProgress(id);
+  await deletePronunciationHistory(id);
+  await deleteModerationLog(id);
+  await withStore(STORES.PROFILES, 'readwrite', store => store.delete(id));
+};
+
+export const getActiveProfileId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_PROFILE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setActiveProfileId = (id: string): void => {
+  try {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+  } catch (error) {
+    console.warn("Could not remember the active profile.", error);
+  }
+};
+
+/** Adds newly used words to a profile's learned words, skipping ones it already has. */
+export const mergeLearnedWords = (learnedWords: Word[], newWords: Word[]): Word[] => {
+  const known = new Set(learnedWords.map(w => w.english.toLowerCase()));
+  return [...learnedWords, ...newWords.filter(w => !known.has(w.english.toLowerCase()))];
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { scorePronunciation } from './pronunciation';
+
+describe('scorePronunciation', () => {
+  it('gives three stars for the word, ignoring case, punctuation and extra words', () => {
+    expect(scorePronunciation('Rabbit', [{ transcript: 'a rabbit!', confidence: 0.95 }], Language.EN).stars).toBe(3);
+  });
+
+  it("doesn't count a confidence of zero against the child", () => {
+    expect(scorePronunciation('rabbit', [{ transcript: 'rabbit', confidence: 0 }], Language.EN).stars).toBe(3);
+  });
+
+  it('scores the best of the alternatives', () => {
+    const result = scorePronunciation('cat', [{ transcript: 'hat', confidence: 0.9 }, { transcript: 'cat', confidence: 0.9 }], Language.EN);
+    expect(result).toMatchObject({ stars: 3, heard: 'cat' });
+  });
+
+  it('gives fewer stars, with a hint about the first sound, for a near miss', () => {
+    const result = scorePronunciation('rabbit', [{ transcript: 'wabbit', confidence: 0.9 }], Language.EN);
+    expect(result.stars).toBe(2);
+    expect(result.hint).toBe('Listen to the start: "rabbit" begins with "r".');
+  });
+
+  it('gives no stars and asks for a louder try when nothing was heard', () => {
+    const result = scorePronunciation('rabbit', [{ transcript: '', confidence: 0 }], Language.TH);
+    expect(result).toEqual({ stars: 0, heard: '', hint: 'ไม่ได้ยินเสียงเลย ลองพูดดังๆ อีกครั้งนะ' });
+  });
+});
@@ -0,0 +1,107 @@
+import { Language, PronunciationAttempt } from '../types';
+import { STORES, withStore } from './db';
+
+// --- Pronunciation Scoring ---
+// Compares what speech recognition heard with the target word using a
+// fuzzy match, weighted by the recogniser's own confidence.
+
+export interface RecognitionAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+export interface PronunciationResult {
+  stars: number;
+  heard: string;
+  hint: string;
+}
+
+const normalize = (text: string): string => text.toLowerCase().replace(/[^a-z\s]/g, '').trim();
+
+/** Levenshtein edit distance between two strings. */
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - editDistance(a, b) / longest;
+};
+
+/**
+ * Best similarity between the target and the transcript, also trying each
+ * single word of the transcript, since children often add "a" or "the".
+ */
+const bestMatch = (target: string, transcript: string): number => {
+  const candidates = [transcript, ...transcript.split(/\s+/)];
+  return Math.max(...candidates.map(candidate => similarity(target, candidate)));
+};
+
+const starsFor = (score: number): number => score >= 0.9 ? 3 : score >= 0.7 ? 2 : score >= 0.45 ? 1 : 0;
+
+const hintFor = (target: string, heard: string, stars: number, language: Language): string => {
+  const isThai = language === Language.TH;
+  if (stars === 3) return isThai ? 'เยี่ยมมาก! ออกเสียงได้ชัดเจน' : 'Perfect! Very clear.';
+  if (!heard) return isThai ? 'ไม่ได้ยินเสียงเลย ลองพูดดังๆ อีกครั้งนะ' : "I couldn't hear you. Try again a bit louder!";
+  if (heard[0] !== target[0]) return isThai ? `ฟังเสียงต้นคำดีๆ นะ "${target}" ขึ้นต้นด้วย "${target[0]}"` : `Listen to the start: "${target}" begins with "${target[0]}".`;
+  if (Math.abs(heard.length - target.length) > 1) return isThai ? 'ลองพูดช้าๆ ให้ครบทั้งคำนะ' : 'Try saying the whole word slowly.';
+  return isThai ? 'เกือบแล้ว! ฟังอีกครั้งแล้วพูดตามนะ' : 'Almost! Listen once more and copy it.';
+};
+
+export const scorePronunciation = (target: string, alternatives: RecognitionAlternative[], language: Language): PronunciationResult => {
+  const normalizedTarget = normalize(target);
+  let best = { score: 0, heard: '' };
+  for (const { transcript, confidence } of alternatives) {
+    const heard = normalize(transcript);
+    if (!heard) continue;
+    // Browsers report 0 confidence when they don't know it; don't punish that.
+    const weight = confidence > 0 ? 0.6 + 0.4 * confidence : 1;
+    const score = bestMatch(normalizedTarget, heard) * weight;
+    if (score > best.score) best = { score, heard };
+  }
+  const stars = starsFor(best.score);
+  return { stars, heard: best.heard, hint: hintFor(normalizedTarget, best.heard, stars, language) };
+};
+
+// --- Pronunciation History ---
+
+export const recordPronunciationAttempt = async (profileId: string, english: string, result: PronunciationResult): Promise<void> => {
+  const attempt: PronunciationAttempt = {
+    id: `${profileId}:${english}:${Date.now()}`,
+    profileId,
+    english,
+    heard: result.heard,
+    stars: result.stars,
+    attemptedAt: Date.now(),
+  };
+  await withStore(STORES.PRONUNCIATION, 'readwrite', store => store.put(attempt));
+};
+
+export const getPronunciationHistory = (profileId: string): Promise<PronunciationAttempt[]> =>
+  withStore<PronunciationAttempt[]>(STORES.PRONUNCIATION, 'readonly', store => store.index('profileId').getAll(profileId));
+
+/** The best star rating the child has earned for each word, keyed by English word. */
+export const getBestStars = async (profileId: string): Promise<Record<string, number>> => {
+  const best: Record<string, number> = {};
+  for (const attempt of await getPronunciationHistory(profileId)) {
+    best[attempt.english] = Math.max(best[attempt.english] ?? 0, attempt.stars);
+  }
+  return best;
+};
+
+export const deletePronunciationHistory = async (profileId: string): Promise<void> => {
+  const attempts = await getPronunciationHistory(profileId);
+  await Promise.all(attempts.map(a => withStore(STORES.PRONUNCIATION, 'readwrite', store => store.delete(a.id))));
+};
@@ -0,0 +1,53 @@
+import { Word, QuizQuestion, QuizQuestionType } from '../types';
+import { QUIZ_LENGTH, QUIZ_OPTION_COUNT } from '../constants';
+
+// --- Quiz Builder ---
+// Turns the words a child knows into a shuffled set of multiple-choice
+// questions. Pure functions, so the quiz screen only deals with UI state.
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const sameWord = (a: Word, b: Word) => a.english.toLowerCase() === b.english.toLowerCase();
+
+const uniqueWords = (words: Word[]): Word[] =>
+  words.filter((word, index) => words.findIndex(w => sameWord(w, word)) === index);
+
+const buildQuestion = (type: QuizQuestionType, answer: Word, distractorPool: Word[]): QuizQuestion | null => {
+  const distractors = shuffle(distractorPool.filter(w => !sameWord(w, answer))).slice(0, QUIZ_OPTION_COUNT - 1);
+  if (distractors.length < QUIZ_OPTION_COUNT - 1) return null;
+  return { type, answer, options: shuffle([answer, ...distractors]) };
+};
+
+/**
+ * Builds a quiz from the child's words. `storyWords` are the words of the
+ * last finished story; when present, some questions ask which of them
+ * appeared in it. `allWords` supplies distractors.
+ */
+export const buildQuiz = (knownWords: Word[], storyWords: Word[], allWords: Word[]): QuizQuestion[] => {
+  const pool = uniqueWords(knownWords);
+  const everything = uniqueWords([...allWords, ...pool]);
+  const notInStory = everything.filter(w => !storyWords.some(s => sameWord(s, w)));
+  const generalTypes = [QuizQuestionType.PICTURE_TO_WORD, QuizQuestionType.AUDIO_TO_PICTURE, QuizQuestionType.THAI_TO_ENGLISH];
+
+  const questions: QuizQuestion[] = [];
+  shuffle(uniqueWords(storyWords)).slice(0, 2).forEach(word => {
+    const question = buildQuestion(QuizQuestionType.STORY_WORD, word, notInStory);
+    if (question) questions.push(question);
+  });
+
+  const answers = shuffle(pool);
+  for (let i = 0; questions.length < QUIZ_LENGTH && i < answers.length; i++) {
+    const question = buildQuestion(generalTypes[i % generalTypes.length], answers[i], everything);
+    if (question) questions.push(question);
+  }
+  return shuffle(questions);
+};
+
+export const isCorrectAnswer = (question: QuizQuestion, choice: Word): boolean => sameWord(question.answer, choice);
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { countSyllables, estimateWordTimings, timeOfCharIndex, wordAtTime } from './readAlong';
+
+describe('countSyllables', () => {
+  it.each([
+    ['แมว', 1],
+    ['คน', 1],
+    ['ต้นไม้', 2],
+    ['กระต่าย', 2],
+    ['เด็ก', 1],
+    ['โรงเรียน', 2],
+    ['จันทร์', 1],
+    ['ดวงอาทิตย์', 3],
+  ])('counts %s as %i in Thai', (word, syllables) => {
+    expect(countSyllables(word)).toBe(syllables);
+  });
+
+  it.each([['cat', 1], ['rabbit', 2], ['elephant', 3], ['cake', 1], ['jumped', 1]])('counts %s as %i in English', (word, syllables) => {
+    expect(countSyllables(word)).toBe(syllables);
+  });
+});
+
+describe('estimateWordTimings', () => {
+  it('shares the clip out by syllables and pauses at punctuation', () => {
+    const text = 'A rabbit. Cat';
+    const timings = estimateWordTimings(text, Language.EN, 6);
+    // 1 + 2 syllables, a 2-syllable pause at the full stop, then 1
+    expect(timings.map(t => text.slice(t.start, t.end))).toEqual(['A', 'rabbit', 'Cat']);
+    expect(timings.map(t => [t.startTime, t.endTime])).toEqual([[0, 1], [1, 3], [5, 6]]);
+  });
+
+  it('returns no timings for a clip with no length', () => {
+    expect(estimateWordTimings('A cat', Language.EN, 0)).toEqual([]);
+  });
+
+  it('finds the word being spoken, and holds it through a pause', () => {
+    const timings = estimateWordTimings('A rabbit. Cat', Language.EN, 6);
+    expect(wordAtTime(timings, 2)?.start).toBe(2);
+    expect(wordAtTime(timings, 4)?.start).toBe(2);
+    expect(timeOfCharIndex(timings, 11)).toBe(5);
+  });
+});
@@ -0,0 +1,138 @@
+import { Language } from '../types';
+
+// --- Read-Along Timings ---
+// Which word is being spoken at each moment of a narration clip. The voices
+// don't report word timings, so they are estimated: the clip's length is
+// shared out between the words by their syllable counts, with a little extra
+// for the pauses at punctuation. The device's own voice does report where
+// each word starts, and is followed directly instead.
+
+/** A stretch of text: a word to highlight, or the spaces and punctuation between words. */
+export interface TextSegment {
+  text: string;
+  /** Where the segment starts and ends in the whole text. */
+  start: number;
+  end: number;
+  isWord: boolean;
+}
+
+export interface WordTiming {
+  start: number;
+  end: number;
+  /** When the word is spoken, in seconds from the start of the clip. */
+  startTime: number;
+  endTime: number;
+}
+
+// Pauses, counted in syllables
+const SENTENCE_PAUSE = 2;
+const PHRASE_PAUSE = 0.8;
+
+/**
+ * Splits text into words and what lies between them. Thai has no spaces
+ * between words, so words come from the browser's word segmenter where it
+ * has one, and otherwise from runs of non-space characters.
+ */
+export const segmentWords = (text: string, language: Language): TextSegment[] => {
+  if (typeof Intl.Segmenter === 'function') {
+    return Array.from(new Intl.Segmenter(language, { granularity: 'word' }).segment(text), part => ({
+      text: part.segment,
+      start: part.index,
+      end: part.index + part.segment.length,
+      isWord: part.isWordLike ?? /\p{L}|\p{N}/u.test(part.segment),
+    }));
+  }
+  return Array.from(text.matchAll(/\s+|[^\s]+/g), match => ({
+    text: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length,
+    isWord: /\p{L}|\p{N}/u.test(match[0]),
+  }));
+};
+
+const THAI_LEADING_VOWELS = /[เแโใไ]/;
+const THAI_VOWEL_SIGNS = /[ะัาำิีึืุู็ๅ]/;
+const THAI_CONSONANT = /[ก-ฮ]/;
+const THAI_TONE_MARKS = /[่้๊๋]/g;
+// A consonant under the silencing mark (์) isn't pronounced
+const THAI_SILENT_LETTERS = /[ก-ฮ][ิุ]?์/g;
+
+/**
+ * Roughly how many syllables a Thai word has. Each vowel counts once, with a
+ * leading vowel (เ แ โ ใ ไ) and the signs that complete it taken together.
+ * Syllables with no written vowel, like "ต้น" or "คน", show up as pairs of
+ * consonants that no vowel is attached to.
+ */
+const countThaiSyllables = (word: string): number => {
+  const characters = Array.from(word.replace(THAI_TONE_MARKS, '').replace(THAI_SILENT_LETTERS, ''));
+  let vowels = 0;
+  let bareConsonants = 0;
+  let isVowelPending = false;
+  characters.forEach((character, i) => {
+    const previous = characters[i - 1] ?? '';
+    if (THAI_LEADING_VOWELS.test(character)) {
+      vowels++;
+      isVowelPending = true;
+    } else if (THAI_VOWEL_SIGNS.test(character)) {
+      // Signs in a row belong to one vowel, as do the signs after a leading vowel
+      if (!isVowelPending && !THAI_VOWEL_SIGNS.test(previous)) vowels++;
+      isVowelPending = false;
+    } else if (THAI_CONSONANT.test(character)) {
+      // A leading vowel after a consonant starts the next syllable instead
+      const next = characters[i + 1] ?? '';
+      const hasVowel = THAI_LEADING_VOWELS.test(previous) || THAI_VOWEL_SIGNS.test(previous) || THAI_VOWEL_SIGNS.test(next);
+      if (!hasVowel && !isVowelPending) bareConsonants++;
+    }
+  });
+  return Math.max(1, vowels + Math.floor(bareConsonants / 2));
+};
+
+/** Roughly how many syllables an English word has, by its groups of vowels. */
+const countEnglishSyllables = (word: string): number => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return Math.max(1, word.replace(/\D/g, '').length);
+  if (letters.length <= 3) return 1;
+  const trimmed = letters.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 1);
+};
+
+export const countSyllables = (word: string): number =>
+  /[\u0E00-\u0E7F]/.test(word) ? countThaiSyllables(word) : countEnglishSyllables(word);
+
+const pauseAfter = (segment: TextSegment, language: Language): number => {
+  if (/[.!?…]/.test(segment.text)) return SENTENCE_PAUSE;
+  // Thai marks phrases with a space, English with commas and the like
+  if (/[,;:]/.test(segment.text) || (language === Language.TH && /\s/.test(segment.text))) return PHRASE_PAUSE;
+  return 0;
+};
+
+/** Shares `durationSeconds` out between the words of the text. */
+export const estimateWordTimings = (text: string, language: Language, durationSeconds: number): WordTiming[] => {
+  const segments = segmentWords(text, language);
+  const weights = segments.map(segment => segment.isWord ? countSyllables(segment.text) : pauseAfter(segment, language));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0 || !Number.isFinite(durationSeconds) || durationSeconds <= 0) return [];
+
+  const timings: WordTiming[] = [];
+  let elapsed = 0;
+  segments.forEach((segment, i) => {
+    const length = durationSeconds * weights[i] / total;
+    if (segment.isWord) timings.push({ start: segment.start, end: segment.end, startTime: elapsed, endTime: elapsed + length });
+    elapsed += length;
+  });
+  return timings;
+};
+
+/** The word being spoken at `time`, or the last one before a pause. */
+export const wordAtTime = (timings: WordTiming[], time: number): WordTiming | null => {
+  let current: WordTiming | null = null;
+  for (const timing of timings) {
+    if (timing.startTime > time) break;
+    current = timing;
+  }
+  return current;
+};
+
+/** When the word at `charIndex` starts, to play from it. */
+export const timeOfCharIndex = (timings: WordTiming[], charIndex: number): number =>
+  timings.find(timing => timing.end > charIndex)?.startTime ?? 0;
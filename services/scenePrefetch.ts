@@ -0,0 +1,73 @@
+import { SceneContentResponse, StorySceneRequest } from '../apiProtocol';
+import { fetchStoryScene } from './geminiService';
+
+// --- Speculative Scene Prefetch ---
+// While a scene is narrated, the scene behind each offered choice is already
+// being written. Picking a choice uses its prefetched scene and cancels the
+// rest; anything else (a free-form idea) goes to a fresh generation.
+
+/** Deployments can turn prefetching off for everyone with SCENE_PREFETCH=off. */
+export const isScenePrefetchAvailable = process.env.SCENE_PREFETCH !== 'off';
+
+export interface ScenePrefetcher {
+  /** Starts generating a scene under `key`, unless it's already running or the budget is spent. */
+  prefetch(key: string, request: StorySceneRequest): void;
+  /** Claims a prefetched scene and cancels every other one. Null if there's nothing under `key`. */
+  take(key: string): Promise<SceneContentResponse> | null;
+  cancelAll(): void;
+}
+
+export const createScenePrefetcher = (budget: number): ScenePrefetcher => {
+  const pending = new Map<string, { controller: AbortController; scene: Promise<SceneContentResponse> }>();
+  let remaining = budget;
+
+  const cancelAll = () => {
+    pending.forEach(({ controller }) => controller.abort());
+    pending.clear();
+  };
+
+  return {
+    prefetch(key, request) {
+      if (pending.has(key) || remaining <= 0) return;
+      remaining--;
+      const controller = new AbortController();
+      const scene = fetchStoryScene(request, controller.signal);
+      // Nobody may ever claim this scene, so don't let its failure go unhandled
+      scene.catch(() => undefined);
+      pending.set(key, { controller, scene });
+    },
+    take(key) {
+      const entry = pending.get(key);
+      pending.delete(key);
+      cancelAll();
+      return entry?.scene ?? null;
+    },
+    cancelAll,
+  };
+};
+
+const normalize = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Finds the offered choice a spoken answer refers to: the child may repeat
+ * it word for word, say part of it, or add words around it.
+ */
+export const matchChoice = (spoken: string, choices: string[]): string | null => {
+  const heard = normalize(spoken);
+  if (!heard) return null;
+  const heardWords = new Set(heard.split(' '));
+
+  let best: { choice: string; score: number } | null = null;
+  for (const choice of choices) {
+    const target = normalize(choice);
+    if (!target) continue;
+    if (heard === target || heard.includes(target)) return choice;
+    // Thai is written without spaces, so fall back to containment for single-token text
+    const targetWords = target.split(' ');
+    const overlap = targetWords.filter(word => heardWords.has(word)).length / targetWords.length;
+    const score = targetWords.length === 1 && target.includes(heard) && heard.length >= target.length / 2 ? 1 : overlap;
+    if (!best || score > best.score) best = { choice, score };
+  }
+  return best && best.score >= 0.6 ? best.choice : null;
+};
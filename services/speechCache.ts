@@ -0,0 +1,74 @@
+import { AIVoice, Language } from '../types';
+import { AUDIO_CACHE_MAX_BYTES, AUDIO_MEMORY_CACHE_ENTRIES } from '../constants';
+import { SpeechResponse } from '../apiProtocol';
+import { STORES } from './db';
+import { createAssetCache, hashKey, blobToDataUrl, dataUrlToBlob } from './assetCache';
+
+// --- Narration Cache ---
+// Synthesized speech is looked up in memory first, then in IndexedDB, before
+// asking the server. Anything heard once replays instantly, even offline.
+
+export interface SpeechCacheStats {
+  memoryHits: number;
+  diskHits: number;
+  misses: number;
+  /** Share of lookups served from either tier, from 0 to 1. */
+  hitRate: number;
+}
+
+const diskCache = createAssetCache(STORES.AUDIO_CACHE, AUDIO_CACHE_MAX_BYTES);
+// A Map iterates in insertion order, so re-inserting on every hit keeps the
+// least recently used entry first.
+const memoryCache = new Map<string, SpeechResponse>();
+const counts = { memoryHits: 0, diskHits: 0, misses: 0 };
+
+/** Matches the whitespace cleanup the server applies before synthesizing. */
+const normalizeText = (text: string): string => text.replace(/"""/g, '"').replace(/\s+/g, ' ').trim();
+
+export const speechCacheKey = (text: string, voice: AIVoice, language: Language): Promise<string> =>
+  hashKey('speech', voice, language, normalizeText(text));
+
+const remember = (key: string, speech: SpeechResponse) => {
+  memoryCache.delete(key);
+  memoryCache.set(key, speech);
+  while (memoryCache.size > AUDIO_MEMORY_CACHE_ENTRIES) {
+    memoryCache.delete(memoryCache.keys().next().value!);
+  }
+};
+
+export const getCachedSpeech = async (key: string): Promise<SpeechResponse | null> => {
+  const inMemory = memoryCache.get(key);
+  if (inMemory) {
+    counts.memoryHits++;
+    remember(key, inMemory);
+    return inMemory;
+  }
+
+  const blob = await diskCache.get(key).catch(error => {
+    console.error("Failed to read cached speech:", error);
+    return null;
+  });
+  if (!blob) {
+    counts.misses++;
+    return null;
+  }
+  counts.diskHits++;
+  const dataUrl = await blobToDataUrl(blob);
+  const speech: SpeechResponse = { mimeType: blob.type, audioContent: dataUrl.slice(dataUrl.indexOf(',') + 1) };
+  remember(key, speech);
+  return speech;
+};
+
+export const cacheSpeech = async (key: string, speech: SpeechResponse): Promise<void> => {
+  remember(key, speech);
+  const blob = await dataUrlToBlob(`data:${speech.mimeType};base64,${speech.audioContent}`);
+  await diskCache.put(key, blob);
+};
+
+export const getSpeechCacheStats = (): SpeechCacheStats => {
+  const lookups = counts.memoryHits + counts.diskHits + counts.misses;
+  return {
+    ...counts,
+    hitRate: lookups === 0 ? 0 : (counts.memoryHits + counts.diskHits) / lookups,
+  };
+};
@@ -0,0 +1,25 @@
+import { SavedStory } from '../types';
+import { STORES, withStore } from './db';
+
+// --- Story Library ---
+// Finished stories are kept in IndexedDB so children can re-read them later.
+
+export const createStoryId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveStory = async (story: SavedStory): Promise<void> => {
+  await withStore(STORES.STORIES, 'readwrite', store => store.put(story));
+};
+
+/**
+ * Returns the profile's saved stories, newest first. Stories saved before
+ * profiles existed have no owner and are shown to everyone.
+ */
+export const getAllStories = async (profileId: string): Promise<SavedStory[]> => {
+  const stories = await withStore<SavedStory[]>(STORES.STORIES, 'readonly', store => store.index('createdAt').getAll());
+  return stories.filter(s => !s.profileId || s.profileId === profileId).reverse();
+};
+
+export const deleteStory = async (id: string): Promise<void> => {
+  await withStore(STORES.STORIES, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,39 @@
+import { SavedStory, StoryNode, StoryScene } from '../types';
+
+// --- Story Tree ---
+// A story is a tree of scenes: every choice the child explores adds a branch.
+// Nodes are kept in a flat list linked by parentId, in the order they were made.
+
+export const childrenOf = (nodes: StoryNode[], parentId: string | null): StoryNode[] =>
+  nodes.filter(node => node.parentId === parentId);
+
+/** The nodes from the opening scene down to `nodeId`, or an empty path if it isn't in the tree. */
+export const pathTo = (nodes: StoryNode[], nodeId: string | null): StoryNode[] => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const path: StoryNode[] = [];
+  for (let node = nodeId ? byId.get(nodeId) : undefined; node; node = node.parentId ? byId.get(node.parentId) : undefined) {
+    path.unshift(node);
+  }
+  return path;
+};
+
+/** The path to `nodeId`, continued along the first-explored branch until it ends. */
+export const pathThrough = (nodes: StoryNode[], nodeId: string): StoryNode[] => {
+  const path = pathTo(nodes, nodeId);
+  for (let next = childrenOf(nodes, nodeId)[0]; next; next = childrenOf(nodes, next.id)[0]) {
+    path.push(next);
+  }
+  return path;
+};
+
+/** The saved tree, or a single-path tree for stories saved before branching. */
+export const getStoryTree = (story: SavedStory): { nodes: StoryNode[]; endingNodeId: string } => {
+  if (story.nodes?.length && story.endingNodeId) return { nodes: story.nodes, endingNodeId: story.endingNodeId };
+  const nodes = story.scenes.map((scene: StoryScene, index): StoryNode => ({
+    id: `${story.id}-${index}`,
+    parentId: index === 0 ? null : `${story.id}-${index - 1}`,
+    choice: index === 0 ? null : story.choicesTaken[index - 1] ?? null,
+    scene,
+  }));
+  return { nodes, endingNodeId: nodes[nodes.length - 1]?.id ?? '' };
+};
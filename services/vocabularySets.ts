@@ -0,0 +1,94 @@
+import { Word, WordCategory, AgeBand, VocabularySet } from '../types';
+import { VOCABULARY } from '../constants';
+import { MAX_EXCLUDED_WORDS } from '../apiProtocol';
+import { generateVocabularyList } from './geminiService';
+import { STORES, withStore } from './db';
+
+// --- Growing Vocabulary Sets ---
+// Each category starts with the built-in words from VOCABULARY. "More words"
+// asks the AI for new ones, which are deduplicated against everything the
+// category already has and cached on the device, so categories keep growing
+// instead of repeating the same five words.
+
+const wordKey = (text: string): string => text.trim().toLowerCase();
+
+// Longest English word (ignoring spaces) shown to each age band.
+const MAX_LETTERS: Record<AgeBand, number> = {
+  [AgeBand.TODDLER]: 8,
+  [AgeBand.PRESCHOOL]: 10,
+  [AgeBand.EARLY_READER]: 14,
+};
+
+// A last line of defence behind the prompt; the model occasionally slips.
+const UNSUITABLE_WORDS = new Set([
+  'alcohol', 'beer', 'wine', 'cigarette', 'gun', 'knife', 'sword', 'bomb', 'blood',
+  'kill', 'dead', 'death', 'war', 'weapon', 'drug', 'drugs', 'poison', 'ghost', 'monster',
+]);
+
+export const isAgeAppropriate = (word: Word, ageBand: AgeBand): boolean => {
+  const english = wordKey(word.english);
+  const parts = english.split(/\s+/);
+  if (!/^[a-z]+( [a-z]+)?$/.test(english) || !word.thai.trim()) return false;
+  if (parts.length > 1 && ageBand !== AgeBand.EARLY_READER) return false;
+  if (parts.some(part => UNSUITABLE_WORDS.has(part))) return false;
+  return english.replace(/\s/g, '').length <= MAX_LETTERS[ageBand];
+};
+
+/** Drops words whose English or Thai matches one already seen, keeping the first. */
+const dedupe = (words: Word[]): Word[] => {
+  const seen = new Set<string>();
+  return words.filter(word => {
+    const keys = [`en:${wordKey(word.english)}`, `th:${word.thai.trim()}`];
+    if (keys.some(key => seen.has(key))) return false;
+    keys.forEach(key => seen.add(key));
+    return true;
+  });
+};
+
+const getVocabularySet = async (category: WordCategory): Promise<VocabularySet | undefined> =>
+  withStore<VocabularySet | undefined>(STORES.VOCABULARY_SETS, 'readonly', store => store.get(category));
+
+const combine = (category: WordCategory, fetched: Word[], ageBand: AgeBand): Word[] =>
+  dedupe([...VOCABULARY[category], ...fetched.filter(word => isAgeAppropriate(word, ageBand))]);
+
+/** Every category's words for this age band: built-in words first, then fetched ones in the order they arrived. */
+export const getVocabulary = async (ageBand: AgeBand): Promise<Record<WordCategory, Word[]>> => {
+  const sets = await withStore<VocabularySet[]>(STORES.VOCABULARY_SETS, 'readonly', store => store.getAll());
+  const fetchedByCategory = new Map(sets.map(set => [set.category, set.words]));
+  const vocabulary = {} as Record<WordCategory, Word[]>;
+  for (const category of Object.values(WordCategory)) {
+    vocabulary[category] = combine(category, fetchedByCategory.get(category) ?? [], ageBand);
+  }
+  return vocabulary;
+};
+
+/**
+ * Asks the AI for words the category doesn't have yet and caches them.
+ * Resolves with the category's full word list and how many new words the
+ * child will actually see.
+ */
+export const fetchMoreWords = async (category: WordCategory, ageBand: AgeBand): Promise<{ words: Word[]; addedCount: number }> => {
+  const cached = (await getVocabularySet(category))?.words ?? [];
+  const known = dedupe([...VOCABULARY[category], ...cached]);
+  // The newest words are the likeliest to come back, so they're the ones to exclude
+  const exclude = known.map(word => word.english).slice(-MAX_EXCLUDED_WORDS);
+
+  const fetched = await generateVocabularyList(category, ageBand, exclude);
+  // Cached words are sent back as exclusions, so only keep ones the protocol accepts
+  const wellFormed = fetched
+    .map(word => ({ thai: word.thai.trim(), english: word.english.trim().replace(/\s+/g, ' ') }))
+    .filter(word => /^[A-Za-z][A-Za-z '-]*$/.test(word.english) && word.thai);
+  const updated = dedupe([...known, ...wellFormed]);
+  const added = updated.slice(known.length);
+  const allFetched = [...cached, ...added];
+
+  if (added.length > 0) {
+    const set: VocabularySet = { category, words: allFetched, updatedAt: Date.now() };
+    await withStore(STORES.VOCABULARY_SETS, 'readwrite', store => store.put(set));
+  }
+
+  return {
+    words: combine(category, allFetched, ageBand),
+    addedCount: added.filter(word => isAgeAppropriate(word, ageBand)).length,
+  };
+};
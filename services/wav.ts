@@ -0,0 +1,166 @@
+// --- WAV Reading and Writing ---
+// Narration arrives as WAV files whose format depends on the voice engine,
+// so clips are read into plain samples at any PCM bit depth, resampled to
+// one rate, and written out again as a single 16-bit file. The writer can
+// add cue points with labels (chapter marks) and a title.
+
+/** Mono samples from -1 to 1. */
+export interface PcmAudio {
+  sampleRate: number;
+  samples: Float32Array;
+}
+
+export interface WavCue {
+  /** Where the cue falls, in samples from the start. */
+  sampleOffset: number;
+  label: string;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const fourCC = (view: DataView, offset: number): string =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const readSample = (view: DataView, offset: number, bitsPerSample: number, isFloat: boolean): number => {
+  if (isFloat) return bitsPerSample === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+  switch (bitsPerSample) {
+    case 8: return (view.getUint8(offset) - 128) / 128;
+    case 16: return view.getInt16(offset, true) / 32768;
+    case 24: return ((view.getInt8(offset + 2) << 16) | (view.getUint8(offset + 1) << 8) | view.getUint8(offset)) / 8388608;
+    case 32: return view.getInt32(offset, true) / 2147483648;
+    default: throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`);
+  }
+};
+
+/** Reads a PCM or float WAV file, mixing its channels down to mono. Returns null if it isn't a WAV file. */
+export const decodeWav = (bytes: Uint8Array): PcmAudio | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 12 || fourCC(view, 0) !== 'RIFF' || fourCC(view, 8) !== 'WAVE') return null;
+
+  let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = fourCC(view, offset);
+    // Streamed files may leave the data size unset, so clamp it to what's there
+    const size = Math.min(view.getUint32(offset + 4, true), bytes.length - offset - 8);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      let audioFormat = view.getUint16(body, true);
+      // The extensible format keeps the real one at the start of its sub-format GUID
+      if (audioFormat === WAVE_FORMAT_EXTENSIBLE && size >= 26) audioFormat = view.getUint16(body + 24, true);
+      format = { audioFormat, channels: view.getUint16(body + 2, true), sampleRate: view.getUint32(body + 4, true), bitsPerSample: view.getUint16(body + 14, true) };
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV data before its format');
+      const { audioFormat, channels, sampleRate, bitsPerSample } = format;
+      if (audioFormat !== WAVE_FORMAT_PCM && audioFormat !== WAVE_FORMAT_IEEE_FLOAT) throw new Error(`Unsupported WAV format: ${audioFormat}`);
+      const bytesPerSample = bitsPerSample / 8;
+      const frameCount = Math.floor(size / (bytesPerSample * channels));
+      const samples = new Float32Array(frameCount);
+      for (let frame = 0; frame < frameCount; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < channels; channel++) {
+          sum += readSample(view, body + (frame * channels + channel) * bytesPerSample, bitsPerSample, audioFormat === WAVE_FORMAT_IEEE_FLOAT);
+        }
+        samples[frame] = sum / channels;
+      }
+      return { sampleRate, samples };
+    }
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+  throw new Error('WAV file without audio data');
+};
+
+/** Resamples by linear interpolation, which is plenty for speech. */
+export const resample = (audio: PcmAudio, sampleRate: number): Float32Array => {
+  if (audio.sampleRate === sampleRate) return audio.samples;
+  const ratio = audio.sampleRate / sampleRate;
+  const length = Math.floor(audio.samples.length / ratio);
+  const result = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, audio.samples.length - 1);
+    result[i] = audio.samples[index] + (audio.samples[next] - audio.samples[index]) * (position - index);
+  }
+  return result;
+};
+
+const encoder = new TextEncoder();
+
+/** A chunk, padded to an even length. */
+const chunk = (id: string, body: Uint8Array): Uint8Array => {
+  const padded = new Uint8Array(8 + body.length + (body.length % 2));
+  const view = new DataView(padded.buffer);
+  for (let i = 0; i < 4; i++) view.setUint8(i, id.charCodeAt(i));
+  view.setUint32(4, body.length, true);
+  padded.set(body, 8);
+  return padded;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const fourCCBytes = (id: string): Uint8Array => encoder.encode(id);
+
+/** Zero-terminated UTF-8 text, as RIFF text chunks hold it. */
+const zString = (text: string): Uint8Array => concat([encoder.encode(text), new Uint8Array(1)]);
+
+export interface WavMetadata {
+  title?: string;
+  cues?: WavCue[];
+}
+
+/** Writes mono samples as a 16-bit PCM WAV file, with cue points and labels for any cues. */
+export const encodeWav = (samples: Float32Array, sampleRate: number, metadata: WavMetadata = {}): Blob => {
+  const format = new DataView(new ArrayBuffer(16));
+  format.setUint16(0, WAVE_FORMAT_PCM, true);
+  format.setUint16(2, 1, true);
+  format.setUint32(4, sampleRate, true);
+  format.setUint32(8, sampleRate * 2, true);
+  format.setUint16(12, 2, true);
+  format.setUint16(14, 16, true);
+
+  const pcm = new DataView(new ArrayBuffer(samples.length * 2));
+  samples.forEach((sample, i) => pcm.setInt16(i * 2, Math.round(Math.max(-1, Math.min(1, sample)) * 32767), true));
+
+  const chunks = [chunk('fmt ', new Uint8Array(format.buffer)), chunk('data', new Uint8Array(pcm.buffer))];
+
+  const cues = metadata.cues ?? [];
+  if (cues.length > 0) {
+    const cueList = new DataView(new ArrayBuffer(4 + cues.length * 24));
+    cueList.setUint32(0, cues.length, true);
+    cues.forEach((cue, i) => {
+      const at = 4 + i * 24;
+      cueList.setUint32(at, i + 1, true);
+      cueList.setUint32(at + 4, cue.sampleOffset, true);
+      fourCCBytes('data').forEach((byte, j) => cueList.setUint8(at + 8 + j, byte));
+      cueList.setUint32(at + 20, cue.sampleOffset, true);
+    });
+    chunks.push(chunk('cue ', new Uint8Array(cueList.buffer)));
+
+    const labels = cues.map((cue, i) => {
+      const id = new DataView(new ArrayBuffer(4));
+      id.setUint32(0, i + 1, true);
+      return chunk('labl', concat([new Uint8Array(id.buffer), zString(cue.label)]));
+    });
+    chunks.push(chunk('LIST', concat([fourCCBytes('adtl'), ...labels])));
+  }
+
+  if (metadata.title) {
+    chunks.push(chunk('LIST', concat([fourCCBytes('INFO'), chunk('INAM', zString(metadata.title)), chunk('ISFT', zString('ImagiTale'))])));
+  }
+
+  const body = concat([fourCCBytes('WAVE'), ...chunks]);
+  return new Blob([chunk('RIFF', body)], { type: 'audio/wav' });
+};
@@ -0,0 +1,87 @@
+import { Word, WordProgress } from '../types';
+import { LEITNER_INTERVAL_DAYS } from '../constants';
+import { STORES, withStore } from './db';
+
+// --- Spaced Repetition (Leitner boxes) ---
+// A word starts in box 1 when a child first uses it in a story. Each correct
+// recall moves it up a box and pushes the next review further out; a miss
+// sends it back to box 1.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const progressId = (profileId: string, word: Word): string => `${profileId}:${word.english.toLowerCase()}`;
+
+const dueAfter = (box: number, now: number): number => now + LEITNER_INTERVAL_DAYS[box - 1] * DAY_MS;
+
+/** Returns the start of the next local day, so "due today" means due by tonight. */
+const endOfToday = (now: number): number => {
+  const date = new Date(now);
+  date.setHours(24, 0, 0, 0);
+  return date.getTime();
+};
+
+export const scheduleRecall = (progress: WordProgress, remembered: boolean, now = Date.now()): WordProgress => {
+  const box = remembered ? Math.min(progress.box + 1, LEITNER_INTERVAL_DAYS.length) : 1;
+  return {
+    ...progress,
+    box,
+    correctCount: progress.correctCount + (remembered ? 1 : 0),
+    incorrectCount: progress.incorrectCount + (remembered ? 0 : 1),
+    lastReviewedAt: now,
+    dueAt: dueAfter(box, now),
+  };
+};
+
+export const isDue = (progress: WordProgress, now = Date.now()): boolean => progress.dueAt < endOfToday(now);
+
+export const getWordProgress = (profileId: string): Promise<WordProgress[]> =>
+  withStore<WordProgress[]>(STORES.WORD_PROGRESS, 'readonly', store => store.index('profileId').getAll(profileId));
+
+/** Returns the profile's due words, most overdue first. */
+export const getDueWords = async (profileId: string, now = Date.now()): Promise<WordProgress[]> => {
+  const progress = await getWordProgress(profileId);
+  return progress.filter(p => isDue(p, now)).sort((a, b) => a.dueAt - b.dueAt);
+};
+
+const saveWordProgress = async (progress: WordProgress): Promise<void> => {
+  await withStore(STORES.WORD_PROGRESS, 'readwrite', store => store.put(progress));
+};
+
+/** Records that the child picked these words for a story. New words enter box 1. */
+export const recordExposure = async (profileId: string, words: Word[], now = Date.now()): Promise<void> => {
+  const existing = new Map((await getWordProgress(profileId)).map(p => [p.id, p]));
+  await Promise.all(words.map(word => {
+    const id = progressId(profileId, word);
+    const current = existing.get(id);
+    return saveWordProgress(current
+      ? { ...current, exposures: current.exposures + 1 }
+      : {
+          id,
+          profileId,
+          word,
+          box: 1,
+          exposures: 1,
+          correctCount: 0,
+          incorrectCount: 0,
+          lastReviewedAt: null,
+          dueAt: dueAfter(1, now),
+        });
+  }));
+};
+
+/**
+ * Records whether the child remembered a word, and returns the rescheduled
+ * record. Words that were never used in a story are ignored.
+ */
+export const recordRecall = async (profileId: string, word: Word, remembered: boolean, now = Date.now()): Promise<WordProgress | null> => {
+  const current = await withStore<WordProgress | undefined>(STORES.WORD_PROGRESS, 'readonly', store => store.get(progressId(profileId, word)));
+  if (!current) return null;
+  const updated = scheduleRecall(current, remembered, now);
+  await saveWordProgress(updated);
+  return updated;
+};
+
+export const deleteWordProgress = async (profileId: string): Promise<void> => {
+  const progress = await getWordProgress(profileId);
+  await Promise.all(progress.map(p => withStore(STORES.WORD_PROGRESS, 'readwrite', store => store.delete(p.id))));
+};
@@ -0,0 +1,171 @@
+import { Language, OfflineStory, StoryTone } from './types';
+
+// --- OFFLINE STORY PACK ---
+// Pre-written branching stories told when the storyteller can't be reached.
+// Their pictures and recorded narration live in public/story-pack and are
+// cached by the service worker with the rest of the app. Every path has the same number of scenes.
+
+export const OFFLINE_STORY_PACK: OfflineStory[] = [
+  {
+    id: 'lost-balloon',
+    title: { [Language.TH]: 'ลูกโป่งสีแดงของปิ๊ป', [Language.EN]: 'Pip and the Red Balloon' },
+    storyTone: StoryTone.ADVENTURE,
+    words: [
+      { thai: 'สุนัข', english: 'dog' },
+      { thai: 'ต้นไม้', english: 'tree' },
+      { thai: 'สวน', english: 'park' },
+      { thai: 'เค้ก', english: 'cake' },
+      { thai: 'มีความสุข', english: 'happy' },
+    ],
+    sceneCount: 3,
+    startSceneId: 'start',
+    scenes: {
+      start: {
+        text: {
+          [Language.TH]: 'ลูกหมาน้อยชื่อปิ๊ปกำลังเล่นอยู่ในสวนที่มีแดดอุ่นๆ ทันใดนั้น ลูกโป่งสีแดงสดก็ลอยผ่านมา แล้วลอยสูงขึ้นไปตามสายลม',
+          [Language.EN]: 'Pip the little puppy was playing in the sunny park when a bright red balloon floated by, bobbing up and away on the breeze.',
+        },
+        imageUrl: '/story-pack/lost-balloon/start.svg',
+        choices: [
+          { label: { [Language.TH]: 'ตามลูกโป่งขึ้นไปบนเนินเขา', [Language.EN]: 'Follow the balloon up the hill' }, next: 'hill' },
+          { label: { [Language.TH]: 'ขอให้นกช่วย', [Language.EN]: 'Ask the bird for help' }, next: 'bird' },
+        ],
+      },
+      hill: {
+        text: {
+          [Language.TH]: 'ปิ๊ปวิ่งขึ้นเนินเขาสีเขียว ฮึบ ฮึบ ฮึบ! พอถึงยอดเนิน ก็เห็นเชือกของลูกโป่งไปติดอยู่ที่กิ่งของต้นไม้ใหญ่',
+          [Language.EN]: 'Pip ran up the green hill, puff, puff, puff! At the top, the balloon\'s string was caught on a branch of a big old tree.',
+        },
+        imageUrl: '/story-pack/lost-balloon/hill.svg',
+        choices: [
+          { label: { [Language.TH]: 'รอให้ลมพัด', [Language.EN]: 'Wait for the wind' }, next: 'wind' },
+          { label: { [Language.TH]: 'เรียกกระรอกมาช่วย', [Language.EN]: 'Call the squirrel' }, next: 'squirrel' },
+        ],
+      },
+      bird: {
+        text: {
+          [Language.TH]: 'นกสีฟ้าตัวน้อยบินลงมาเกาะข้างปิ๊ป "ฉันบินไปจับให้เอง!" เธอร้องจิ๊บๆ แล้วก็บินตามลูกโป่งไป',
+          [Language.EN]: 'A little blue bird landed next to Pip. "I can fly up and catch it!" she chirped, and off she flew after the balloon.',
+        },
+        imageUrl: '/story-pack/lost-balloon/bird.svg',
+        choices: [
+          { label: { [Language.TH]: 'เชียร์นกน้อย', [Language.EN]: 'Cheer for the bird' }, next: 'cheer' },
+          { label: { [Language.TH]: 'วิ่งตามไปข้างล่าง', [Language.EN]: 'Run along below' }, next: 'run' },
+        ],
+      },
+      wind: {
+        text: {
+          [Language.TH]: 'ปิ๊ปนั่งรออย่างใจเย็น ฟิ้ว! สายลมอ่อนๆ พัดกิ่งไม้ให้ไหว ลูกโป่งก็ลอยลงมาอยู่ในอุ้งเท้าของปิ๊ปพอดี ปิ๊ปเอาไปคืนเด็กหญิงที่ทำหาย เธอยิ้มกว้างที่สุดเลย จบแล้วจ้า',
+          [Language.EN]: 'Pip waited quietly. Whoosh! A gentle wind wiggled the branch, and the balloon floated down right into Pip\'s paws. Pip gave it back to the little girl who had lost it, and she smiled the biggest smile. The end.',
+        },
+        imageUrl: '/story-pack/lost-balloon/wind.svg',
+        choices: [],
+      },
+      squirrel: {
+        text: {
+          [Language.TH]: '"กระรอกจ๋า ช่วยหน่อยได้ไหม" ปิ๊ปร้องเรียก กระรอกวิ่งปรู๊ดขึ้นต้นไม้ แล้วแกะเชือกออกให้ ปิ๊ปกับกระรอกผลัดกันถือลูกโป่งเดินกลับบ้านด้วยกัน จบแล้วจ้า',
+          [Language.EN]: '"Squirrel, can you help?" called Pip. The squirrel scampered up the tree and wiggled the string free. Pip and the squirrel took turns holding the balloon all the way home. The end.',
+        },
+        imageUrl: '/story-pack/lost-balloon/squirrel.svg',
+        choices: [],
+      },
+      cheer: {
+        text: {
+          [Language.TH]: '"สู้ๆ นะนกน้อย!" ปิ๊ปส่งเสียงเชียร์ นกน้อยคาบเชือกไว้ได้ แล้วพาลูกโป่งกลับมา ปิ๊ปผูกลูกโป่งไว้ข้างรังนก ให้ทุกคนในสวนได้เห็น จบแล้วจ้า',
+          [Language.EN]: '"Go, bird, go!" cheered Pip. The little bird caught the string in her beak and brought the balloon back. Pip tied it next to her nest so everyone in the park could see it. The end.',
+        },
+        imageUrl: '/story-pack/lost-balloon/cheer.svg',
+        choices: [],
+      },
+      run: {
+        text: {
+          [Language.TH]: 'ปิ๊ปวิ่งตามอยู่ข้างล่าง ส่วนนกน้อยบินอยู่ข้างบน ทั้งคู่ตามลูกโป่งไปจนถึงงานวันเกิด ที่ลูกโป่งหลุดออกมานั่นเอง! ทุกคนปรบมือ แล้วปิ๊ปก็ได้เค้กหนึ่งชิ้น จบแล้วจ้า',
+          [Language.EN]: 'Pip ran along below as the bird flew above. Together they followed the balloon all the way to the birthday party it came from! Everyone clapped, and Pip got a slice of cake. The end.',
+        },
+        imageUrl: '/story-pack/lost-balloon/run.svg',
+        choices: [],
+      },
+    },
+  },
+  {
+    id: 'moon-rabbit',
+    title: { [Language.TH]: 'กระต่ายน้อยกับดวงจันทร์', [Language.EN]: 'Mali and the Moon' },
+    storyTone: StoryTone.DREAMY,
+    words: [
+      { thai: 'นอน', english: 'sleep' },
+      { thai: 'ดอกไม้', english: 'flower' },
+      { thai: 'น้ำ', english: 'water' },
+      { thai: 'ภูเขา', english: 'mountain' },
+      { thai: 'มีความสุข', english: 'happy' },
+    ],
+    sceneCount: 3,
+    startSceneId: 'start',
+    scenes: {
+      start: {
+        text: {
+          [Language.TH]: 'กระต่ายน้อยมะลินอนไม่หลับ เธอมองออกไปนอกหน้าต่าง เห็นดวงจันทร์กลมโต "อยากไปบอกราตรีสวัสดิ์ดวงจันทร์จัง" เธอกระซิบ',
+          [Language.EN]: 'Mali the bunny could not sleep. She looked out of her window at the big round moon. "I wish I could say goodnight to the moon," she whispered.',
+        },
+        imageUrl: '/story-pack/moon-rabbit/start.svg',
+        choices: [
+          { label: { [Language.TH]: 'ตามหิ่งห้อยไป', [Language.EN]: 'Follow the fireflies' }, next: 'fireflies' },
+          { label: { [Language.TH]: 'ไปที่ทะเลสาบ', [Language.EN]: 'Go to the lake' }, next: 'lake' },
+        ],
+      },
+      fireflies: {
+        text: {
+          [Language.TH]: 'หิ่งห้อยตัวจิ๋วส่องแสงระยิบระยับอยู่ข้างนอก พวกมันเรียงตัวเป็นทางเรืองแสงผ่านสวน มะลิก็กระโดดตามไป ดึ๋ง ดึ๋ง ดึ๋ง',
+          [Language.EN]: 'Tiny fireflies twinkled outside. They made a glowing path through the garden, and Mali hopped along it, hop, hop, hop.',
+        },
+        imageUrl: '/story-pack/moon-rabbit/fireflies.svg',
+        choices: [
+          { label: { [Language.TH]: 'ปีนขึ้นเนินสูง', [Language.EN]: 'Climb the tall hill' }, next: 'hilltop' },
+          { label: { [Language.TH]: 'นั่งข้างดอกไม้', [Language.EN]: 'Sit by the flowers' }, next: 'flowers' },
+        ],
+      },
+      lake: {
+        text: {
+          [Language.TH]: 'ที่ทะเลสาบ น้ำนิ่งสงบ มะลิมองเห็นดวงจันทร์สะท้อนอยู่ในน้ำ กลมและสว่างเหมือนจานสีเงิน',
+          [Language.EN]: 'At the lake, the water was calm and still. Mali could see the moon shining in the water, as round and bright as a silver plate.',
+        },
+        imageUrl: '/story-pack/moon-rabbit/lake.svg',
+        choices: [
+          { label: { [Language.TH]: 'โบกมือให้ดวงจันทร์ในน้ำ', [Language.EN]: 'Wave to the moon in the water' }, next: 'wave' },
+          { label: { [Language.TH]: 'ถามคุณกบ', [Language.EN]: 'Ask the frog a question' }, next: 'frog' },
+        ],
+      },
+      hilltop: {
+        text: {
+          [Language.TH]: 'บนยอดเนิน ดวงจันทร์ดูใกล้นิดเดียว! "ราตรีสวัสดิ์นะดวงจันทร์" มะลิพูด ดวงจันทร์เหมือนยิ้มตอบ มะลิหาวหวอด แล้วกระโดดกลับไปนอนที่บ้าน จบแล้วจ้า',
+          [Language.EN]: 'From the top of the hill, the moon looked so close! "Goodnight, moon," said Mali, and the moon seemed to smile back. Mali gave a big yawn and hopped home to bed. The end.',
+        },
+        imageUrl: '/story-pack/moon-rabbit/hilltop.svg',
+        choices: [],
+      },
+      flowers: {
+        text: {
+          [Language.TH]: 'มะลินั่งลงข้างดอกไม้ที่กำลังหลับ หิ่งห้อยเต้นระบำรอบตัวเธอเหมือนดาวดวงเล็กๆ ดวงจันทร์เฝ้ามองอยู่บนฟ้า ไม่นานมะลิก็หลับตา แล้วฝันดีทั้งคืน จบแล้วจ้า',
+          [Language.EN]: 'Mali sat by the sleepy flowers. The fireflies danced around her like little stars, and the moon watched over them all. Soon Mali\'s eyes closed, and she dreamed a happy dream. The end.',
+        },
+        imageUrl: '/story-pack/moon-rabbit/flowers.svg',
+        choices: [],
+      },
+      wave: {
+        text: {
+          [Language.TH]: 'มะลิโบกมือ น้ำกระเพื่อมจนดวงจันทร์ในน้ำดุ๊กดิ๊กเหมือนกำลังหัวเราะ "ราตรีสวัสดิ์นะดวงจันทร์!" มะลิหัวเราะคิกคัก แล้วกระโดดกลับบ้านอย่างมีความสุข จบแล้วจ้า',
+          [Language.EN]: 'Mali waved, and the ripples made the moon in the water wiggle as if it were giggling. "Goodnight, moon!" Mali laughed. Then she hopped home, happy and sleepy. The end.',
+        },
+        imageUrl: '/story-pack/moon-rabbit/wave.svg',
+        choices: [],
+      },
+      frog: {
+        text: {
+          [Language.TH]: '"ดวงจันทร์นอนไหมจ๊ะ" มะลิถามคุณกบ "ดวงจันทร์ไม่นอนหรอก คอยเฝ้าพวกเราทั้งคืนเลย" คุณกบตอบ มะลิรู้สึกอบอุ่นและปลอดภัย แล้วก็กลับไปนอนหลับสบาย จบแล้วจ้า',
+          [Language.EN]: '"Does the moon ever sleep?" Mali asked the frog. "The moon stays awake to watch over us all night," croaked the frog. Mali felt cozy and safe, and she went home to sleep. The end.',
+        },
+        imageUrl: '/story-pack/moon-rabbit/frog.svg',
+        choices: [],
+      },
+    },
+  },
+];
@@ -7,6 +7,9 @@ export enum GameScreen {
   HOME = 'home',
   VOCAB = 'vocab',
   STORY = 'story',
+  LIBRARY = 'library',
+  REVIEW = 'review',
+  QUIZ = 'quiz',
 }
 
 export enum WordCategory {
@@ -32,10 +35,92 @@ export enum StoryTone {
   RELATIONSHIPS = "Relationships",
 }
 
+/**
+ * Where a scene's picture is up to. Text arrives first, so a scene starts out
+ * 'pending'; 'failed' and 'fallback' both leave it without a picture, the
+ * first because generation failed and the second because AI pictures are off.
+ */
+export type SceneImageStatus = 'pending' | 'ready' | 'failed' | 'fallback';
+
 export interface StoryScene {
   text: string;
+  /** Empty while the picture is pending. */
   imageUrl: string;
   choices: string[];
+  /** Missing on stories saved before pictures were generated separately. */
+  imageStatus?: SceneImageStatus;
+  /** The function's signature that lets this scene be illustrated; only on scenes it wrote. */
+  imageToken?: string;
+}
+
+export interface StoryCharacter {
+  name: string;
+  /** e.g. "rabbit", "girl", "robot". */
+  species: string;
+  colors: string;
+  clothing: string;
+}
+
+/**
+ * A story's cast, setting and art style, written with the opening scene and
+ * sent with every later scene and picture so the whole book stays consistent.
+ */
+export interface StoryBible {
+  characters: StoryCharacter[];
+  setting: string;
+  artStyle: string;
+}
+
+/** One scene in a branching story, linked to the scene it continues. */
+export interface StoryNode {
+  id: string;
+  /** Null for the opening scene. */
+  parentId: string | null;
+  /** The choice on the parent scene that led here; null for the opening scene. */
+  choice: string | null;
+  scene: StoryScene;
+}
+
+export interface SavedStory {
+  id: string;
+  /** The child profile that made the story. Stories saved before profiles existed have none. */
+  profileId?: string;
+  title: string;
+  /** The path to the ending reached last, from the opening scene. */
+  scenes: StoryScene[];
+  words: Word[];
+  storyTone: StoryTone;
+  language: Language;
+  /** The choices along `scenes`, in order, one per scene transition. */
+  choicesTaken: string[];
+  /** Every explored scene. Missing on stories saved before branching, which are a single path. */
+  nodes?: StoryNode[];
+  /** The last scene of `scenes`. */
+  endingNodeId?: string;
+  /** Missing on stories saved before the bible existed, or when the opening scene came without one. */
+  bible?: StoryBible;
+  /** Unix timestamp (ms) of when the story was finished. */
+  createdAt: number;
+}
+
+/** A scene of a story from the offline pack, written in both languages. */
+export interface OfflineStoryScene {
+  text: Record<Language, string>;
+  imageUrl: string;
+  /** Empty for an ending. */
+  choices: { label: Record<Language, string>; next: string }[];
+}
+
+/** A pre-written branching story that is told without a network. */
+export interface OfflineStory {
+  id: string;
+  title: Record<Language, string>;
+  storyTone: StoryTone;
+  words: Word[];
+  /** How many scenes every path from the first scene to an ending has. */
+  sceneCount: number;
+  startSceneId: string;
+  scenes: Record<string, OfflineStoryScene>;
 }
 
 export enum AIVoice {
@@ -45,3 +130,132 @@ export enum AIVoice {
   ORION = "orion",
   EMBER = "ember",
 }
+
+export enum AgeBand {
+  TODDLER = "3-4",
+  PRESCHOOL = "5-6",
+  EARLY_READER = "7-8",
+}
+
+export interface ProfileSettings {
+  language: Language;
+  storyTone: StoryTone;
+  aiVoice: AIVoice;
+  isImageGenerationEnabled: boolean;
+  /** Scenes per story, one of STORY_LENGTHS. */
+  storyLength: number;
+  /** Generate the scene behind each choice while the current one is read. */
+  isScenePrefetchEnabled: boolean;
+}
+
+export interface ChildProfile {
+  id: string;
+  name: string;
+  /** An emoji shown as the child's picture. */
+  avatar: string;
+  ageBand: AgeBand;
+  settings: ProfileSettings;
+  /** Every word the child has picked for a story, without duplicates. */
+  learnedWords: Word[];
+  createdAt: number;
+}
+
+/** One child's spaced-repetition record for one word (Leitner system). */
+export interface WordProgress {
+  /** `${profileId}:${english}` */
+  id: string;
+  profileId: string;
+  word: Word;
+  /** Leitner box, from 1 (review daily) up to LEITNER_INTERVAL_DAYS.length. */
+  box: number;
+  /** How many times the word was picked for a story. */
+  exposures: number;
+  correctCount: number;
+  incorrectCount: number;
+  lastReviewedAt: number | null;
+  /** Unix timestamp (ms) from which the word is due for review. */
+  dueAt: number;
+}
+
+export enum QuizQuestionType {
+  PICTURE_TO_WORD = 'pictureToWord',
+  AUDIO_TO_PICTURE = 'audioToPicture',
+  THAI_TO_ENGLISH = 'thaiToEnglish',
+  STORY_WORD = 'storyWord',
+}
+
+export interface QuizQuestion {
+  type: QuizQuestionType;
+  answer: Word;
+  /** The answer plus distractors, in display order. */
+  options: Word[];
+}
+
+/** AI-generated words fetched for a category, cached on the device. */
+export interface VocabularySet {
+  category: WordCategory;
+  words: Word[];
+  updatedAt: number;
+}
+
+/** A word in a teacher's list, optionally with the teacher's own picture. */
+export interface CustomWord extends Word {
+  /** A data: or https: URL. */
+  imageUrl?: string;
+}
+
+export interface CustomWordList {
+  id: string;
+  name: string;
+  words: CustomWord[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A generated file kept on the device, evicted least-recently-used first. */
+export interface CachedAsset {
+  /** Hash of everything that went into generating the file. */
+  key: string;
+  blob: Blob;
+  size: number;
+  lastAccessedAt: number;
+}
+
+/** One "say it" attempt at pronouncing a word. */
+export interface PronunciationAttempt {
+  id: string;
+  profileId: string;
+  /** The English word the child tried to say. */
+  english: string;
+  /** What speech recognition heard. */
+  heard: string;
+  /** 0 (not recognised) to 3 stars. */
+  stars: number;
+  attemptedAt: number;
+}
+
+/** Why the safety check stopped some text. */
+export type ModerationCategory = 'violence' | 'weapons' | 'adult' | 'substances' | 'selfHarm' | 'profanity' | 'frightening' | 'unsafe';
+
+/**
+ * What was done about it: a child's idea is 'redirected' to something else,
+ * and a model reply is 'regenerated', or 'replaced' with a stock one if
+ * retrying didn't help.
+ */
+export type ModerationAction = 'redirected' | 'regenerated' | 'replaced';
+
+export interface ModerationEvent {
+  direction: 'input' | 'output';
+  category: ModerationCategory;
+  action: ModerationAction;
+  /** The start of the text that was stopped, for parents to review. */
+  excerpt: string;
+}
+
+/** A moderation event kept on the device for the parents of one child. */
+export interface ModerationLogEntry extends ModerationEvent {
+  id: string;
+  /** Missing when no profile was active. */
+  profileId?: string;
+  createdAt: number;
+}
@@ -1,12 +1,53 @@
+import fs from 'fs';
 import path from 'path';
+import { createHash } from 'crypto';
 import { defineConfig, loadEnv } from 'vite';
+import type { Plugin } from 'vite';
+
+/**
+ * Emits sw.js from serviceWorker.js, listing every built file and every file
+ * in public/ for precaching. The cache version is a hash of all their
+ * contents, so each deploy that changes anything replaces the old cache.
+ */
+const serviceWorker = (): Plugin => ({
+  name: 'imagitale-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const publicDir = path.resolve(__dirname, 'public');
+    const publicFiles = fs.existsSync(publicDir)
+      ? fs.readdirSync(publicDir, { recursive: true, encoding: 'utf8' })
+          .filter(file => fs.statSync(path.join(publicDir, file)).isFile())
+          .map(file => ({ url: `/${file.split(path.sep).join('/')}`, contents: fs.readFileSync(path.join(publicDir, file)) }))
+      : [];
+    const builtFiles = Object.values(bundle)
+      .filter(output => !output.fileName.endsWith('.map'))
+      .map(output => ({ url: `/${output.fileName}`, contents: output.type === 'chunk' ? output.code : output.source }));
+
+    const files = [...builtFiles, ...publicFiles];
+    const hash = createHash('sha256');
+    for (const { url, contents } of files) hash.update(url).update(contents);
+    const urls = ['/', ...files.map(file => file.url)];
+
+    const template = fs.readFileSync(path.resolve(__dirname, 'serviceWorker.js'), 'utf8');
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: template
+        .replace('__CACHE_VERSION__', hash.digest('hex').slice(0, 12))
+        .replace('[/* precache */]', JSON.stringify(urls)),
+    });
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SCENE_PREFETCH': JSON.stringify(env.SCENE_PREFETCH)
       },
       resolve: {
         alias: {